@@ -9,6 +9,7 @@ import {
   mergeCapturedState,
   loadPostState,
   clearPostState,
+  getAllPostStates,
 } from './services/stateManager';
 import {
   initPipelineManager,
@@ -18,7 +19,47 @@ import {
   resetPipeline,
   getPipelineStatus,
   getActiveTabId,
+  reviewDraft,
+  hasActionStep,
+  resolvePipelineSteps,
+  retryFailedSteps,
+  applyCommentAction,
 } from './services/pipelineManager';
+import {
+  initCampaignManager,
+  getCampaign,
+  addCampaignPosts,
+  removeCampaignPost,
+  clearCampaign,
+  startCampaign,
+  stopCampaign,
+} from './services/campaignManager';
+import {
+  initScheduler,
+  getSchedule,
+  updateSchedule,
+} from './services/scheduler';
+import { initQuotaManager, getQuotaUsage } from './services/quotaManager';
+import {
+  initTriggerRules,
+  getTriggerRules,
+  saveTriggerRule,
+  deleteTriggerRule,
+} from './services/triggerRules';
+import {
+  initProfileLists,
+  getProfileRules,
+  saveProfileRule,
+  deleteProfileRule,
+  importProfileRules,
+} from './services/profileLists';
+import {
+  initContactRegistry,
+  getContact,
+  listContacts,
+  updateContact,
+  importPostHistory,
+} from './services/contactRegistry';
 import {
   initializeConfig,
   updateConfig,
@@ -33,8 +74,19 @@ import {
   LogEntry,
   ParsedComment,
   Comment,
+  RunMode,
+  PipelineSteps,
+  DraftKind,
+  ReviewAction,
+  CommentAction,
+  CommentStep,
+  TriggerRule,
+  Contact,
+  ProfileRule,
+  ProfileListType,
+  CommentOrdering,
 } from '../shared/types';
-import { OpenRouterClient } from './services/openRouterClient';
+import { createAIProvider } from './services/aiProvider';
 import { logger } from './logger';
 import { getPostUrnFromUrl } from '../shared/linkedin';
 
@@ -165,7 +217,7 @@ const sendMessageToTab = <T>(
 };
 
 // Load all persisted states into memory on startup
-loadAllStates()
+const postStatesLoadPromise = loadAllStates()
   .then(() => {
     // broadcastStateUpdate can be called here if needed to inform UI of loaded states
     logger.info('All post states loaded into memory.');
@@ -173,8 +225,41 @@ loadAllStates()
   .catch((error) => {
     logger.error('Failed to load post states on startup', error);
   });
-// Initialize the pipeline manager with a broadcaster function.
-initPipelineManager(broadcastStateUpdate, sendMessageToTab);
+// Load the action ledger before the pipeline can record or check quotas.
+const quotaInitializationPromise = initQuotaManager(broadcastStateUpdate);
+// Load the trigger rules the pipeline checks comments against.
+const triggerRulesInitializationPromise =
+  initTriggerRules(broadcastStateUpdate);
+// Load the allow and block lists the pipeline checks commenters against.
+const profileListsInitializationPromise =
+  initProfileLists(broadcastStateUpdate);
+// Load the contact history the pipeline checks cool-downs against.
+const contactRegistryInitializationPromise = initContactRegistry();
+// Everything a run checks comments against. Handlers that start or resume a
+// run await this promise.
+const pipelineDependenciesPromise = Promise.all([
+  configInitializationPromise,
+  quotaInitializationPromise,
+  triggerRulesInitializationPromise,
+  profileListsInitializationPromise,
+  contactRegistryInitializationPromise,
+]);
+// Initialize the pipeline manager with a broadcaster function. An interrupted
+// run is restored once its dependencies have loaded.
+initPipelineManager(
+  broadcastStateUpdate,
+  sendMessageToTab,
+  pipelineDependenciesPromise
+);
+// Restore the campaign queue; handlers touching it await this promise.
+const campaignInitializationPromise = initCampaignManager(broadcastStateUpdate);
+// Registers the alarm listener synchronously so scheduled alarms wake the worker.
+// Scheduled runs wait for the same data as runs started by hand.
+const schedulerInitializationPromise = initScheduler(
+  broadcastStateUpdate,
+  sendMessageToTab,
+  pipelineDependenciesPromise
+);
 
 // Add tab close event listener to auto-stop pipeline when tab is closed
 chrome.tabs.onRemoved.addListener((tabId) => {
@@ -280,6 +365,21 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
 
     // Proactively send state to the UI that just connected.
     (async () => {
+      await Promise.all([
+        configInitializationPromise,
+        quotaInitializationPromise,
+        campaignInitializationPromise,
+        schedulerInitializationPromise,
+        triggerRulesInitializationPromise,
+        profileListsInitializationPromise,
+      ]);
+      broadcastStateUpdate({
+        campaign: getCampaign(),
+        schedule: getSchedule(),
+        quotaUsage: getQuotaUsage(),
+        triggerRules: getTriggerRules(),
+        profileRules: getProfileRules(),
+      });
       const postUrn = getPostUrnFromUrl(sender.tab?.url);
       if (postUrn) {
         // Attempt to load from storage if not in memory, to handle SW startup race conditions
@@ -295,10 +395,21 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
               postUrn,
             }
           );
+          // A dry run shows its simulated copy instead of the real statuses
+          const isDryRun =
+            state._meta.runMode === 'dry-run' && !!state.simulation;
           broadcastStateUpdate({
-            comments: state.comments,
+            comments: isDryRun ? state.simulation!.comments : state.comments,
             pipelineStatus: state._meta.runState,
             postUrn: state._meta.postId,
+            postAuthor: state._meta.author,
+            postTimestamp: state._meta.timestamp,
+            postUsage: state._meta.usage ?? null,
+            runMode: state._meta.runMode ?? 'auto',
+            steps: resolvePipelineSteps(state._meta.steps),
+            ordering: state._meta.ordering ?? 'capture',
+            pauseReason: state._meta.pauseReason ?? null,
+            resumeAt: state._meta.resumeAt ?? null,
             isInitializing: false,
           });
         } else {
@@ -307,6 +418,9 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
             isInitializing: false,
             comments: [],
             postUrn,
+            postAuthor: undefined,
+            postTimestamp: undefined,
+            postUsage: null,
           });
         }
       } else {
@@ -315,6 +429,9 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
           isInitializing: false,
           comments: [],
           postUrn: undefined,
+          postAuthor: undefined,
+          postTimestamp: undefined,
+          postUsage: null,
         });
       }
     })();
@@ -459,6 +576,8 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
           config: safeConfig,
         });
         await updateConfig(message.payload as Partial<AIConfig>);
+        // Limits may have changed
+        broadcastStateUpdate({ quotaUsage: getQuotaUsage() });
         sendResponse({ status: 'success' });
       } catch (error) {
         logger.error('Failed to update AI config', error);
@@ -484,23 +603,32 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
   }
 
   if (message.type === 'GET_MODELS') {
-    logger.info('Received request to get models from OpenRouter.');
+    logger.info('Received request to get models.', {
+      provider: message.payload?.provider,
+    });
     (async () => {
       try {
         await configInitializationPromise;
-        const config = getConfig();
-        // Use API key from payload for testing, otherwise use saved key.
-        const apiKeyToUse = message.payload?.apiKey || config.apiKey;
-        if (!apiKeyToUse) {
-          throw new Error('OpenRouter API key is not set.');
-        }
-        const client = new OpenRouterClient(apiKeyToUse, config.attribution);
-        const models = await client.getModels();
+        const savedConfig = getConfig();
+        // Use the provider settings from the payload for testing, otherwise
+        // use the saved ones.
+        const overrides = (message.payload || {}) as Pick<
+          AIConfig,
+          'apiKey' | 'provider' | 'baseUrl'
+        >;
+        const config: AIConfig = {
+          ...savedConfig,
+          provider: overrides.provider || savedConfig.provider,
+          apiKey: overrides.apiKey || savedConfig.apiKey,
+          baseUrl: overrides.baseUrl ?? savedConfig.baseUrl,
+        };
+        const models = await createAIProvider(config).getModels();
+        const isOpenRouter = (config.provider ?? 'openrouter') === 'openrouter';
 
         // Filter and sort models before sending to UI
         const filteredModels = models.filter((model) => {
-          // If filters are not defined, include the model by default.
-          if (!config.modelFilters) {
+          // Only OpenRouter reports the metadata the filters rely on.
+          if (!config.modelFilters || !isOpenRouter) {
             return true;
           }
           const meetsContextRequirement =
@@ -537,22 +665,53 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
 
         sendResponse({ status: 'success', payload: sortedModels });
       } catch (error) {
-        logger.error('Failed to fetch models from OpenRouter', error);
+        logger.error('Failed to fetch models', error);
         sendResponse({ status: 'error', message: (error as Error).message });
       }
     })();
     return true; // Indicate async response
   }
 
+  if (message.type === 'REQUEST_HOST_ACCESS') {
+    (async () => {
+      try {
+        const { origins } = message.payload as { origins: string[] };
+        const granted =
+          (await chrome.permissions.contains({ origins })) ||
+          (await chrome.permissions.request({ origins }));
+        logger.info('Host access for the AI provider checked', {
+          origins,
+          granted,
+        });
+        sendResponse({ status: 'success', payload: { granted } });
+      } catch (error) {
+        logger.error('Failed to request host access', error);
+        sendResponse({ status: 'error', message: (error as Error).message });
+      }
+    })();
+    return true;
+  }
+
   if (message.type === 'START_PIPELINE') {
     (async () => {
       try {
-        await configInitializationPromise;
-        const { postUrn, maxComments, delayMin, delayMax } = message.payload as {
+        await pipelineDependenciesPromise;
+        const {
+          postUrn,
+          maxComments,
+          delayMin,
+          delayMax,
+          runMode,
+          steps,
+          ordering,
+        } = message.payload as {
           postUrn: string;
           maxComments?: number;
           delayMin?: number;
           delayMax?: number;
+          runMode?: RunMode;
+          steps?: Partial<PipelineSteps>;
+          ordering?: CommentOrdering;
         };
         const tabId = sender.tab?.id;
         if (!tabId) {
@@ -564,14 +723,29 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
           maxComments,
           delayMin,
           delayMax,
+          runMode,
+          steps,
+          ordering,
         });
+        if (!hasActionStep(steps)) {
+          throw new Error(
+            'Select at least one of like, reply, DM or connection request.'
+          );
+        }
         if (typeof delayMin === 'number' || typeof delayMax === 'number') {
           await updateConfig({
             minDelay: delayMin,
             maxDelay: delayMax,
           });
         }
-        await startPipeline(postUrn, tabId, maxComments);
+        await startPipeline(
+          postUrn,
+          tabId,
+          maxComments,
+          runMode,
+          steps,
+          ordering
+        );
         sendResponse({ status: 'success' });
       } catch (error) {
         logger.error('Failed to start pipeline', error, {
@@ -622,7 +796,7 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
           senderTabId,
           reason: message.payload?.reason,
         });
-        await stopPipeline();
+        await stopPipeline(message.payload?.reason);
         sendResponse({ status: 'success' });
       } catch (error) {
         logger.error('Failed to stop pipeline', error);
@@ -635,7 +809,7 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
   if (message.type === 'RESUME_PIPELINE') {
     (async () => {
       try {
-        await configInitializationPromise;
+        await pipelineDependenciesPromise;
         const postUrn =
           (message.postUrn as string) ||
           (message.payload?.postUrn as string) ||
@@ -652,6 +826,344 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
     return true;
   }
 
+  if (message.type === 'CAMPAIGN_ADD_POSTS') {
+    (async () => {
+      try {
+        await campaignInitializationPromise;
+        const { entries } = message.payload as { entries: string[] };
+        const result = await addCampaignPosts(entries || []);
+        sendResponse({ status: 'success', payload: result });
+      } catch (error) {
+        logger.error('Failed to add campaign posts', error);
+        sendResponse({ status: 'error', message: (error as Error).message });
+      }
+    })();
+    return true;
+  }
+
+  if (message.type === 'CAMPAIGN_ADD_FROM_PAGE') {
+    (async () => {
+      try {
+        await campaignInitializationPromise;
+        const tabId = sender.tab?.id;
+        if (!tabId) {
+          throw new Error('Could not get tab ID to collect posts from.');
+        }
+        const urns = await sendMessageToTab<string[]>(tabId, {
+          type: 'COLLECT_POST_URNS',
+        });
+        const result = await addCampaignPosts(urns || []);
+        sendResponse({ status: 'success', payload: result });
+      } catch (error) {
+        logger.error('Failed to add campaign posts from page', error);
+        sendResponse({ status: 'error', message: (error as Error).message });
+      }
+    })();
+    return true;
+  }
+
+  if (message.type === 'CAMPAIGN_REMOVE_POST') {
+    (async () => {
+      try {
+        await campaignInitializationPromise;
+        const { postUrn } = message.payload as { postUrn: string };
+        await removeCampaignPost(postUrn);
+        sendResponse({ status: 'success' });
+      } catch (error) {
+        logger.error('Failed to remove campaign post', error);
+        sendResponse({ status: 'error', message: (error as Error).message });
+      }
+    })();
+    return true;
+  }
+
+  if (message.type === 'CAMPAIGN_START') {
+    (async () => {
+      try {
+        await pipelineDependenciesPromise;
+        await campaignInitializationPromise;
+        const tabId = sender.tab?.id;
+        if (!tabId) {
+          throw new Error('Could not get tab ID to run the campaign in.');
+        }
+        const { runMode, maxComments, steps, ordering } = (message.payload ||
+          {}) as {
+          runMode?: RunMode;
+          maxComments?: number;
+          steps?: Partial<PipelineSteps>;
+          ordering?: CommentOrdering;
+        };
+        await startCampaign(tabId, { runMode, maxComments, steps, ordering });
+        sendResponse({ status: 'success' });
+      } catch (error) {
+        logger.error('Failed to start campaign', error);
+        sendResponse({ status: 'error', message: (error as Error).message });
+      }
+    })();
+    return true;
+  }
+
+  if (message.type === 'CAMPAIGN_STOP') {
+    (async () => {
+      try {
+        await campaignInitializationPromise;
+        await stopCampaign();
+        if (getPipelineStatus() === 'running') {
+          await stopPipeline();
+        }
+        sendResponse({ status: 'success' });
+      } catch (error) {
+        logger.error('Failed to stop campaign', error);
+        sendResponse({ status: 'error', message: (error as Error).message });
+      }
+    })();
+    return true;
+  }
+
+  if (message.type === 'CAMPAIGN_CLEAR') {
+    (async () => {
+      try {
+        await campaignInitializationPromise;
+        await clearCampaign();
+        sendResponse({ status: 'success' });
+      } catch (error) {
+        logger.error('Failed to clear campaign', error);
+        sendResponse({ status: 'error', message: (error as Error).message });
+      }
+    })();
+    return true;
+  }
+
+  if (message.type === 'GET_SCHEDULE') {
+    (async () => {
+      await schedulerInitializationPromise;
+      sendResponse({ status: 'success', payload: getSchedule() });
+    })();
+    return true;
+  }
+
+  if (message.type === 'UPDATE_SCHEDULE') {
+    (async () => {
+      try {
+        await schedulerInitializationPromise;
+        const schedule = await updateSchedule(message.payload || {});
+        sendResponse({ status: 'success', payload: schedule });
+      } catch (error) {
+        logger.error('Failed to update schedule', error);
+        sendResponse({ status: 'error', message: (error as Error).message });
+      }
+    })();
+    return true;
+  }
+
+  if (message.type === 'SAVE_TRIGGER_RULE') {
+    (async () => {
+      try {
+        await triggerRulesInitializationPromise;
+        const rule = await saveTriggerRule(message.payload as TriggerRule);
+        sendResponse({ status: 'success', payload: rule });
+      } catch (error) {
+        logger.error('Failed to save trigger rule', error);
+        sendResponse({ status: 'error', message: (error as Error).message });
+      }
+    })();
+    return true;
+  }
+
+  if (message.type === 'DELETE_TRIGGER_RULE') {
+    (async () => {
+      try {
+        await triggerRulesInitializationPromise;
+        const { id } = message.payload as { id: string };
+        await deleteTriggerRule(id);
+        sendResponse({ status: 'success' });
+      } catch (error) {
+        logger.error('Failed to delete trigger rule', error);
+        sendResponse({ status: 'error', message: (error as Error).message });
+      }
+    })();
+    return true;
+  }
+
+  if (message.type === 'SAVE_PROFILE_RULE') {
+    (async () => {
+      try {
+        await profileListsInitializationPromise;
+        const rule = await saveProfileRule(message.payload as ProfileRule);
+        sendResponse({ status: 'success', payload: rule });
+      } catch (error) {
+        logger.error('Failed to save profile rule', error);
+        sendResponse({ status: 'error', message: (error as Error).message });
+      }
+    })();
+    return true;
+  }
+
+  if (message.type === 'DELETE_PROFILE_RULE') {
+    (async () => {
+      try {
+        await profileListsInitializationPromise;
+        const { id } = message.payload as { id: string };
+        await deleteProfileRule(id);
+        sendResponse({ status: 'success' });
+      } catch (error) {
+        logger.error('Failed to delete profile rule', error);
+        sendResponse({ status: 'error', message: (error as Error).message });
+      }
+    })();
+    return true;
+  }
+
+  if (message.type === 'IMPORT_PROFILE_RULES') {
+    (async () => {
+      try {
+        await profileListsInitializationPromise;
+        const { csv, list } = message.payload as {
+          csv: string;
+          list: ProfileListType;
+        };
+        const result = await importProfileRules(csv, list);
+        sendResponse({ status: 'success', payload: result });
+      } catch (error) {
+        logger.error('Failed to import profile rules', error);
+        sendResponse({ status: 'error', message: (error as Error).message });
+      }
+    })();
+    return true;
+  }
+
+  if (message.type === 'GET_CONTACT') {
+    (async () => {
+      await contactRegistryInitializationPromise;
+      const { profileUrl } = message.payload as { profileUrl: string };
+      sendResponse({ status: 'success', payload: getContact(profileUrl) });
+    })();
+    return true;
+  }
+
+  if (message.type === 'LIST_CONTACTS') {
+    (async () => {
+      try {
+        await Promise.all([
+          contactRegistryInitializationPromise,
+          postStatesLoadPromise,
+        ]);
+        // Picks up people engaged before the registry existed
+        await importPostHistory(getAllPostStates());
+        sendResponse({ status: 'success', payload: listContacts() });
+      } catch (error) {
+        logger.error('Failed to list contacts', error);
+        sendResponse({ status: 'error', message: (error as Error).message });
+      }
+    })();
+    return true;
+  }
+
+  if (message.type === 'UPDATE_CONTACT') {
+    (async () => {
+      try {
+        await contactRegistryInitializationPromise;
+        const { profileUrl, ...changes } = message.payload as {
+          profileUrl: string;
+        } & Pick<Partial<Contact>, 'tags' | 'notes'>;
+        const contact = await updateContact(profileUrl, changes);
+        sendResponse({ status: 'success', payload: contact });
+      } catch (error) {
+        logger.error('Failed to update contact', error);
+        sendResponse({ status: 'error', message: (error as Error).message });
+      }
+    })();
+    return true;
+  }
+
+  if (message.type === 'REVIEW_DRAFT') {
+    (async () => {
+      try {
+        await pipelineDependenciesPromise;
+        const { postUrn, commentId, draft, action, text } = message.payload as {
+          postUrn: string;
+          commentId: string;
+          draft: DraftKind;
+          action: ReviewAction;
+          text?: string;
+        };
+        logger.info('Received REVIEW_DRAFT request', {
+          postUrn,
+          commentId,
+          draft,
+          action,
+        });
+        const comment = await reviewDraft(
+          postUrn,
+          commentId,
+          draft,
+          action,
+          text,
+          sender.tab?.id
+        );
+        sendResponse({ status: 'success', payload: comment });
+      } catch (error) {
+        logger.error('Failed to apply draft review', error, {
+          payload: message.payload,
+        });
+        sendResponse({ status: 'error', message: (error as Error).message });
+      }
+    })();
+    return true;
+  }
+
+  if (message.type === 'RETRY_FAILED') {
+    (async () => {
+      try {
+        await pipelineDependenciesPromise;
+        const { postUrn } = message.payload as { postUrn: string };
+        logger.info('Received RETRY_FAILED request', { postUrn });
+        const requeued = await retryFailedSteps(postUrn, sender.tab?.id);
+        sendResponse({ status: 'success', payload: { requeued } });
+      } catch (error) {
+        logger.error('Failed to retry failed steps', error, {
+          payload: message.payload,
+        });
+        sendResponse({ status: 'error', message: (error as Error).message });
+      }
+    })();
+    return true;
+  }
+
+  if (message.type === 'COMMENT_ACTION') {
+    (async () => {
+      try {
+        await pipelineDependenciesPromise;
+        const { postUrn, commentId, action, step } = message.payload as {
+          postUrn: string;
+          commentId: string;
+          action: CommentAction;
+          step?: CommentStep;
+        };
+        logger.info('Received COMMENT_ACTION request', {
+          postUrn,
+          commentId,
+          action,
+          step,
+        });
+        const comment = await applyCommentAction(
+          postUrn,
+          commentId,
+          action,
+          step,
+          sender.tab?.id
+        );
+        sendResponse({ status: 'success', payload: comment });
+      } catch (error) {
+        logger.error('Failed to apply comment action', error, {
+          payload: message.payload,
+        });
+        sendResponse({ status: 'error', message: (error as Error).message });
+      }
+    })();
+    return true;
+  }
+
   // Reset pipeline to idle without clearing saved state
   if (message.type === 'RESET_PIPELINE') {
     (async () => {
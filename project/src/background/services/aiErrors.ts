@@ -0,0 +1,120 @@
+export type AIErrorKind =
+  | 'auth'
+  | 'quota'
+  | 'rate-limit'
+  | 'transient'
+  | 'content-filter'
+  | 'request';
+
+/**
+ * A failed AI request. The subclasses tell the retry logic and the pipeline
+ * how to react; this base class covers requests the server refused as
+ * invalid, e.g. an unknown model.
+ */
+export class AIRequestError extends Error {
+  readonly kind: AIErrorKind = 'request';
+  // Repeating the same request can succeed
+  readonly retryable: boolean = false;
+  // Another model can succeed where this one failed
+  readonly canFallBack: boolean = true;
+
+  /**
+   * @param status The HTTP status, when the error came with a response.
+   * @param retryAfterMs How long the server asked to wait before retrying.
+   */
+  constructor(
+    message: string,
+    readonly status?: number,
+    readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/** The API key is missing, invalid or lacks permission. */
+export class AIAuthError extends AIRequestError {
+  readonly kind = 'auth';
+  readonly canFallBack = false;
+}
+
+/** The account has run out of credits or exceeded its billing quota. */
+export class AIQuotaError extends AIRequestError {
+  readonly kind = 'quota';
+  readonly canFallBack = false;
+}
+
+export class AIRateLimitError extends AIRequestError {
+  readonly kind = 'rate-limit';
+  readonly retryable = true;
+}
+
+/** A network failure, timeout or overloaded server. */
+export class AITransientError extends AIRequestError {
+  readonly kind = 'transient';
+  readonly retryable = true;
+}
+
+/** The provider's moderation refused the prompt or the answer. */
+export class AIContentFilterError extends AIRequestError {
+  readonly kind = 'content-filter';
+}
+
+const CONTENT_FILTER_PATTERN =
+  /flagged|moderation|content[ _](filter|policy|management)|safety system/i;
+// Only explicit codes count: rate-limit messages often mention credits too
+const QUOTA_CODE_PATTERN = /^insufficient[ _](funds|quota|balance|credits)$/i;
+const RATE_LIMIT_CODE_PATTERN = /^rate[ _]limit/i;
+
+/**
+ * Chooses the error class for a failed request.
+ * @param status The HTTP status, or the numeric code of an error payload.
+ * @param code The error code or type reported by the provider, e.g.
+ *   `insufficient_quota` or `overloaded_error`.
+ */
+export const createAIError = (
+  message: string,
+  status?: number,
+  code?: string,
+  retryAfterMs?: number
+): AIRequestError => {
+  const details = `${code ?? ''} ${message}`;
+  if (CONTENT_FILTER_PATTERN.test(details)) {
+    return new AIContentFilterError(message, status);
+  }
+  if (status === 402 || QUOTA_CODE_PATTERN.test(code ?? '')) {
+    return new AIQuotaError(message, status);
+  }
+  if (status === 429 || RATE_LIMIT_CODE_PATTERN.test(code ?? '')) {
+    return new AIRateLimitError(message, status, retryAfterMs);
+  }
+  if (
+    status === 401 ||
+    status === 403 ||
+    code === 'authentication_error' ||
+    code === 'permission_error'
+  ) {
+    return new AIAuthError(message, status);
+  }
+  if (
+    status === 408 ||
+    (status !== undefined && status >= 500) ||
+    code === 'overloaded_error' ||
+    code === 'api_error'
+  ) {
+    return new AITransientError(message, status, retryAfterMs);
+  }
+  return new AIRequestError(message, status);
+};
+
+/**
+ * Reads a `Retry-After` header, given either in seconds or as an HTTP date.
+ * @returns The delay in milliseconds, or undefined if there is none.
+ */
+export const parseRetryAfter = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
@@ -0,0 +1,122 @@
+/* global RequestInit */
+import { logger } from '../logger';
+import {
+  AIRequestError,
+  AITransientError,
+  createAIError,
+  parseRetryAfter,
+} from './aiErrors';
+
+const MAX_RETRIES = 3;
+const INITIAL_DELAY = 1000; // 1 second
+// A longer Retry-After is not waited for, so a fallback model can take over
+const MAX_RETRY_AFTER = 60 * 1000;
+
+/**
+ * Converts a non-OK response into the matching AI error class.
+ */
+const toAIError = async (response: Response): Promise<AIRequestError> => {
+  const errorBody = await response.json().catch(() => ({}));
+  const errorMessage =
+    errorBody?.error?.message ||
+    (typeof errorBody?.error === 'string' ? errorBody.error : '') ||
+    `HTTP error! status: ${response.status}`;
+  const code = errorBody?.error?.code ?? errorBody?.error?.type;
+  return createAIError(
+    errorMessage,
+    response.status,
+    typeof code === 'string' ? code : undefined,
+    parseRetryAfter(response.headers.get('Retry-After'))
+  );
+};
+
+/**
+ * A helper function to perform fetch requests with retry logic. Only rate
+ * limits and transient failures are retried, honouring `Retry-After`.
+ * @param url The URL to fetch.
+ * @param options The request options.
+ * @returns A promise that resolves to the Response object.
+ * @throws An {@link AIRequestError} subclass describing the failure.
+ */
+export async function fetchWithRetry(
+  url: string,
+  options: RequestInit
+): Promise<Response> {
+  const path = new URL(url).pathname;
+
+  for (let attempt = 1; ; attempt++) {
+    let error: AIRequestError;
+    try {
+      const response = await fetch(url, options);
+      if (response.ok) {
+        return response;
+      }
+      error = await toAIError(response);
+    } catch (fetchError) {
+      // A cancelled request must not be retried
+      if (options.signal?.aborted) throw fetchError;
+      // fetch only rejects when the server could not be reached
+      error = new AITransientError((fetchError as Error).message);
+    }
+
+    logger.warn(`Fetch attempt ${attempt}/${MAX_RETRIES} failed for ${path}`, {
+      attempt,
+      kind: error.kind,
+      status: error.status,
+      error: error.message,
+    });
+    const delay =
+      error.retryAfterMs ??
+      INITIAL_DELAY * Math.pow(2, attempt - 1) * (0.9 + Math.random() * 0.2); // +/- 10% jitter
+    if (!error.retryable || attempt >= MAX_RETRIES || delay > MAX_RETRY_AFTER) {
+      logger.error(`Failed to fetch ${path} after ${attempt} attempts`, error, {
+        kind: error.kind,
+      });
+      throw error;
+    }
+    await new Promise((resolve) => setTimeout(resolve, delay));
+  }
+}
+
+/**
+ * Reads a streaming response line by line. Used for server-sent events and
+ * newline-delimited JSON.
+ * @param response The streaming response.
+ * @param onLine Called with every non-empty line; returning true stops reading.
+ */
+export async function readStreamLines(
+  response: Response,
+  onLine: (line: string) => boolean | void
+): Promise<void> {
+  if (!response.body) {
+    throw new Error('Streaming response has no body.');
+  }
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (trimmed && onLine(trimmed)) {
+        await reader.cancel();
+        return;
+      }
+    }
+  }
+  const rest = buffer.trim();
+  if (rest) onLine(rest);
+}
+
+/**
+ * Extracts the payload of a server-sent events `data:` line.
+ * @returns The payload, or null for comments and other fields.
+ */
+export const getSseData = (line: string): string | null =>
+  line.startsWith('data:') ? line.slice('data:'.length).trim() : null;
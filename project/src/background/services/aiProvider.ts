@@ -0,0 +1,84 @@
+import type {
+  AIConfig,
+  AIProviderId,
+  ChatMessage,
+  OpenRouterModel,
+  TokenUsage,
+} from '../../shared/types';
+import { AnthropicClient } from './anthropicClient';
+import { MockAIClient } from './mockAIClient';
+import { OllamaClient } from './ollamaClient';
+import { OpenAICompatibleClient } from './openAICompatibleClient';
+import { OpenRouterClient } from './openRouterClient';
+
+export interface ChatCompletionRequest {
+  model?: string;
+  messages: ChatMessage[];
+  temperature?: number;
+  top_p?: number;
+  max_tokens?: number;
+  // Asks for a JSON object; providers without native support rely on the prompt
+  response_format?: { type: 'json_object' };
+}
+
+/**
+ * Options for a chat completion request.
+ * - `stream`: requests a streamed response and reports the text as it arrives.
+ * - `onDelta`: called with the full text received so far while streaming.
+ * - `signal`: cancels the request, e.g. when the pipeline is paused.
+ * - `onUsage`: called with the token counts, when the provider reports them.
+ */
+export interface ChatCompletionOptions {
+  stream?: boolean;
+  onDelta?: (text: string) => void;
+  signal?: AbortSignal;
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+/**
+ * A backend that lists models and generates replies and DMs.
+ */
+export interface AIProvider {
+  getModels(): Promise<OpenRouterModel[]>;
+  createChatCompletion(
+    payload: ChatCompletionRequest,
+    options?: ChatCompletionOptions
+  ): Promise<string>;
+}
+
+/**
+ * Whether the provider cannot work without an API key. Local servers and
+ * OpenAI-compatible gateways may run without one.
+ */
+export const providerRequiresApiKey = (provider?: AIProviderId): boolean =>
+  !provider || provider === 'openrouter' || provider === 'anthropic';
+
+/**
+ * Creates the provider selected in the configuration.
+ * @throws If the provider needs an API key or base URL that is not set.
+ */
+export const createAIProvider = (config: AIConfig): AIProvider => {
+  const provider = config.provider ?? 'openrouter';
+  if (providerRequiresApiKey(provider) && !config.apiKey) {
+    throw new Error(`The API key for ${provider} is not set.`);
+  }
+
+  switch (provider) {
+    case 'openai-compatible':
+      if (!config.baseUrl) {
+        throw new Error(
+          'The base URL of the OpenAI-compatible API is not set.'
+        );
+      }
+      return new OpenAICompatibleClient(config.baseUrl, config.apiKey);
+    case 'anthropic':
+      return new AnthropicClient(config.apiKey!);
+    case 'ollama':
+      return new OllamaClient(config.baseUrl || undefined);
+    case 'mock':
+      return new MockAIClient();
+    case 'openrouter':
+    default:
+      return new OpenRouterClient(config.apiKey!, config.attribution);
+  }
+};
@@ -0,0 +1,212 @@
+import { OpenRouterModel } from '../../shared/types';
+import { logger } from '../logger';
+import { createAIError } from './aiErrors';
+import { fetchWithRetry, getSseData, readStreamLines } from './aiHttp';
+import type {
+  AIProvider,
+  ChatCompletionOptions,
+  ChatCompletionRequest,
+} from './aiProvider';
+
+const API_BASE_URL = 'https://api.anthropic.com/v1';
+const API_VERSION = '2023-06-01';
+// The Messages API requires an explicit limit
+const DEFAULT_MAX_TOKENS = 256;
+
+interface MessagesUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+}
+
+// `type` is e.g. `overloaded_error` or `authentication_error`
+interface MessagesError {
+  type?: string;
+  message: string;
+}
+
+interface MessagesResponse {
+  content?: { type: string; text?: string }[];
+  usage?: MessagesUsage;
+  error?: MessagesError;
+}
+
+interface MessagesStreamEvent {
+  type: string;
+  delta?: { type: string; text?: string };
+  // Input tokens arrive with `message_start`, output tokens with `message_delta`
+  message?: { usage?: MessagesUsage };
+  usage?: MessagesUsage;
+  error?: MessagesError;
+}
+
+/**
+ * A client for the Anthropic Messages API.
+ */
+export class AnthropicClient implements AIProvider {
+  #headers: Headers;
+
+  /**
+   * Creates an instance of the AnthropicClient.
+   * @param apiKey The user's Anthropic API key.
+   */
+  constructor(apiKey: string) {
+    this.#headers = new Headers();
+    this.#headers.append('x-api-key', apiKey);
+    this.#headers.append('anthropic-version', API_VERSION);
+    // Required for requests from an extension rather than a server
+    this.#headers.append('anthropic-dangerous-direct-browser-access', 'true');
+  }
+
+  /**
+   * Fetches the list of available models from Anthropic.
+   * @returns A promise that resolves to the list of models.
+   */
+  public async getModels(): Promise<OpenRouterModel[]> {
+    logger.info('Fetching models from Anthropic.');
+    try {
+      const response = await fetchWithRetry(`${API_BASE_URL}/models`, {
+        method: 'GET',
+        headers: this.#headers,
+      });
+      const jsonResponse = (await response.json()) as {
+        data: { id: string; display_name?: string }[];
+      };
+      logger.info('Successfully fetched models from Anthropic.');
+      return (jsonResponse.data || []).map((model) => ({
+        id: model.id,
+        name: model.display_name || model.id,
+        context_length: 0,
+      }));
+    } catch (error) {
+      logger.error('Failed to fetch models after all retries', error, {
+        endpoint: '/models',
+        provider: 'Anthropic',
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Creates a message using the specified model and messages. System
+   * messages are passed as the top-level system prompt.
+   * @param payload The request payload containing the model, messages, and other parameters.
+   * @param options Streaming and cancellation options.
+   * @returns A promise that resolves to the AI-generated reply string.
+   */
+  public async createChatCompletion(
+    payload: ChatCompletionRequest,
+    options: ChatCompletionOptions = {}
+  ): Promise<string> {
+    logger.info('Requesting message from Anthropic', {
+      model: payload.model,
+      stream: !!options.stream,
+    });
+    const headers = new Headers(this.#headers);
+    headers.append('Content-Type', 'application/json');
+    const system = payload.messages
+      .filter((m) => m.role === 'system')
+      .map((m) => m.content)
+      .join('\n\n');
+
+    try {
+      const response = await fetchWithRetry(`${API_BASE_URL}/messages`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model: payload.model,
+          system: system || undefined,
+          messages: payload.messages.filter((m) => m.role !== 'system'),
+          max_tokens: payload.max_tokens || DEFAULT_MAX_TOKENS,
+          temperature: payload.temperature,
+          stream: !!options.stream,
+        }),
+        signal: options.signal,
+      });
+
+      let replyText: string;
+      if (options.stream) {
+        replyText = await this.#readMessageStream(response, options);
+      } else {
+        const jsonResponse = (await response.json()) as MessagesResponse;
+        replyText = this.#getResponseText(jsonResponse);
+        if (jsonResponse.usage) {
+          options.onUsage?.({
+            promptTokens: jsonResponse.usage.input_tokens ?? 0,
+            completionTokens: jsonResponse.usage.output_tokens ?? 0,
+          });
+        }
+      }
+      replyText = replyText.trim();
+      if (!replyText) {
+        throw new Error('Anthropic returned an empty message.');
+      }
+      logger.info('Successfully received message from Anthropic.', {
+        model: payload.model,
+        replyLength: replyText.length,
+      });
+      return replyText;
+    } catch (error) {
+      if (options.signal?.aborted) {
+        logger.info('Chat completion was cancelled.', { model: payload.model });
+        throw error;
+      }
+      logger.error('Chat completion failed after all retries', error as Error, {
+        endpoint: '/messages',
+        provider: 'Anthropic',
+      });
+      throw error;
+    }
+  }
+
+  #getResponseText(response: MessagesResponse): string {
+    if (response.error) {
+      throw createAIError(
+        `Anthropic returned an error: ${response.error.message}`,
+        undefined,
+        response.error.type
+      );
+    }
+    return (response.content || [])
+      .filter((block) => block.type === 'text')
+      .map((block) => block.text || '')
+      .join('');
+  }
+
+  async #readMessageStream(
+    response: Response,
+    { onDelta, onUsage }: ChatCompletionOptions
+  ): Promise<string> {
+    let text = '';
+    const usage = { promptTokens: 0, completionTokens: 0 };
+    await readStreamLines(response, (line) => {
+      // `event:` lines repeat the type that is also part of the data
+      const data = getSseData(line);
+      if (data === null) return false;
+
+      const event = JSON.parse(data) as MessagesStreamEvent;
+      if (event.type === 'error') {
+        throw createAIError(
+          `Anthropic returned an error: ${event.error?.message}`,
+          undefined,
+          event.error?.type
+        );
+      }
+      if (event.type === 'message_start') {
+        usage.promptTokens = event.message?.usage?.input_tokens ?? 0;
+      }
+      if (event.type === 'message_delta' && event.usage) {
+        usage.completionTokens = event.usage.output_tokens ?? 0;
+      }
+      if (event.type === 'message_stop') {
+        onUsage?.(usage);
+        return true;
+      }
+      if (event.type === 'content_block_delta' && event.delta?.text) {
+        text += event.delta.text;
+        onDelta?.(text);
+      }
+      return false;
+    });
+    return text;
+  }
+}
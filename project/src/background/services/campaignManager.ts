@@ -0,0 +1,341 @@
+import { logger } from '../logger';
+import type {
+  Campaign,
+  CampaignItem,
+  CommentOrdering,
+  PipelineSteps,
+  RunMode,
+  RunState,
+  UIState,
+} from '../../shared/types';
+import { buildPostUrl, getPostUrnFromUrl } from '../../shared/linkedin';
+import { getPostState, loadPostState } from './stateManager';
+import {
+  getActivePostUrn,
+  getPipelineStatus,
+  hasActionStep,
+  resolvePipelineSteps,
+  setRunEndListener,
+  startPipeline,
+  waitForSessionRestore,
+} from './pipelineManager';
+import { navigateTabToPost } from './postTabs';
+
+const CAMPAIGN_STORAGE_KEY = 'campaign';
+
+const createEmptyCampaign = (): Campaign => ({
+  status: 'idle',
+  items: [],
+  runMode: 'auto',
+  updatedAt: new Date().toISOString(),
+});
+
+// Internal state variables
+let campaign: Campaign = createEmptyCampaign();
+
+// This will be set by the main service worker script to broadcast updates
+let broadcastState: (state: Partial<UIState>) => void = () => {
+  logger.warn('broadcastState not initialized in CampaignManager');
+};
+
+const persistCampaign = async (): Promise<void> => {
+  campaign.updatedAt = new Date().toISOString();
+  try {
+    await chrome.storage.local.set({ [CAMPAIGN_STORAGE_KEY]: campaign });
+  } catch (error) {
+    logger.error('Failed to persist campaign', error);
+  }
+  broadcastState({ campaign });
+};
+
+const refreshItemProgress = (item: CampaignItem) => {
+  const postState = getPostState(item.postUrn);
+  if (!postState) return;
+  item.total = postState.comments.length;
+  item.processed = postState.comments.filter(
+    (c) => c.replyStatus !== ''
+  ).length;
+};
+
+/**
+ * Opens the next queued post in the campaign tab and starts the pipeline on
+ * it. Posts that cannot be opened or started are marked as failed and skipped.
+ */
+const runNextCampaignPost = async (): Promise<void> => {
+  while (campaign.status === 'running') {
+    const item = campaign.items.find((i) => i.status === 'queued');
+    if (!item) {
+      campaign.status = 'done';
+      logger.info('Campaign finished. All queued posts were processed.', {
+        posts: campaign.items.length,
+      });
+      await persistCampaign();
+      return;
+    }
+
+    const tabId = campaign.tabId;
+    const context = { postUrn: item.postUrn, tabId };
+    item.status = 'running';
+    item.startedAt = new Date().toISOString();
+    item.error = undefined;
+    await persistCampaign();
+
+    try {
+      if (!tabId) throw new Error('Campaign tab is not set.');
+      const tab = await chrome.tabs.get(tabId);
+      if (getPostUrnFromUrl(tab.url) !== item.postUrn) {
+        logger.info('Opening next campaign post', context);
+        await navigateTabToPost(tabId, item.postUrl);
+      }
+    } catch (error) {
+      logger.error('Failed to open campaign post, pausing campaign', error, {
+        ...context,
+      });
+      item.status = 'failed';
+      item.error = (error as Error).message;
+      campaign.status = 'paused';
+      await persistCampaign();
+      return;
+    }
+
+    // The user may have stopped the campaign while the post was loading
+    if (campaign.status !== 'running') {
+      item.status = 'queued';
+      await persistCampaign();
+      return;
+    }
+
+    await startPipeline(
+      item.postUrn,
+      tabId,
+      campaign.maxComments,
+      campaign.runMode,
+      campaign.steps,
+      campaign.ordering
+    );
+    // A run started during quiet hours is parked until they end
+    const parked =
+      getPipelineStatus() === 'paused' && getActivePostUrn() === item.postUrn;
+    if (getPipelineStatus() === 'running' || parked) {
+      // The run end listener picks up from here
+      return;
+    }
+
+    logger.warn(
+      'Pipeline did not start for campaign post, skipping it',
+      context
+    );
+    item.status = 'failed';
+    item.error = 'Failed to start the pipeline for this post.';
+    item.finishedAt = new Date().toISOString();
+    await persistCampaign();
+  }
+};
+
+const handleRunEnded = (
+  postUrn: string,
+  status: RunState,
+  completed: boolean,
+  resumeAt?: string
+) => {
+  const item = campaign.items.find(
+    (i) => i.postUrn === postUrn && i.status === 'running'
+  );
+  if (!item || campaign.status !== 'running') return;
+
+  // Quota and quiet-hours pauses resume the post by themselves; keep waiting
+  if (status === 'paused' && resumeAt) {
+    logger.info('Campaign post paused automatically, waiting for resume', {
+      postUrn,
+      resumeAt,
+    });
+    refreshItemProgress(item);
+    persistCampaign();
+    return;
+  }
+
+  refreshItemProgress(item);
+  if (completed) {
+    item.status = 'done';
+    item.finishedAt = new Date().toISOString();
+  } else if (status === 'error') {
+    item.status = 'failed';
+    item.error = 'Pipeline ended with an error.';
+    item.finishedAt = new Date().toISOString();
+  } else {
+    // Paused or reset from outside; the post is picked up again on restart
+    logger.info('Pipeline stopped mid-post, pausing campaign', {
+      postUrn,
+      status,
+    });
+    item.status = 'queued';
+    campaign.status = 'paused';
+    persistCampaign();
+    return;
+  }
+
+  logger.info('Campaign post finished', {
+    postUrn,
+    status: item.status,
+    processed: item.processed,
+    total: item.total,
+  });
+  persistCampaign().then(() => runNextCampaignPost());
+};
+
+/**
+ * After a worker restart, checks whether the post the campaign was working on
+ * is still in progress: either its run was restored or it waits for an
+ * automatic resume.
+ */
+const isCampaignPostActive = async (): Promise<boolean> => {
+  const item = campaign.items.find((i) => i.status === 'running');
+  if (!item) return false;
+  await waitForSessionRestore();
+  if (getPipelineStatus() === 'running') {
+    return getActivePostUrn() === item.postUrn;
+  }
+  const postState =
+    getPostState(item.postUrn) ?? (await loadPostState(item.postUrn));
+  return postState?._meta.runState === 'paused' && !!postState._meta.resumeAt;
+};
+
+export const initCampaignManager = async (
+  broadcaster: (state: Partial<UIState>) => void
+): Promise<void> => {
+  broadcastState = broadcaster;
+  setRunEndListener(handleRunEnded);
+  try {
+    const result = await chrome.storage.local.get(CAMPAIGN_STORAGE_KEY);
+    const stored = result?.[CAMPAIGN_STORAGE_KEY] as Campaign | undefined;
+    if (stored) {
+      campaign = stored;
+      if (campaign.status === 'running' && !(await isCampaignPostActive())) {
+        // The worker restarted and the current post could not be picked up
+        campaign.status = 'paused';
+        campaign.items.forEach((item) => {
+          if (item.status === 'running') item.status = 'queued';
+        });
+        await chrome.storage.local.set({ [CAMPAIGN_STORAGE_KEY]: campaign });
+      }
+    }
+  } catch (error) {
+    logger.error('Failed to load campaign from storage', error);
+  }
+  logger.info('CampaignManager initialized.', {
+    status: campaign.status,
+    posts: campaign.items.length,
+  });
+};
+
+export const getCampaign = (): Campaign => {
+  return campaign;
+};
+
+/**
+ * Adds posts to the campaign queue. Entries may be post URLs or raw URNs;
+ * duplicates and entries without a recognisable post URN are ignored.
+ * @returns The number of posts added and the entries that were rejected.
+ */
+export const addCampaignPosts = async (
+  entries: string[]
+): Promise<{ added: number; invalid: string[] }> => {
+  const invalid: string[] = [];
+  let added = 0;
+  for (const entry of entries.map((e) => e.trim()).filter(Boolean)) {
+    const postUrn = getPostUrnFromUrl(entry);
+    if (!postUrn) {
+      invalid.push(entry);
+      continue;
+    }
+    if (campaign.items.some((i) => i.postUrn === postUrn)) continue;
+    campaign.items.push({
+      postUrn,
+      postUrl: buildPostUrl(postUrn),
+      status: 'queued',
+      addedAt: new Date().toISOString(),
+    });
+    added++;
+  }
+  if (campaign.status === 'done' && added > 0) campaign.status = 'idle';
+  logger.info('Posts added to campaign', { added, invalid: invalid.length });
+  await persistCampaign();
+  return { added, invalid };
+};
+
+export const removeCampaignPost = async (postUrn: string): Promise<void> => {
+  const item = campaign.items.find((i) => i.postUrn === postUrn);
+  if (item?.status === 'running') {
+    throw new Error(
+      'Cannot remove the post that is currently being processed.'
+    );
+  }
+  campaign.items = campaign.items.filter((i) => i.postUrn !== postUrn);
+  await persistCampaign();
+};
+
+export const clearCampaign = async (): Promise<void> => {
+  if (campaign.status === 'running') {
+    throw new Error('Stop the campaign before clearing it.');
+  }
+  campaign = createEmptyCampaign();
+  await persistCampaign();
+};
+
+/**
+ * Starts (or continues) working through the queued posts in the given tab.
+ */
+export const startCampaign = async (
+  tabId: number,
+  options: {
+    runMode?: RunMode;
+    maxComments?: number;
+    steps?: Partial<PipelineSteps>;
+    ordering?: CommentOrdering;
+  } = {}
+): Promise<void> => {
+  if (campaign.status === 'running') return;
+  if (getPipelineStatus() !== 'idle') {
+    throw new Error('Stop the current pipeline before starting a campaign.');
+  }
+  if (!campaign.items.some((i) => i.status === 'queued')) {
+    throw new Error('The campaign has no queued posts.');
+  }
+  if (options.steps && !hasActionStep(options.steps)) {
+    throw new Error(
+      'Select at least one of like, reply, DM or connection request.'
+    );
+  }
+
+  campaign.status = 'running';
+  campaign.tabId = tabId;
+  campaign.runMode = options.runMode ?? campaign.runMode;
+  campaign.maxComments = options.maxComments ?? campaign.maxComments;
+  if (options.steps) campaign.steps = resolvePipelineSteps(options.steps);
+  campaign.ordering = options.ordering ?? campaign.ordering;
+  logger.info('Starting campaign', {
+    tabId,
+    runMode: campaign.runMode,
+    steps: campaign.steps,
+    ordering: campaign.ordering,
+    queued: campaign.items.filter((i) => i.status === 'queued').length,
+  });
+  await persistCampaign();
+  runNextCampaignPost().catch((error) => {
+    logger.error('Campaign run failed', error);
+  });
+};
+
+/**
+ * Pauses the campaign. The caller is responsible for stopping the pipeline run
+ * of the current post; it is re-queued and continues when the campaign restarts.
+ */
+export const stopCampaign = async (): Promise<void> => {
+  if (campaign.status !== 'running') return;
+  campaign.status = 'paused';
+  campaign.items.forEach((item) => {
+    if (item.status === 'running') item.status = 'queued';
+  });
+  logger.info('Campaign paused.');
+  await persistCampaign();
+};
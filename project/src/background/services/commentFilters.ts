@@ -0,0 +1,171 @@
+import { logger } from '../logger';
+import type {
+  Comment,
+  CommentFilters,
+  CommentFilterSkip,
+} from '../../shared/types';
+import { parseRelativeTime } from '../../shared/linkedin';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const EMOJI_PATTERN = /\p{Extended_Pictographic}/u;
+// Emojis with their modifiers and joiners, plus spacing and punctuation
+const EMOJI_ONLY_PATTERN =
+  /^(?:\p{Extended_Pictographic}|\p{Emoji_Modifier}|\u200d|\ufe0f|\s|\p{P})+$/u;
+
+const escapeRegExp = (text: string): string =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const containsWord = (text: string, word: string): boolean =>
+  new RegExp(
+    `(^|[^\\p{L}\\p{N}])${escapeRegExp(word.trim())}(?=$|[^\\p{L}\\p{N}])`,
+    'iu'
+  ).test(text);
+
+const getWords = (words: string[]): string[] =>
+  words.map((word) => word.trim()).filter(Boolean);
+
+// e.g. `en-US` and `EN` both become `en`
+const toBaseLanguage = (code: string): string =>
+  code.trim().toLowerCase().split(/[-_]/)[0];
+
+/**
+ * The age of a comment, from the age LinkedIn showed when it was captured.
+ * @returns The age in milliseconds, or null if the shown age is not known.
+ */
+export const getCommentAgeMs = (
+  comment: Comment,
+  now: number = Date.now()
+): number | null => {
+  const displayedAge = parseRelativeTime(comment.timestamp);
+  const capturedAt = Date.parse(comment.pipeline.queuedAt);
+  if (displayedAge === null || Number.isNaN(capturedAt)) return null;
+  return displayedAge + now - capturedAt;
+};
+
+/**
+ * Detects the language of a comment with the browser's built-in detector.
+ * @returns The ISO 639-1 code, or null when the detector is not confident.
+ */
+const detectLanguage = async (text: string): Promise<string | null> => {
+  try {
+    const result = await chrome.i18n.detectLanguage(text);
+    const [top] = result.languages;
+    if (!result.isReliable || !top || top.language === 'und') return null;
+    return toBaseLanguage(top.language);
+  } catch (error) {
+    logger.warn('Language detection failed', {
+      error: (error as Error).message,
+    });
+    return null;
+  }
+};
+
+/**
+ * The 1st-degree filter. It uses the degree shown on the comment, or the
+ * connection check when the degree was not shown.
+ */
+export const checkConnectionFilter = (
+  comment: Comment,
+  filters: CommentFilters | undefined
+): CommentFilterSkip | null => {
+  if (!filters?.enabled || !filters.firstDegreeOnly) return null;
+  const outsideNetwork = comment.connectionDegree
+    ? comment.connectionDegree !== '1st'
+    : comment.connected === false;
+  if (!outsideNetwork) return null;
+  return {
+    rule: 'firstDegree',
+    reason: comment.connectionDegree
+      ? `Commenter is a ${comment.connectionDegree} degree connection`
+      : 'Commenter is not a connection',
+  };
+};
+
+/**
+ * Checks a comment against the filters. The checks run from the cheapest to
+ * the language detection, and the first failing one is reported.
+ * @returns The filter that skips the comment, or null when it passes.
+ */
+export const evaluateCommentFilters = async (
+  comment: Comment,
+  filters: CommentFilters,
+  now: number = Date.now()
+): Promise<CommentFilterSkip | null> => {
+  if (!filters.enabled) return null;
+  const text = comment.text.trim();
+
+  if (
+    filters.skipEmojiOnly &&
+    EMOJI_PATTERN.test(text) &&
+    EMOJI_ONLY_PATTERN.test(text)
+  ) {
+    return { rule: 'emojiOnly', reason: 'Comment is only emojis' };
+  }
+  if (filters.minLength > 0 && text.length < filters.minLength) {
+    return {
+      rule: 'minLength',
+      reason: `Too short (${text.length} characters, min ${filters.minLength})`,
+    };
+  }
+  if (filters.maxLength > 0 && text.length > filters.maxLength) {
+    return {
+      rule: 'maxLength',
+      reason: `Too long (${text.length} characters, max ${filters.maxLength})`,
+    };
+  }
+
+  const mustContain = getWords(filters.mustContain);
+  if (
+    mustContain.length > 0 &&
+    !mustContain.some((word) => containsWord(text, word))
+  ) {
+    return {
+      rule: 'mustContain',
+      reason: `Contains none of: ${mustContain.map((w) => `"${w}"`).join(', ')}`,
+    };
+  }
+  const forbidden = getWords(filters.mustNotContain).filter((word) =>
+    containsWord(text, word)
+  );
+  if (forbidden.length > 0) {
+    return {
+      rule: 'mustNotContain',
+      reason: `Contains ${forbidden.map((w) => `"${w}"`).join(', ')}`,
+    };
+  }
+
+  if (filters.media === 'with' && !comment.hasMedia) {
+    return { rule: 'media', reason: 'Comment has no image or video' };
+  }
+  if (filters.media === 'without' && comment.hasMedia) {
+    return { rule: 'media', reason: 'Comment has an image or video' };
+  }
+
+  const ageMs = getCommentAgeMs(comment, now);
+  if (
+    filters.maxAgeHours > 0 &&
+    ageMs !== null &&
+    ageMs / HOUR_MS > filters.maxAgeHours
+  ) {
+    return {
+      rule: 'maxAge',
+      reason: `Older than ${filters.maxAgeHours} hours`,
+    };
+  }
+
+  const connectionSkip = checkConnectionFilter(comment, filters);
+  if (connectionSkip) return connectionSkip;
+
+  const languages = getWords(filters.languages).map(toBaseLanguage);
+  if (languages.length > 0) {
+    const language = await detectLanguage(text);
+    if (language && !languages.includes(language)) {
+      return {
+        rule: 'language',
+        reason: `Written in "${language}", not ${languages.map((l) => `"${l}"`).join(', ')}`,
+      };
+    }
+  }
+  return null;
+};
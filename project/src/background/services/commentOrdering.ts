@@ -0,0 +1,132 @@
+import type {
+  ChatMessage,
+  Comment,
+  CommentOrdering,
+  ConnectionDegree,
+} from '../../shared/types';
+import { getCommentAgeMs } from './commentFilters';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Comments the AI scores together in one completion
+export const RELEVANCE_BATCH_SIZE = 20;
+
+const DEGREE_SCORES: Record<ConnectionDegree, number> = {
+  '1st': 3,
+  '2nd': 2,
+  '3rd+': 1,
+};
+
+// Strategies whose lowest score goes first; every other one ranks high first
+const ASCENDING_ORDERINGS: CommentOrdering[] = ['newest'];
+
+const countWords = (text: string): number =>
+  text.split(/\s+/).filter((word) => /[\p{L}\p{N}]/u.test(word)).length;
+
+const getDegreeScore = (comment: Comment): number => {
+  if (comment.connectionDegree) return DEGREE_SCORES[comment.connectionDegree];
+  // The connection check only tells 1st-degree connections from the rest
+  if (comment.connected === true) return DEGREE_SCORES['1st'];
+  return comment.connected === false ? DEGREE_SCORES['3rd+'] : 0;
+};
+
+/**
+ * The value a comment is ranked by under a strategy: its age in hours, its
+ * word count, its reactions, its degree score or its AI relevance.
+ * @returns The score, or undefined when the comment cannot be scored.
+ */
+export const scoreComment = (
+  comment: Comment,
+  ordering: CommentOrdering,
+  now: number = Date.now()
+): number | undefined => {
+  switch (ordering) {
+    case 'newest':
+    case 'oldest': {
+      const ageMs = getCommentAgeMs(comment, now);
+      return ageMs === null ? undefined : Math.round(ageMs / HOUR_MS);
+    }
+    case 'longest':
+      return countWords(comment.text);
+    case 'reactions':
+      return comment.reactionCount ?? 0;
+    case 'connections':
+      return getDegreeScore(comment);
+    case 'ai-relevance':
+      return comment.relevance;
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Ranks comments under a strategy. Comments without a score go after the
+ * scored ones, and ties keep the order the comments were captured in.
+ * @returns The comments in ranked order with their priority set.
+ */
+export const rankComments = (
+  comments: Comment[],
+  ordering: CommentOrdering,
+  now: number = Date.now()
+): Comment[] => {
+  const direction = ASCENDING_ORDERINGS.includes(ordering) ? 1 : -1;
+  const scored = comments.map((comment) => ({
+    comment,
+    score: scoreComment(comment, ordering, now),
+  }));
+  // Array.prototype.sort is stable, so ties stay in capture order
+  scored.sort((a, b) => {
+    if (a.score === undefined || b.score === undefined) {
+      return Number(a.score === undefined) - Number(b.score === undefined);
+    }
+    return (a.score - b.score) * direction;
+  });
+  return scored.map(({ comment, score }, index) => {
+    comment.priority = { rank: index + 1, score };
+    return comment;
+  });
+};
+
+/**
+ * Builds the prompt asking the AI to score a batch of comments by how much a
+ * reply from the post author is worth.
+ */
+export const buildRelevancePrompt = (
+  postText: string,
+  comments: Comment[]
+): ChatMessage[] => {
+  const list = comments
+    .map(
+      (comment, index) => `${index + 1}. ${comment.text.replace(/\s+/g, ' ')}`
+    )
+    .join('\n');
+  return [
+    {
+      role: 'system',
+      content:
+        'You help the author of a LinkedIn post decide which comments deserve a reply first.',
+    },
+    {
+      role: 'user',
+      content: `Post: '${postText}'\n\nComments:\n${list}\n\nScore every comment from 0 to 100 by how relevant and substantive it is: questions and thoughtful remarks score high, generic praise and off-topic comments low. Answer with ONLY one line per comment in the form "<number>: <score>".`,
+    },
+  ];
+};
+
+/**
+ * Reads the scores from an answer to the relevance prompt.
+ * @returns One score per comment of the batch; undefined where none was given.
+ */
+export const parseRelevanceScores = (
+  answer: string,
+  count: number
+): (number | undefined)[] => {
+  const scores: (number | undefined)[] = new Array(count).fill(undefined);
+  for (const match of answer.matchAll(/^\D*(\d+)\s*[:.)-]\s*(\d+)/gm)) {
+    const index = Number(match[1]) - 1;
+    if (index >= 0 && index < count) {
+      scores[index] = Math.min(100, Number(match[2]));
+    }
+  }
+  return scores;
+};
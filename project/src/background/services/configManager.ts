@@ -1,4 +1,13 @@
 import { AIConfig } from '../../shared/types';
+import {
+  DEFAULT_DM_SYSTEM_PROMPT,
+  DEFAULT_DM_TEMPLATE,
+  DEFAULT_INVITE_SYSTEM_PROMPT,
+  DEFAULT_INVITE_TEMPLATE,
+  DEFAULT_REPLY_SYSTEM_PROMPT,
+  DEFAULT_REPLY_TEMPLATE,
+  validateConfigTemplates,
+} from '../../shared/promptTemplates';
 
 // 1. Define a constant for the storage key to avoid magic strings.
 const AI_CONFIG_KEY = 'aiConfig';
@@ -10,6 +19,7 @@ const defaultAIConfig: AIConfig = {
   provider: 'openrouter',
   apiKey: '',
   model: 'anthropic/claude-3.5-sonnet',
+  fallbackModels: [],
   temperature: 0.7,
   top_p: 1,
   max_tokens: 256,
@@ -19,16 +29,29 @@ const defaultAIConfig: AIConfig = {
       'Keep it warm, brief, specific; acknowledge their point; avoid salesy tone; 0–1 emoji.',
     nonConnectedPrompt:
       "Thanks for your comment! I'd love to connect first so we can continue the conversation.",
+    systemPrompt: DEFAULT_REPLY_SYSTEM_PROMPT,
+    template: DEFAULT_REPLY_TEMPLATE,
   },
   dm: {
     customPrompt:
       'Thank them, reference comment, offer short helpful resource; soft opt-in; no pressure.',
+    systemPrompt: DEFAULT_DM_SYSTEM_PROMPT,
+    template: DEFAULT_DM_TEMPLATE,
+  },
+  invite: {
+    note: true,
+    customPrompt:
+      'Thank them for the comment and say why you would like to connect; friendly, no pitch.',
+    systemPrompt: DEFAULT_INVITE_SYSTEM_PROMPT,
+    template: DEFAULT_INVITE_TEMPLATE,
   },
   manual: {
     replyText: "Thank you for your message. I'll respond as soon as possible.",
     nonConnectedText:
       'Thank you for reaching out. I will review your message and respond soon.',
     dmText: 'Thanks for the direct message! I will get back to you shortly.',
+    inviteNote:
+      'Hi {{commenter.firstName}}, thanks for your comment on my post! I would love to connect.',
   },
   staticTexts: {
     replyText: "Thank you for your message. I'll respond as soon as possible.",
@@ -44,6 +67,41 @@ const defaultAIConfig: AIConfig = {
     onlyTextOutput: true,
     minContext: 8000,
   },
+  quotas: {
+    like: { hour: 30, day: 150 },
+    reply: { hour: 20, day: 100 },
+    dm: { hour: 10, day: 40, week: 150 },
+    profileVisit: { hour: 30, day: 150 },
+    invite: { day: 20, week: 100 },
+  },
+  maxConsecutiveFailures: 5,
+  costBudgetUsd: 0,
+  contactCooldowns: { dm: 30, invite: 30 },
+  replyGuardrails: {
+    enabled: true,
+    minLength: 0,
+    maxLength: 600,
+    bannedPhrases: [],
+    blockLinks: true,
+    blockEmails: true,
+    blockPhoneNumbers: true,
+    maxEmojis: 1,
+    maxSimilarity: 0.85,
+    maxRegenerations: 2,
+    onFailure: 'review',
+  },
+  commentFilters: {
+    enabled: false,
+    minLength: 0,
+    maxLength: 0,
+    mustContain: [],
+    mustNotContain: [],
+    languages: [],
+    maxAgeHours: 0,
+    media: 'any',
+    firstDegreeOnly: false,
+    skipEmojiOnly: false,
+  },
 };
 
 // 3. Declare a private, module-level variable to hold the loaded config.
@@ -67,12 +125,18 @@ export const getConfig = (): AIConfig => {
  * Updates the AI configuration with new values and persists it to chrome.storage.sync.
  * This performs a deep merge for nested configuration objects.
  * @param newConfig A partial AIConfig object with the fields to update.
+ * @throws If a prompt or template uses an unknown `{{variable}}`.
  */
 export const updateConfig = async (
   newConfig: Partial<AIConfig>
 ): Promise<void> => {
   const existingConfig = getConfig(); // Ensures config is initialized
 
+  const templateProblems = validateConfigTemplates(newConfig);
+  if (templateProblems.length > 0) {
+    throw new Error(templateProblems.join('\n'));
+  }
+
   // Perform a deep merge for nested objects to handle partial updates gracefully.
   const mergedConfig: AIConfig = {
     ...existingConfig,
@@ -85,6 +149,10 @@ export const updateConfig = async (
       ...existingConfig.dm,
       ...(newConfig.dm || {}),
     },
+    invite: {
+      ...existingConfig.invite,
+      ...(newConfig.invite || {}),
+    },
     manual: {
       ...existingConfig.manual,
       ...(newConfig.manual || {}),
@@ -97,6 +165,30 @@ export const updateConfig = async (
       ...existingConfig.attribution,
       ...(newConfig.attribution || {}),
     },
+    quotas: {
+      like: { ...existingConfig.quotas?.like, ...newConfig.quotas?.like },
+      reply: { ...existingConfig.quotas?.reply, ...newConfig.quotas?.reply },
+      dm: { ...existingConfig.quotas?.dm, ...newConfig.quotas?.dm },
+      profileVisit: {
+        ...existingConfig.quotas?.profileVisit,
+        ...newConfig.quotas?.profileVisit,
+      },
+      invite: { ...existingConfig.quotas?.invite, ...newConfig.quotas?.invite },
+    },
+    contactCooldowns: {
+      ...existingConfig.contactCooldowns,
+      ...newConfig.contactCooldowns,
+    },
+    replyGuardrails: {
+      ...defaultAIConfig.replyGuardrails!,
+      ...existingConfig.replyGuardrails,
+      ...newConfig.replyGuardrails,
+    },
+    commentFilters: {
+      ...defaultAIConfig.commentFilters!,
+      ...existingConfig.commentFilters,
+      ...newConfig.commentFilters,
+    },
     modelFilters: {
       onlyTextOutput:
         newConfig.modelFilters?.onlyTextOutput ??
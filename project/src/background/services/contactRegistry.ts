@@ -0,0 +1,190 @@
+import { logger } from '../logger';
+import type {
+  Comment,
+  Contact,
+  ContactAction,
+  ContactInteraction,
+  PostState,
+} from '../../shared/types';
+import { normalizeProfileUrl } from '../../shared/linkedin';
+import { getConfig } from './configManager';
+
+const CONTACT_REGISTRY_KEY = 'contactRegistry';
+
+// Older interactions are dropped so a busy contact cannot grow without bound
+const MAX_INTERACTIONS_PER_CONTACT = 200;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Internal state variables: contacts by normalised profile URL
+let contacts: Record<string, Contact> = {};
+
+const persistContacts = async (): Promise<void> => {
+  try {
+    await chrome.storage.local.set({ [CONTACT_REGISTRY_KEY]: contacts });
+  } catch (error) {
+    logger.error('Failed to persist contact registry', error);
+  }
+};
+
+export const initContactRegistry = async (): Promise<void> => {
+  try {
+    const result = await chrome.storage.local.get(CONTACT_REGISTRY_KEY);
+    const stored = result?.[CONTACT_REGISTRY_KEY] as
+      | Record<string, Contact>
+      | undefined;
+    if (stored && typeof stored === 'object') contacts = stored;
+  } catch (error) {
+    logger.error('Failed to load contact registry from storage', error);
+  }
+  logger.info('ContactRegistry initialized.', {
+    contacts: Object.keys(contacts).length,
+  });
+};
+
+export const getContact = (profileUrl: string): Contact | undefined =>
+  contacts[normalizeProfileUrl(profileUrl)];
+
+/**
+ * @returns Every contact, most recently engaged first.
+ */
+export const listContacts = (): Contact[] =>
+  Object.values(contacts).sort((a, b) =>
+    b.lastSeenAt.localeCompare(a.lastSeenAt)
+  );
+
+/**
+ * Changes the tags or notes of a contact.
+ * @returns The updated contact.
+ * @throws If there is no contact for the profile.
+ */
+export const updateContact = async (
+  profileUrl: string,
+  changes: Pick<Partial<Contact>, 'tags' | 'notes'>
+): Promise<Contact> => {
+  const key = normalizeProfileUrl(profileUrl);
+  const contact = contacts[key];
+  if (!contact) throw new Error(`No contact found for ${profileUrl}`);
+  contacts[key] = {
+    ...contact,
+    ...(changes.tags && { tags: Array.from(new Set(changes.tags)) }),
+    ...(changes.notes !== undefined && { notes: changes.notes }),
+  };
+  await persistContacts();
+  return contacts[key];
+};
+
+// Timestamps the pipeline sets only when an action was really performed
+const POST_HISTORY_TIMESTAMPS: [ContactAction, keyof Comment['pipeline']][] = [
+  ['like', 'likedAt'],
+  ['reply', 'repliedAt'],
+  ['dm', 'dmAt'],
+  ['invite', 'invitedAt'],
+];
+
+/**
+ * Adds the actions recorded in post states to the registry, so people engaged
+ * before the registry existed show up too. Actions already in the registry
+ * are not added again.
+ */
+export const importPostHistory = async (
+  postStates: PostState[]
+): Promise<void> => {
+  let added = 0;
+  postStates.forEach((postState) => {
+    postState.comments.forEach((comment) => {
+      if (!comment.ownerProfileUrl) return;
+      POST_HISTORY_TIMESTAMPS.forEach(([action, timestampKey]) => {
+        const at = comment.pipeline[timestampKey];
+        if (typeof at !== 'string' || !at) return;
+        const profileUrl = normalizeProfileUrl(comment.ownerProfileUrl);
+        const existing = contacts[profileUrl];
+        if (
+          existing?.interactions.some(
+            (i) => i.action === action && i.commentId === comment.commentId
+          )
+        ) {
+          return;
+        }
+        const interactions = [
+          ...(existing?.interactions ?? []),
+          {
+            action,
+            at,
+            postUrn: postState._meta.postId,
+            commentId: comment.commentId,
+          },
+        ].sort((a, b) => a.at.localeCompare(b.at));
+        contacts[profileUrl] = {
+          ...existing,
+          profileUrl,
+          name: existing?.name || comment.ownerName || comment.profile?.name,
+          headline: existing?.headline || comment.profile?.headline,
+          profile: existing?.profile ?? comment.profile,
+          firstSeenAt: interactions[0].at,
+          lastSeenAt: interactions[interactions.length - 1].at,
+          interactions: interactions.slice(-MAX_INTERACTIONS_PER_CONTACT),
+        };
+        added++;
+      });
+    });
+  });
+  if (added === 0) return;
+  logger.info('Contact history imported from post states', { added });
+  await persistContacts();
+};
+
+/**
+ * Records an action the pipeline performed for a commenter. Dry runs publish
+ * nothing and must not be recorded.
+ */
+export const recordContactAction = async (
+  comment: Comment,
+  action: ContactAction,
+  postUrn: string
+): Promise<void> => {
+  const profileUrl = normalizeProfileUrl(comment.ownerProfileUrl);
+  const now = new Date().toISOString();
+  const existing = contacts[profileUrl];
+  const interaction: ContactInteraction = {
+    action,
+    at: now,
+    postUrn,
+    commentId: comment.commentId,
+  };
+  contacts[profileUrl] = {
+    ...existing,
+    profileUrl,
+    name: comment.ownerName || comment.profile?.name || existing?.name,
+    headline: comment.profile?.headline || existing?.headline,
+    profile: comment.profile ?? existing?.profile,
+    firstSeenAt: existing?.firstSeenAt ?? now,
+    lastSeenAt: now,
+    interactions: [...(existing?.interactions ?? []), interaction].slice(
+      -MAX_INTERACTIONS_PER_CONTACT
+    ),
+  };
+  await persistContacts();
+};
+
+/**
+ * Looks for an earlier action that still holds back a new one under the
+ * configured cool-down for the action.
+ * @returns The most recent such interaction, or null if the action is allowed.
+ */
+export const findContactCooldown = (
+  profileUrl: string,
+  action: ContactAction,
+  now: number = Date.now()
+): ContactInteraction | null => {
+  const days = getConfig().contactCooldowns?.[action] ?? 0;
+  if (days <= 0) return null;
+  const interactions = getContact(profileUrl)?.interactions ?? [];
+  const since = now - days * DAY_MS;
+  for (let i = interactions.length - 1; i >= 0; i--) {
+    const interaction = interactions[i];
+    if (interaction.action !== action) continue;
+    return Date.parse(interaction.at) > since ? interaction : null;
+  }
+  return null;
+};
@@ -0,0 +1,83 @@
+import { OpenRouterModel } from '../../shared/types';
+import { logger } from '../logger';
+import type {
+  AIProvider,
+  ChatCompletionOptions,
+  ChatCompletionRequest,
+} from './aiProvider';
+
+const MOCK_MODEL: OpenRouterModel = {
+  id: 'mock/canned',
+  name: 'Mock (offline, canned replies)',
+  context_length: 0,
+  pricing: { prompt: 0, completion: 0 },
+};
+
+const CANNED_REPLIES = [
+  'Thanks for sharing this, really appreciate you taking the time to comment!',
+  'Great point, that is exactly the kind of perspective I was hoping to hear.',
+  'Thank you! Glad this resonated with you.',
+  'Appreciate it! Curious to hear how this plays out on your side.',
+];
+
+// A small stable string hash, so the same prompt always gets the same reply
+const hashText = (text: string): number => {
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) {
+    hash = (hash * 31 + text.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+};
+
+/**
+ * A provider that never leaves the browser. It answers every prompt with one
+ * of a few canned replies picked from a hash of the prompt, so runs are
+ * repeatable in offline tests.
+ */
+export class MockAIClient implements AIProvider {
+  public async getModels(): Promise<OpenRouterModel[]> {
+    return [MOCK_MODEL];
+  }
+
+  public async createChatCompletion(
+    payload: ChatCompletionRequest,
+    options: ChatCompletionOptions = {}
+  ): Promise<string> {
+    const prompt = payload.messages.map((m) => m.content).join('\n');
+    const cannedReply =
+      CANNED_REPLIES[hashText(prompt) % CANNED_REPLIES.length];
+    const replyText = payload.response_format
+      ? JSON.stringify({
+          reply: cannedReply,
+          dm: cannedReply,
+          reaction: 'like',
+          skip: false,
+          skipReason: '',
+          sentiment: 'positive',
+          language: 'en',
+        })
+      : cannedReply;
+    logger.info('Mock provider answered chat completion', {
+      model: payload.model,
+      replyLength: replyText.length,
+    });
+
+    if (options.stream) {
+      // Emit word by word so the typing preview can be exercised offline
+      const words = replyText.split(' ');
+      for (let i = 1; i <= words.length; i++) {
+        if (options.signal?.aborted) {
+          throw new DOMException('The generation was cancelled.', 'AbortError');
+        }
+        options.onDelta?.(words.slice(0, i).join(' '));
+        await new Promise((resolve) => setTimeout(resolve, 0));
+      }
+    }
+    // A rough estimate at four characters per token, so usage shows up offline
+    options.onUsage?.({
+      promptTokens: Math.ceil(prompt.length / 4),
+      completionTokens: Math.ceil(replyText.length / 4),
+    });
+    return replyText;
+  }
+}
@@ -0,0 +1,155 @@
+import { OpenRouterModel } from '../../shared/types';
+import { logger } from '../logger';
+import { fetchWithRetry, readStreamLines } from './aiHttp';
+import type {
+  AIProvider,
+  ChatCompletionOptions,
+  ChatCompletionRequest,
+} from './aiProvider';
+
+export const DEFAULT_OLLAMA_URL = 'http://localhost:11434';
+
+interface ChatResponse {
+  message?: { content?: string };
+  done?: boolean;
+  // Token counts, sent with the final message
+  prompt_eval_count?: number;
+  eval_count?: number;
+  error?: string;
+}
+
+const reportUsage = (
+  response: ChatResponse,
+  onUsage?: ChatCompletionOptions['onUsage']
+) => {
+  if (!response.done) return;
+  onUsage?.({
+    promptTokens: response.prompt_eval_count ?? 0,
+    completionTokens: response.eval_count ?? 0,
+  });
+};
+
+/**
+ * A client for a local Ollama server. Comment text never leaves the machine.
+ * Ollama must allow the extension origin, e.g. `OLLAMA_ORIGINS=chrome-extension://*`.
+ */
+export class OllamaClient implements AIProvider {
+  #baseUrl: string;
+
+  /**
+   * Creates an instance of the OllamaClient.
+   * @param baseUrl The server root, `http://localhost:11434` by default.
+   */
+  constructor(baseUrl: string = DEFAULT_OLLAMA_URL) {
+    this.#baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  /**
+   * Lists the models pulled on the Ollama server.
+   * @returns A promise that resolves to the list of models.
+   */
+  public async getModels(): Promise<OpenRouterModel[]> {
+    logger.info('Fetching models from Ollama.', { baseUrl: this.#baseUrl });
+    try {
+      const response = await fetchWithRetry(`${this.#baseUrl}/api/tags`, {
+        method: 'GET',
+      });
+      const jsonResponse = (await response.json()) as {
+        models?: { name: string }[];
+      };
+      logger.info('Successfully fetched models from Ollama.');
+      return (jsonResponse.models || []).map((model) => ({
+        id: model.name,
+        name: model.name,
+        context_length: 0,
+        // Local models cost nothing per token
+        pricing: { prompt: 0, completion: 0 },
+      }));
+    } catch (error) {
+      logger.error('Failed to fetch models after all retries', error, {
+        endpoint: '/api/tags',
+        provider: 'Ollama',
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Creates a chat completion using the specified model and messages.
+   * @param payload The request payload containing the model, messages, and other parameters.
+   * @param options Streaming and cancellation options.
+   * @returns A promise that resolves to the AI-generated reply string.
+   */
+  public async createChatCompletion(
+    payload: ChatCompletionRequest,
+    options: ChatCompletionOptions = {}
+  ): Promise<string> {
+    logger.info('Requesting chat completion from Ollama', {
+      model: payload.model,
+      stream: !!options.stream,
+    });
+
+    try {
+      const response = await fetchWithRetry(`${this.#baseUrl}/api/chat`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          model: payload.model,
+          messages: payload.messages,
+          stream: !!options.stream,
+          format: payload.response_format ? 'json' : undefined,
+          options: {
+            temperature: payload.temperature,
+            top_p: payload.top_p,
+            num_predict: payload.max_tokens,
+          },
+        }),
+        signal: options.signal,
+      });
+
+      let replyText = '';
+      if (options.stream) {
+        // Ollama streams newline-delimited JSON objects
+        await readStreamLines(response, (line) => {
+          const chunk = JSON.parse(line) as ChatResponse;
+          if (chunk.error) {
+            throw new Error(`Ollama returned an error: ${chunk.error}`);
+          }
+          if (chunk.message?.content) {
+            replyText += chunk.message.content;
+            options.onDelta?.(replyText);
+          }
+          reportUsage(chunk, options.onUsage);
+          return !!chunk.done;
+        });
+      } else {
+        const jsonResponse = (await response.json()) as ChatResponse;
+        if (jsonResponse.error) {
+          throw new Error(`Ollama returned an error: ${jsonResponse.error}`);
+        }
+        replyText = jsonResponse.message?.content || '';
+        reportUsage(jsonResponse, options.onUsage);
+      }
+
+      replyText = replyText.trim();
+      if (!replyText) {
+        throw new Error('Ollama returned an empty reply.');
+      }
+      logger.info('Successfully received chat completion from Ollama.', {
+        model: payload.model,
+        replyLength: replyText.length,
+      });
+      return replyText;
+    } catch (error) {
+      if (options.signal?.aborted) {
+        logger.info('Chat completion was cancelled.', { model: payload.model });
+        throw error;
+      }
+      logger.error('Chat completion failed after all retries', error as Error, {
+        endpoint: '/api/chat',
+        provider: 'Ollama',
+      });
+      throw error;
+    }
+  }
+}
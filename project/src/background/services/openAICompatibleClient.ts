@@ -0,0 +1,279 @@
+import { OpenRouterModel, TokenUsage } from '../../shared/types';
+import { logger } from '../logger';
+import {
+  AIContentFilterError,
+  AIRequestError,
+  createAIError,
+} from './aiErrors';
+import { fetchWithRetry, getSseData, readStreamLines } from './aiHttp';
+import type {
+  AIProvider,
+  ChatCompletionOptions,
+  ChatCompletionRequest,
+} from './aiProvider';
+
+interface CompletionUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+// OpenRouter reports the HTTP status as the code, OpenAI a string
+interface ApiError {
+  message: string;
+  code?: number | string;
+}
+
+interface ChatCompletionResponse {
+  choices: {
+    message: {
+      content: string;
+    };
+    finish_reason?: string | null;
+  }[];
+  usage?: CompletionUsage;
+}
+
+interface ChatCompletionStreamChunk {
+  choices?: {
+    delta?: {
+      content?: string;
+    };
+    finish_reason?: string | null;
+  }[];
+  usage?: CompletionUsage;
+  error?: ApiError;
+}
+
+interface ModelListResponse {
+  data: {
+    id: string;
+    name?: string;
+    context_length?: number;
+    // Listed by OpenRouter as decimal strings in USD per token
+    pricing?: { prompt?: string; completion?: string };
+  }[];
+}
+
+// Errors can also arrive with a 200 response or in the middle of a stream
+const toAIError = (label: string, error: ApiError): AIRequestError =>
+  createAIError(
+    `${label} returned an error: ${error.message}`,
+    typeof error.code === 'number' ? error.code : undefined,
+    typeof error.code === 'string' ? error.code : undefined
+  );
+
+const toTokenUsage = (usage: CompletionUsage): TokenUsage => ({
+  promptTokens: usage.prompt_tokens ?? 0,
+  completionTokens: usage.completion_tokens ?? 0,
+});
+
+/**
+ * A client for any server that implements the OpenAI chat completions API,
+ * e.g. OpenAI itself, LM Studio, vLLM or a company gateway.
+ */
+export class OpenAICompatibleClient implements AIProvider {
+  #baseUrl: string;
+  #label: string;
+  #headers: Headers;
+
+  /**
+   * Creates an instance of the OpenAICompatibleClient.
+   * @param baseUrl The API root, e.g. `https://api.openai.com/v1`.
+   * @param apiKey The API key; optional for local servers.
+   * @param label The name used in log messages.
+   * @param extraHeaders Additional headers sent with every request.
+   */
+  constructor(
+    baseUrl: string,
+    apiKey?: string,
+    label = 'OpenAI-compatible API',
+    extraHeaders: Record<string, string> = {}
+  ) {
+    this.#baseUrl = baseUrl.replace(/\/+$/, '');
+    this.#label = label;
+    this.#headers = new Headers(extraHeaders);
+    if (apiKey) {
+      this.#headers.append('Authorization', `Bearer ${apiKey}`);
+    }
+  }
+
+  /**
+   * Fetches the list of available models.
+   * @returns A promise that resolves to the list of models.
+   */
+  public async getModels(): Promise<OpenRouterModel[]> {
+    logger.info(`Fetching models from ${this.#label}.`);
+    try {
+      const response = await fetchWithRetry(`${this.#baseUrl}/models`, {
+        method: 'GET',
+        headers: this.#headers,
+      });
+
+      const jsonResponse = (await response.json()) as ModelListResponse;
+      logger.info(`Successfully fetched models from ${this.#label}.`);
+      return (jsonResponse.data || []).map((model) => ({
+        id: model.id,
+        name: model.name || model.id,
+        context_length: model.context_length ?? 0,
+        pricing: model.pricing
+          ? {
+              prompt: Number(model.pricing.prompt) || 0,
+              completion: Number(model.pricing.completion) || 0,
+            }
+          : undefined,
+      }));
+    } catch (error) {
+      logger.error('Failed to fetch models after all retries', error, {
+        endpoint: '/models',
+        provider: this.#label,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Creates a chat completion using the specified model and messages.
+   * @param payload The request payload containing the model, messages, and other parameters.
+   * @param options Streaming and cancellation options.
+   * @returns A promise that resolves to the AI-generated reply string.
+   */
+  public async createChatCompletion(
+    payload: ChatCompletionRequest,
+    options: ChatCompletionOptions = {}
+  ): Promise<string> {
+    logger.info(`Requesting chat completion from ${this.#label}`, {
+      model: payload.model,
+      stream: !!options.stream,
+    });
+    const headers = new Headers(this.#headers);
+    headers.append('Content-Type', 'application/json');
+
+    try {
+      const response = await fetchWithRetry(
+        `${this.#baseUrl}/chat/completions`,
+        {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({
+            ...payload,
+            stream: !!options.stream,
+            // Streams only report usage in their final chunk when asked to
+            stream_options: options.stream
+              ? { include_usage: true }
+              : undefined,
+          }),
+          signal: options.signal,
+        }
+      );
+
+      if (options.stream) {
+        const streamedText = (
+          await this.#readCompletionStream(response, options)
+        ).trim();
+        if (!streamedText) {
+          throw new Error(`${this.#label} stream ended without any content.`);
+        }
+        logger.info(
+          `Successfully streamed chat completion from ${this.#label}.`,
+          {
+            model: payload.model,
+            replyLength: streamedText.length,
+          }
+        );
+        return streamedText;
+      }
+
+      const jsonResponse = (await response.json()) as ChatCompletionResponse & {
+        error?: ApiError;
+      };
+
+      // Handle cases where the API returns a 200 OK with an error payload
+      if (jsonResponse.error) {
+        const error = toAIError(this.#label, jsonResponse.error);
+        logger.error(error.message, error, { response: jsonResponse });
+        throw error;
+      }
+
+      if (
+        jsonResponse.choices?.[0]?.finish_reason === 'content_filter' &&
+        !jsonResponse.choices[0].message?.content
+      ) {
+        throw new AIContentFilterError(
+          `${this.#label} withheld the reply because of its content filter.`
+        );
+      }
+
+      if (
+        !jsonResponse.choices ||
+        jsonResponse.choices.length === 0 ||
+        !jsonResponse.choices[0].message?.content
+      ) {
+        const error = new Error(
+          `Invalid response structure from ${this.#label}.`
+        );
+        logger.error(error.message, error, { response: jsonResponse });
+        throw error;
+      }
+
+      if (jsonResponse.usage) {
+        options.onUsage?.(toTokenUsage(jsonResponse.usage));
+      }
+      const replyText = jsonResponse.choices[0].message.content.trim();
+      logger.info(
+        `Successfully received chat completion from ${this.#label}.`,
+        {
+          model: payload.model,
+          replyLength: replyText.length,
+        }
+      );
+      return replyText;
+    } catch (error) {
+      if (options.signal?.aborted) {
+        logger.info('Chat completion was cancelled.', { model: payload.model });
+        throw error;
+      }
+      logger.error('Chat completion failed after all retries', error as Error, {
+        endpoint: '/chat/completions',
+        provider: this.#label,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Reads a server-sent events completion stream until `[DONE]`.
+   * @returns The complete generated text.
+   */
+  async #readCompletionStream(
+    response: Response,
+    { onDelta, onUsage }: ChatCompletionOptions
+  ): Promise<string> {
+    let text = '';
+    let finishReason: string | null | undefined;
+    await readStreamLines(response, (line) => {
+      // Comment lines such as ": OPENROUTER PROCESSING" only keep the connection alive
+      const data = getSseData(line);
+      if (data === null) return false;
+      if (data === '[DONE]') return true;
+
+      const chunk = JSON.parse(data) as ChatCompletionStreamChunk;
+      if (chunk.error) {
+        throw toAIError(this.#label, chunk.error);
+      }
+      if (chunk.usage) onUsage?.(toTokenUsage(chunk.usage));
+      finishReason = chunk.choices?.[0]?.finish_reason ?? finishReason;
+      const delta = chunk.choices?.[0]?.delta?.content;
+      if (delta) {
+        text += delta;
+        onDelta?.(text);
+      }
+      return false;
+    });
+    if (!text.trim() && finishReason === 'content_filter') {
+      throw new AIContentFilterError(
+        `${this.#label} withheld the reply because of its content filter.`
+      );
+    }
+    return text;
+  }
+}
@@ -1,12 +1,34 @@
 import { logger } from '../logger';
 import {
+  ActionStatus,
   RunState,
+  RunMode,
+  DraftKind,
+  ReviewAction,
+  CommentAction,
+  CommentStep,
+  ContactAction,
   PostState,
   Comment,
+  CommentOrdering,
+  ProfileRuleMatch,
   ChatMessage,
   UIState,
   CapturedPostState,
   AIConfig,
+  SimulatedAction,
+  QuotaAction,
+  PipelineSteps,
+  RestrictionSignal,
+  GenerationPreview,
+  PostContent,
+  ProfileSnapshot,
+  StructuredDraft,
+  GenerationUsage,
+  TokenUsage,
+  TriggerMatch,
+  TriggerRule,
+  UsageTotals,
 } from '../../shared/types';
 import {
   getPostState,
@@ -15,11 +37,91 @@ import {
   calculateCommentStats,
 } from './stateManager';
 import { getConfig } from './configManager';
-import { OpenRouterClient } from './openRouterClient';
+import { createAIProvider, providerRequiresApiKey } from './aiProvider';
+import { buildPostUrl, getPostUrnFromUrl } from '../../shared/linkedin';
+import {
+  DEFAULT_DM_SYSTEM_PROMPT,
+  DEFAULT_DM_TEMPLATE,
+  DEFAULT_INVITE_SYSTEM_PROMPT,
+  DEFAULT_INVITE_TEMPLATE,
+  DEFAULT_REPLY_SYSTEM_PROMPT,
+  DEFAULT_REPLY_TEMPLATE,
+  buildTemplateContext,
+  renderTemplate,
+} from '../../shared/promptTemplates';
+import {
+  STRUCTURED_PROMPT_TEMPLATE,
+  parseStructuredDraft,
+} from './structuredOutput';
+import { findQuotaBlock, recordQuotaAction } from './quotaManager';
+import { findContactCooldown, recordContactAction } from './contactRegistry';
+import { findProfileRule } from './profileLists';
+import {
+  checkConnectionFilter,
+  evaluateCommentFilters,
+} from './commentFilters';
+import {
+  RELEVANCE_BATCH_SIZE,
+  buildRelevancePrompt,
+  parseRelevanceScores,
+  rankComments,
+} from './commentOrdering';
+import { AIRequestError } from './aiErrors';
+import { checkReplyGuardrails } from './replyGuardrails';
+import {
+  addToUsageTotals,
+  computeCost,
+  createUsageTotals,
+  getModelPricing,
+} from './usageTracker';
+import { ensurePostTab } from './postTabs';
+import {
+  getActiveTriggerRules,
+  getTriggerRule,
+  matchesTriggerPattern,
+} from './triggerRules';
 
 // Retry logic constants
 const MAX_RETRIES = 3;
 const INITIAL_DELAY = 2000; // Start with a 2-second delay for DOM actions
+// Minimum time between typing preview updates sent to the sidebar
+const PREVIEW_THROTTLE_MS = 150;
+// The first structured completion plus one correction of malformed JSON
+const MAX_STRUCTURED_ATTEMPTS = 2;
+// Returned instead of a draft when the AI decides a comment should not be answered
+const SKIP_REPLY = '__SKIP__';
+
+// Alarms that resume a post after an automatic pause, suffixed with the post URN
+const AUTO_RESUME_ALARM_PREFIX = 'pipeline:auto-resume:';
+// Wakes a suspended service worker when the delay between comments ends
+const DELAY_ALARM = 'pipeline:delay';
+const SESSION_STORAGE_KEY = 'pipelineSession';
+// Set on a post whose run could not be picked up after a worker restart
+const RESTORE_FAILED_PAUSE_REASON = 'restore-failed';
+
+/**
+ * The in-memory part of a running pipeline. It is persisted while the run is
+ * active so a restarted service worker can continue where it left off.
+ */
+interface PipelineSession {
+  postUrn: string;
+  tabId: number;
+  runMode: RunMode;
+  steps: PipelineSteps;
+  // Epoch ms at which the delay before the next comment ends
+  delayUntil?: number;
+}
+
+const DEFAULT_PIPELINE_STEPS: PipelineSteps = {
+  like: true,
+  reply: true,
+  dm: true,
+  connectionCheck: true,
+  invite: false,
+};
+
+// LinkedIn cuts connection request notes longer than this
+const MAX_INVITE_NOTE_LENGTH = 300;
 
 const getModeLabel = (config: AIConfig): 'manual' | 'ai' =>
   config.aiEnabled === false ? 'manual' : 'ai';
@@ -36,25 +138,18 @@ const determineDelay = (config: AIConfig): number => {
   return Math.floor(Math.random() * (max - min + 1)) + min;
 };
 
-const waitForConfiguredDelay = async (config: AIConfig) => {
-  const delayMs = determineDelay(config);
-  logger.info('Waiting before processing next comment', {
-    delayMs,
-    delayRange: {
-      min: config.minDelay,
-      max: config.maxDelay,
-    },
-    mode: getModeLabel(config),
-  });
-
-  if (delayMs <= 0) {
-    broadcastState({ delayCountdownMs: null });
-    return;
-  }
+/**
+ * Waits for the delay while broadcasting a countdown. The end of the delay is
+ * persisted and backed by an alarm, so the run continues even if Chrome
+ * suspends the service worker in the meantime.
+ */
+const waitForDelay = async (delayMs: number): Promise<void> => {
+  const delayUntil = Date.now() + delayMs;
+  await persistSession(delayUntil);
+  chrome.alarms.create(DELAY_ALARM, { when: delayUntil });
 
   await new Promise<void>((resolve) => {
-    const start = Date.now();
-    const endTime = start + delayMs;
+    const endTime = delayUntil;
     let resolved = false;
     let intervalId: ReturnType<typeof setInterval> | null = null;
     let timeoutId: ReturnType<typeof setTimeout> | null = null;
@@ -92,14 +187,46 @@ const waitForConfiguredDelay = async (config: AIConfig) => {
     intervalId = setInterval(emitCountdown, 1000);
     timeoutId = setTimeout(finalize, delayMs);
   });
+  await chrome.alarms.clear(DELAY_ALARM);
+};
+
+const waitForConfiguredDelay = async (config: AIConfig): Promise<number> => {
+  const delayMs = determineDelay(config);
+  logger.info('Waiting before processing next comment', {
+    delayMs,
+    delayRange: {
+      min: config.minDelay,
+      max: config.maxDelay,
+    },
+    mode: getModeLabel(config),
+  });
+
+  if (delayMs <= 0) {
+    broadcastState({ delayCountdownMs: null });
+    return 0;
+  }
+
+  await waitForDelay(delayMs);
+  return delayMs;
 };
 
 // Internal state variables
 let pipelineStatus: RunState = 'idle';
 let activePostUrn: string | null = null;
 let activeTabId: number | null = null;
-let isProcessing = false;
 // A lock to prevent concurrent processing loops
+let isProcessing = false;
+let activeRunMode: RunMode = 'auto';
+let activeSteps: PipelineSteps = { ...DEFAULT_PIPELINE_STEPS };
+// Cancels the AI generation in flight when the run is paused or reset
+let generationAbort: AbortController | null = null;
+// Circuit breaker state of the current run
+let detectedRestriction: RestrictionSignal | null = null;
+let consecutiveFailures = 0;
+// An AI error that fails every generation, e.g. an invalid API key
+let fatalAiError: AIRequestError | null = null;
+// AI usage of the current run; the post's total is kept on its metadata
+let runUsage: UsageTotals = createUsageTotals();
 
 // This will be set by the main service worker script to broadcast updates
 let broadcastState: (state: Partial<UIState>) => void = () => {
@@ -115,6 +242,51 @@ let sendMessageToTab: <T>(
   return Promise.reject('sendMessageToTab not initialized');
 };
 
+// Notified whenever a processing loop ends. `completed` is true only when the
+// run worked through every actionable comment rather than being paused or reset.
+// `resumeAt` is set when the pause is automatic and the run will resume by itself.
+type RunEndListener = (
+  postUrn: string,
+  status: RunState,
+  completed: boolean,
+  resumeAt?: string
+) => void;
+let runEndListener: RunEndListener | null = null;
+
+// Consulted before a run starts or resumes. Returns why and until when the
+// run has to wait, e.g. while quiet hours are active, or null to go ahead.
+type RunDeferral = { reason: string; resumeAt: number };
+let runGuard: () => RunDeferral | null = () => null;
+
+let sessionRestore: Promise<void> = Promise.resolve();
+
+const persistSession = async (delayUntil?: number): Promise<void> => {
+  if (pipelineStatus !== 'running' || !activePostUrn || !activeTabId) return;
+  const session: PipelineSession = {
+    postUrn: activePostUrn,
+    tabId: activeTabId,
+    runMode: activeRunMode,
+    steps: activeSteps,
+    delayUntil,
+  };
+  try {
+    await chrome.storage.local.set({ [SESSION_STORAGE_KEY]: session });
+  } catch (error) {
+    logger.error('Failed to persist pipeline session', error, {
+      postUrn: activePostUrn,
+    });
+  }
+};
+
+const clearSession = async (): Promise<void> => {
+  try {
+    await chrome.storage.local.remove(SESSION_STORAGE_KEY);
+    await chrome.alarms.clear(DELAY_ALARM);
+  } catch (error) {
+    logger.error('Failed to clear pipeline session', error);
+  }
+};
+
 /**
  * A generic helper to retry an asynchronous function with exponential backoff and jitter.
  */
@@ -122,6 +294,8 @@ interface RetryOptions {
   maxRetries: number;
   initialDelay: number;
   onRetry: (error: Error, attempt: number) => void;
+  // Checked after each failure; retrying stops early when it resolves to false
+  isRetryable?: (error: Error) => Promise<boolean>;
 }
 
 async function retryAsyncFunction<T>(
@@ -136,6 +310,9 @@ async function retryAsyncFunction<T>(
     } catch (error) {
       lastError = error as Error;
       options.onRetry(lastError, attempt + 1);
+      if (options.isRetryable && !(await options.isRetryable(lastError))) {
+        break;
+      }
 
       if (attempt < options.maxRetries - 1) {
         const delay = options.initialDelay * Math.pow(2, attempt);
@@ -147,38 +324,646 @@ async function retryAsyncFunction<T>(
   throw lastError;
 }
 
+/**
+ * Asks the content script of a tab whether LinkedIn is limiting the account.
+ * The first signal of a run is kept so the processing loop can halt on it.
+ */
+const checkForRestriction = async (
+  tabId: number,
+  context: Record<string, unknown>
+): Promise<RestrictionSignal | null> => {
+  try {
+    const signal = await sendMessageToTab<RestrictionSignal | null>(tabId, {
+      type: 'CHECK_RESTRICTIONS',
+    });
+    if (signal && !detectedRestriction) {
+      detectedRestriction = signal;
+      logger.warn('LinkedIn restriction detected', { ...context, ...signal });
+    }
+    return signal ?? null;
+  } catch (error) {
+    // The page may be navigating; an unanswered check is not a signal
+    logger.debug('Restriction check failed', {
+      ...context,
+      tabId,
+      error: (error as Error).message,
+    });
+    return null;
+  }
+};
+
+// Copies what was read from the post page onto the post's metadata
+const applyPostContent = (postState: PostState, content: PostContent) => {
+  postState._meta.postText = content.text;
+  postState._meta.author = content.author || undefined;
+  postState._meta.timestamp = content.timestamp || undefined;
+  postState._meta.attachmentTitles = content.attachmentTitles;
+};
+
+/**
+ * Reads the post body from the tab for posts captured before post content was
+ * stored, so replies and DMs know what the post is about.
+ */
+const ensurePostContent = async (
+  tabId: number,
+  postState: PostState
+): Promise<void> => {
+  if (postState._meta.postText !== undefined) return;
+  try {
+    const content = await sendMessageToTab<PostContent | null>(tabId, {
+      type: 'CAPTURE_POST_CONTENT',
+    });
+    if (content) applyPostContent(postState, content);
+  } catch (error) {
+    // Generation still works without it, only with less context
+    logger.warn('Failed to capture post content', {
+      postUrn: postState._meta.postId,
+      error: (error as Error).message,
+    });
+  }
+};
+
+// Lets retries of DOM actions stop as soon as LinkedIn pushes back
+const stopOnRestriction =
+  (tabId: number, context: Record<string, unknown>) =>
+  async (): Promise<boolean> =>
+    !(await checkForRestriction(tabId, context));
+
+/**
+ * @param dependencies Resolves once the config and the rules the pipeline
+ *   checks comments against are loaded; an interrupted run is restored and
+ *   a paused one resumed by its alarm only after.
+ */
 export const initPipelineManager = (
   broadcaster: (state: Partial<UIState>) => void,
   messageSender: <T>(
     tabId: number,
     message: { type: string; payload?: unknown }
-  ) => Promise<T>
+  ) => Promise<T>,
+  dependencies: Promise<unknown> = Promise.resolve()
 ) => {
   broadcastState = broadcaster;
   sendMessageToTab = messageSender;
+  chrome.alarms.onAlarm.addListener((alarm) => {
+    // The alarm may be what woke the worker, so the resumed run has to wait
+    // for the same data as a restored one
+    if (alarm.name.startsWith(AUTO_RESUME_ALARM_PREFIX)) {
+      dependencies
+        .then(() => handleAutoResumeAlarm(alarm))
+        .catch((error) =>
+          logger.error('Automatic pipeline resume failed', error, {
+            alarm: alarm.name,
+          })
+        );
+    }
+    // DELAY_ALARM only needs to wake the worker; the session restore below
+    // continues the run
+  });
   logger.info('PipelineManager initialized.');
+  sessionRestore = dependencies
+    .then(restorePipelineSession)
+    .catch((error) =>
+      logger.error('Failed to restore pipeline session', error)
+    );
+};
+
+/**
+ * Resolves once a run interrupted by a worker restart has been picked up again
+ * (or found to be unrecoverable).
+ */
+export const waitForSessionRestore = (): Promise<void> => sessionRestore;
+
+export const setRunEndListener = (listener: RunEndListener | null) => {
+  runEndListener = listener;
+};
+
+export const setRunGuard = (guard: () => RunDeferral | null) => {
+  runGuard = guard;
+};
+
+/**
+ * Fills in missing steps with their defaults. The DM and invite steps need
+ * the profile visit of the connection check, so enabling either enables the
+ * check as well.
+ */
+export const resolvePipelineSteps = (
+  steps?: Partial<PipelineSteps>
+): PipelineSteps => {
+  const resolved = { ...DEFAULT_PIPELINE_STEPS, ...steps };
+  if (resolved.dm || resolved.invite) resolved.connectionCheck = true;
+  return resolved;
+};
+
+/**
+ * Whether a run would act on the comments. The connection check alone only
+ * visits profiles, so it does not count.
+ */
+export const hasActionStep = (steps?: Partial<PipelineSteps>): boolean => {
+  const resolved = resolvePipelineSteps(steps);
+  return resolved.like || resolved.reply || resolved.dm || !!resolved.invite;
 };
 
 // Max replies limit functionality removed - now using Comments to Fetch parameter
 
+/**
+ * A commenter outside the network gets a connection request when the invite
+ * step is on or the matched trigger rule asks for one.
+ */
+const needsInvite = (comment: Comment): boolean =>
+  comment.connected === false &&
+  !comment.inviteStatus &&
+  (!!activeSteps.invite || !!getMatchedRule(comment)?.connect);
+
+/**
+ * A comment needs the profile step when its connection status is unknown,
+ * when it is a known connection whose DM was left out of an earlier run, or
+ * when a commenter outside the network still needs a connection request.
+ */
+const needsProfileStep = (comment: Comment): boolean =>
+  needsInvite(comment) ||
+  (activeSteps.connectionCheck &&
+    typeof comment.connected === 'undefined' &&
+    comment.dmStatus === '') ||
+  (activeSteps.dm &&
+    comment.connected === true &&
+    comment.dmStatus === '' &&
+    !comment.pipeline.dmReview);
+
 const findNextComment = (postState: PostState): Comment | null => {
-  for (const comment of postState.comments) {
+  const ranked = [...postState.comments].sort(
+    (a, b) =>
+      (a.priority?.rank ?? Number.MAX_SAFE_INTEGER) -
+      (b.priority?.rank ?? Number.MAX_SAFE_INTEGER)
+  );
+  // Commenters on the allow list go first
+  const ordered = [
+    ...ranked.filter((c) => c.profileRule?.list === 'allow'),
+    ...ranked.filter((c) => c.profileRule?.list !== 'allow'),
+  ];
+  for (const comment of ordered) {
     // Priority 1: A comment that needs its connection status checked.
     // This step will now also handle the DM if applicable.
-    if (typeof comment.connected === 'undefined') {
+    if (needsProfileStep(comment)) {
       return comment;
     }
     // Priority 2: A comment that needs a like or reply, and whose DM step is complete.
-    if (comment.likeStatus === '' || comment.replyStatus === '') {
+    // Replies parked for review are not actionable until a reviewer decides.
+    if (
+      (activeSteps.like && comment.likeStatus === '') ||
+      (activeSteps.reply &&
+        comment.replyStatus === '' &&
+        comment.pipeline.replyReview !== 'PENDING')
+    ) {
+      return comment;
+    }
+    // Priority 3: A DM draft that was approved during review.
+    if (
+      activeSteps.dm &&
+      comment.dmStatus === '' &&
+      comment.pipeline.dmReview === 'APPROVED'
+    ) {
       return comment;
     }
   }
   return null; // No more comments to process
 };
 
+const countPendingReviews = (postState: PostState): number =>
+  postState.comments.filter(
+    (c) =>
+      c.pipeline.replyReview === 'PENDING' || c.pipeline.dmReview === 'PENDING'
+  ).length;
+
+/**
+ * Lists the quota-limited actions processing this comment would perform next.
+ * Drafts parked for review and dry runs publish nothing, so only the profile
+ * visit of the connection check counts for them.
+ */
+const getPlannedActions = (comment: Comment): QuotaAction[] => {
+  const actions: QuotaAction[] = [];
+  const publishes = activeRunMode !== 'dry-run';
+  if (needsProfileStep(comment)) {
+    actions.push('profileVisit');
+    if (activeSteps.dm && activeRunMode === 'auto') actions.push('dm');
+    // Connection requests carry no draft, so approval mode sends them too
+    if (activeSteps.invite && publishes && comment.connected !== true) {
+      actions.push('invite');
+    }
+  }
+  if (
+    activeSteps.dm &&
+    comment.dmStatus === '' &&
+    comment.pipeline.dmReview === 'APPROVED'
+  ) {
+    actions.push('profileVisit', 'dm');
+  }
+  if (!publishes) return actions;
+  if (activeSteps.like && comment.likeStatus === '') actions.push('like');
+  if (
+    activeSteps.reply &&
+    comment.replyStatus === '' &&
+    (activeRunMode === 'auto' || comment.pipeline.replyReview === 'APPROVED')
+  ) {
+    actions.push('reply');
+  }
+  return actions;
+};
+
+/**
+ * Dry runs operate on the simulation's copy of the comments, so the real
+ * pipeline statuses of the post stay untouched. Other modes use the state as is.
+ */
+const getWorkingState = (postState: PostState): PostState =>
+  activeRunMode === 'dry-run' && postState.simulation
+    ? { ...postState, comments: postState.simulation.comments }
+    : postState;
+
+const saveWorkingState = async (workingState: PostState): Promise<void> => {
+  if (!activePostUrn) return;
+  if (activeRunMode !== 'dry-run') {
+    await savePostState(activePostUrn, workingState);
+    return;
+  }
+  const postState = getPostState(activePostUrn);
+  if (postState?.simulation) {
+    postState.simulation.comments = workingState.comments;
+    await savePostState(activePostUrn, postState);
+  }
+};
+
+const recordSimulatedAction = (action: Omit<SimulatedAction, 'at'>) => {
+  const postState = activePostUrn ? getPostState(activePostUrn) : undefined;
+  if (!postState?.simulation) return;
+  postState.simulation.actions.push({
+    ...action,
+    at: new Date().toISOString(),
+  });
+  logger.info(`Dry run: would ${action.type}`, {
+    postId: activePostUrn,
+    ...action,
+  });
+};
+
+const isGenerationCancelled = (error: unknown): boolean =>
+  (error as Error)?.name === 'AbortError';
+
+// Drafts regenerated during review belong to a post that is not being run
+const isRunPost = (postState: PostState): boolean =>
+  pipelineStatus === 'running' && postState._meta.postId === activePostUrn;
+
+interface CompletionTarget {
+  comment: Comment;
+  postState: PostState;
+  // `trigger` classifies a comment for the trigger rules, `score` rates a
+  // batch of comments for the AI ordering
+  kind: DraftKind | 'trigger' | 'invite' | 'score';
+}
+
+/**
+ * Stores the usage of a generation on its comment and adds it to the run and
+ * post totals.
+ */
+const recordGenerationUsage = async (
+  aiConfig: AIConfig,
+  model: string,
+  { comment, postState, kind }: CompletionTarget,
+  tokens: TokenUsage,
+  latencyMs: number,
+  structured: boolean
+): Promise<void> => {
+  const usage: GenerationUsage = {
+    ...tokens,
+    kind: structured ? 'structured' : kind,
+    model,
+    latencyMs,
+    costUsd: computeCost(tokens, await getModelPricing(aiConfig, model)),
+    at: new Date().toISOString(),
+  };
+  comment.usage = [...(comment.usage ?? []), usage];
+  postState._meta.usage = addToUsageTotals(postState._meta.usage, usage);
+  if (isRunPost(postState)) {
+    runUsage = addToUsageTotals(runUsage, usage);
+  }
+  logger.info('AI generation usage recorded', {
+    postId: postState._meta.postId,
+    commentId: comment.commentId,
+    ...usage,
+  });
+  broadcastState({ runUsage, postUsage: postState._meta.usage });
+};
+
+/**
+ * Requests a completion for a draft. When streaming is enabled the partial
+ * text is broadcast as a typing preview, and pausing the run cancels it.
+ * The fallback models are tried in order when a model fails with an error
+ * another model can avoid.
+ * @param json Requests a JSON object; it is not streamed, as raw JSON makes a
+ *   poor preview.
+ */
+const requestCompletion = async (
+  aiConfig: AIConfig,
+  messages: ChatMessage[],
+  target: CompletionTarget,
+  json = false
+): Promise<string> => {
+  const provider = createAIProvider(aiConfig);
+  const abort = new AbortController();
+  // Only the run's own generations are cancelled when it is paused
+  const partOfRun = isRunPost(target.postState);
+  if (partOfRun) generationAbort = abort;
+  // Only drafts are previewed as they are typed
+  const preview: Omit<GenerationPreview, 'text'> | null =
+    target.kind === 'reply' || target.kind === 'dm'
+      ? { commentId: target.comment.commentId, kind: target.kind }
+      : null;
+  const models = [
+    aiConfig.model,
+    ...(aiConfig.fallbackModels ?? []).filter(
+      (model) => model && model !== aiConfig.model
+    ),
+  ];
+  try {
+    for (let index = 0; ; index++) {
+      const model = models[index];
+      let lastPreviewAt = 0;
+      let tokens: TokenUsage = { promptTokens: 0, completionTokens: 0 };
+      const startedAt = Date.now();
+      try {
+        const text = await provider.createChatCompletion(
+          {
+            model,
+            messages,
+            temperature: aiConfig.temperature,
+            top_p: aiConfig.top_p,
+            // Room for both drafts and the JSON around them
+            max_tokens:
+              json && aiConfig.max_tokens
+                ? aiConfig.max_tokens * 2
+                : aiConfig.max_tokens,
+            response_format: json ? { type: 'json_object' } : undefined,
+          },
+          {
+            stream: !!preview && !json && aiConfig.stream !== false,
+            signal: abort.signal,
+            onDelta: (text) => {
+              if (!preview) return;
+              const now = Date.now();
+              if (now - lastPreviewAt < PREVIEW_THROTTLE_MS) return;
+              lastPreviewAt = now;
+              broadcastState({ generationPreview: { ...preview, text } });
+            },
+            onUsage: (usage) => {
+              tokens = usage;
+            },
+          }
+        );
+        await recordGenerationUsage(
+          aiConfig,
+          model ?? '',
+          target,
+          tokens,
+          Date.now() - startedAt,
+          json
+        );
+        return text;
+      } catch (error) {
+        if (abort.signal.aborted) throw error;
+        if (error instanceof AIRequestError && !error.canFallBack) {
+          // Every other comment would fail the same way
+          if (partOfRun) fatalAiError = error;
+          throw error;
+        }
+        if (index >= models.length - 1) throw error;
+        logger.warn('AI model failed, trying the next fallback model', {
+          commentId: target.comment.commentId,
+          model,
+          fallbackModel: models[index + 1],
+          kind: error instanceof AIRequestError ? error.kind : undefined,
+          error: (error as Error).message,
+        });
+        broadcastState({ generationPreview: null });
+      }
+    }
+  } finally {
+    if (generationAbort === abort) generationAbort = null;
+    broadcastState({ generationPreview: null });
+  }
+};
+
+/**
+ * Returns the structured draft of a comment, requesting it on first use so the
+ * reply and the DM share one completion. A malformed answer is sent back to
+ * the model with the problems found, once.
+ */
+const getStructuredDraft = async (
+  comment: Comment,
+  postState: PostState,
+  kind: DraftKind,
+  feedback?: string
+): Promise<StructuredDraft> => {
+  if (comment.pipeline.structured) return comment.pipeline.structured;
+
+  const aiConfig = getConfig();
+  const context = {
+    postId: postState._meta.postId,
+    commentId: comment.commentId,
+    step: 'GENERATE_STRUCTURED',
+  };
+  const templateContext = buildTemplateContext(
+    comment,
+    postState,
+    aiConfig.reply?.customPrompt
+  );
+  const messages: ChatMessage[] = [
+    {
+      role: 'system',
+      content: renderTemplate(
+        aiConfig.reply?.systemPrompt || DEFAULT_REPLY_SYSTEM_PROMPT,
+        templateContext
+      ),
+    },
+    {
+      role: 'user',
+      content: renderTemplate(STRUCTURED_PROMPT_TEMPLATE, {
+        ...templateContext,
+        dmPersona: renderTemplate(
+          aiConfig.dm?.customPrompt ?? '',
+          templateContext
+        ),
+      }),
+    },
+  ];
+  if (feedback) messages.push({ role: 'user', content: feedback });
+
+  for (let attempt = 1; ; attempt++) {
+    const raw = await requestCompletion(
+      aiConfig,
+      messages,
+      { comment, postState, kind },
+      true
+    );
+    try {
+      const draft: StructuredDraft = {
+        ...parseStructuredDraft(raw, {
+          // Commenters outside the network are never sent a DM
+          requireDm:
+            resolvePipelineSteps(postState._meta.steps).dm &&
+            comment.connected !== false,
+        }),
+        generatedAt: new Date().toISOString(),
+      };
+      comment.pipeline.structured = draft;
+      logger.info('Structured draft generated', {
+        ...context,
+        attempt,
+        skip: draft.skip,
+        reaction: draft.reaction,
+        sentiment: draft.sentiment,
+        language: draft.language,
+      });
+      return draft;
+    } catch (error) {
+      if (attempt >= MAX_STRUCTURED_ATTEMPTS) throw error;
+      logger.warn('Structured draft was malformed, asking for a correction', {
+        ...context,
+        attempt,
+        error: (error as Error).message,
+      });
+      messages.push(
+        { role: 'assistant', content: raw },
+        {
+          role: 'user',
+          content: `${(error as Error).message}. Answer again with only the corrected JSON object.`,
+        }
+      );
+    }
+  }
+};
+
+/**
+ * Requests the structured draft before the like, so the like uses the reaction
+ * it picks and respects its decision to skip the comment. When the draft
+ * cannot be generated the like uses the default reaction.
+ */
+const prepareStructuredDraft = async (
+  comment: Comment,
+  postState: PostState,
+  context: Record<string, unknown>
+): Promise<void> => {
+  const aiConfig = getConfig();
+  if (
+    aiConfig.aiEnabled === false ||
+    !aiConfig.structuredOutput ||
+    comment.pipeline.structured ||
+    (providerRequiresApiKey(aiConfig.provider) && !aiConfig.apiKey)
+  ) {
+    return;
+  }
+  try {
+    await getStructuredDraft(comment, postState, 'reply');
+  } catch (error) {
+    logger.warn('Structured draft failed before the like', {
+      ...context,
+      error: (error as Error).message,
+    });
+  }
+};
+
+const getMatchedRule = (comment: Comment): TriggerRule | undefined =>
+  comment.trigger ? getTriggerRule(comment.trigger.ruleId) : undefined;
+
+// The reply template of the matched rule, or '' when the usual reply applies
+const getRuleReplyTemplate = (comment: Comment): string => {
+  const rule = getMatchedRule(comment);
+  if (!rule) return '';
+  return comment.connected === false
+    ? rule.nonConnectedReplyTemplate || rule.replyTemplate
+    : rule.replyTemplate;
+};
+
+const toTriggerMatch = (rule: TriggerRule): TriggerMatch => ({
+  ruleId: rule.id,
+  ruleName: rule.name,
+  resource: rule.resource,
+  matchedAt: new Date().toISOString(),
+});
+
+/**
+ * Finds the trigger rule for a comment. Keyword and regex rules are checked
+ * first, in order. Intent rules are then judged together by one AI call, so
+ * a comment costs at most one extra completion.
+ * @returns The match, or null if no rule applies.
+ */
+const evaluateTriggerRules = async (
+  comment: Comment,
+  postState: PostState,
+  context: Record<string, unknown>
+): Promise<TriggerMatch | null> => {
+  const rules = getActiveTriggerRules(postState._meta.postId);
+  const patternRule = rules.find((rule) =>
+    matchesTriggerPattern(rule, comment.text)
+  );
+  if (patternRule) {
+    logger.info('Comment matched trigger rule', {
+      ...context,
+      ruleId: patternRule.id,
+      matchType: patternRule.matchType,
+    });
+    return toTriggerMatch(patternRule);
+  }
+
+  const intentRules = rules.filter((rule) => rule.matchType === 'intent');
+  const aiConfig = getConfig();
+  if (
+    intentRules.length === 0 ||
+    aiConfig.aiEnabled === false ||
+    (providerRequiresApiKey(aiConfig.provider) && !aiConfig.apiKey)
+  ) {
+    return null;
+  }
+
+  const intents = intentRules
+    .map((rule, index) => `${index + 1}. ${rule.pattern}`)
+    .join('\n');
+  const answer = await requestCompletion(
+    aiConfig,
+    [
+      {
+        role: 'system',
+        content:
+          'You classify comments on LinkedIn posts by what the commenter wants.',
+      },
+      {
+        role: 'user',
+        content: `Comment: '${comment.text}'\n\nIntents:\n${intents}\n\nAnswer with ONLY the number of the intent the comment clearly expresses, or 0 if none does.`,
+      },
+    ],
+    { comment, postState, kind: 'trigger' }
+  );
+  const index = Number(answer.match(/\d+/)?.[0] ?? 0) - 1;
+  const intentRule = intentRules[index];
+  logger.info('Trigger intents classified', {
+    ...context,
+    answer,
+    ruleId: intentRule?.id,
+  });
+  return intentRule ? toTriggerMatch(intentRule) : null;
+};
+
+// The reason recorded on a comment the AI decided not to answer
+const describeAiSkip = (comment: Comment): string =>
+  comment.pipeline.structured?.skipReason
+    ? `Skipped by AI: ${comment.pipeline.structured.skipReason}`
+    : 'Skipped by AI';
+
+/**
+ * @param feedback Why a previous draft was rejected, sent to the model so the
+ *   new draft avoids the same problems.
+ */
 const generateReply = async (
   comment: Comment,
-  postState: PostState
+  postState: PostState,
+  feedback?: string
 ): Promise<string | null> => {
   const context = {
     postId: postState._meta.postId,
@@ -211,52 +996,58 @@ const generateReply = async (
     }
 
     logger.info('Using manual reply template', manualContext);
-    return staticText;
+    return renderTemplate(staticText, buildTemplateContext(comment, postState));
   }
 
   // AI is enabled, proceed with AI generation
   logger.info('Generating AI reply', context);
   try {
-    if (!aiConfig.apiKey) {
-      logger.error('OpenRouter API key is not set.', undefined, context);
+    if (providerRequiresApiKey(aiConfig.provider) && !aiConfig.apiKey) {
+      logger.error('AI provider API key is not set.', undefined, {
+        ...context,
+        provider: aiConfig.provider,
+      });
       return null;
     }
 
-    const client = new OpenRouterClient(aiConfig.apiKey, aiConfig.attribution);
+    if (aiConfig.structuredOutput) {
+      const draft = await getStructuredDraft(
+        comment,
+        postState,
+        'reply',
+        feedback
+      );
+      return draft.skip ? SKIP_REPLY : draft.reply;
+    }
 
-    // Use different prompts based on connection status
-    const systemPrompt = comment.connected
+    // Use different personas based on connection status
+    const persona = comment.connected
       ? aiConfig.reply?.customPrompt
       : aiConfig.reply?.nonConnectedPrompt;
-
-    const userMessageContent = `
-       Post URL: ${postState._meta.postUrl}
-       My persona: ${systemPrompt}
-       Original comment (from ${comment.ownerProfileUrl}):
-       '${comment.text}'
-       Output: ONLY the reply text. Only output '__SKIP__' if the comment contains:
-       - Explicit profanity, hate speech, or personal attacks
-       - Clear spam (repeated promotional links, unrelated product sales)
-       - Completely off-topic content unrelated to the post
-       - Bot-like repetitive text or gibberish
-       Otherwise, always generate a thoughtful reply even for brief or simple comments.
-     `;
+    const templateContext = buildTemplateContext(comment, postState, persona);
 
     const messages: ChatMessage[] = [
       {
         role: 'system',
-        content:
-          'You are a helpful LinkedIn engagement assistant. Your goal is to write brief, genuinely specific replies to post comments based on the user-provided persona.',
+        content: renderTemplate(
+          aiConfig.reply?.systemPrompt || DEFAULT_REPLY_SYSTEM_PROMPT,
+          templateContext
+        ),
+      },
+      {
+        role: 'user',
+        content: renderTemplate(
+          aiConfig.reply?.template || DEFAULT_REPLY_TEMPLATE,
+          templateContext
+        ),
       },
-      { role: 'user', content: userMessageContent },
     ];
+    if (feedback) messages.push({ role: 'user', content: feedback });
 
-    const replyText = await client.createChatCompletion({
-      model: aiConfig.model,
-      messages,
-      temperature: aiConfig.temperature,
-      top_p: aiConfig.top_p,
-      max_tokens: aiConfig.max_tokens,
+    const replyText = await requestCompletion(aiConfig, messages, {
+      comment,
+      postState,
+      kind: 'reply',
     });
     logger.info('AI reply generated successfully', {
       ...context,
@@ -264,7 +1055,9 @@ const generateReply = async (
     });
     return replyText;
   } catch (error) {
-    logger.error('Failed to generate AI reply', error, context);
+    if (!isGenerationCancelled(error)) {
+      logger.error('Failed to generate AI reply', error, context);
+    }
     throw error;
   }
 };
@@ -281,9 +1074,21 @@ const generateDm = async (
 
   const aiConfig = getConfig();
 
-  // Check if AI is disabled, use static text
-  if (aiConfig.aiEnabled === false) {
-    const manualTemplates = getManualTemplates(aiConfig);
+  const ruleTemplate = getMatchedRule(comment)?.dmTemplate;
+  if (ruleTemplate) {
+    logger.info('Using trigger rule DM template', {
+      ...context,
+      ruleId: comment.trigger?.ruleId,
+    });
+    return renderTemplate(
+      ruleTemplate,
+      buildTemplateContext(comment, postState)
+    );
+  }
+
+  // Check if AI is disabled, use static text
+  if (aiConfig.aiEnabled === false) {
+    const manualTemplates = getManualTemplates(aiConfig);
     const manualContext = { ...context, mode: 'manual', templateKey: 'dmText' };
     if (!manualTemplates) {
       logger.warn('Manual templates missing while AI is disabled', manualContext);
@@ -296,42 +1101,55 @@ const generateDm = async (
     }
 
     logger.info('Using manual DM template', manualContext);
-    return manualTemplates.dmText;
+    return renderTemplate(
+      manualTemplates.dmText,
+      buildTemplateContext(comment, postState)
+    );
   }
 
   // AI is enabled, proceed with AI generation
   logger.info('Generating AI DM', context);
   try {
-    if (!aiConfig.apiKey) {
-      logger.error('OpenRouter API key is not set.', undefined, context);
+    if (providerRequiresApiKey(aiConfig.provider) && !aiConfig.apiKey) {
+      logger.error('AI provider API key is not set.', undefined, {
+        ...context,
+        provider: aiConfig.provider,
+      });
       return null;
     }
 
-    const client = new OpenRouterClient(aiConfig.apiKey, aiConfig.attribution);
+    if (aiConfig.structuredOutput) {
+      const draft = await getStructuredDraft(comment, postState, 'dm');
+      return draft.skip ? SKIP_REPLY : draft.dm;
+    }
 
-    const userMessageContent = `
-       Their comment on my post: '${comment.text}'
-       My custom instructions for this DM: ${aiConfig.dm?.customPrompt}
-       My post URL for context: ${postState._meta.postUrl}
-       Commenter Profile URL: ${comment.ownerProfileUrl}
-       Output: ONLY the direct message text. Be concise, personable, and professional.
-     `;
+    const templateContext = buildTemplateContext(
+      comment,
+      postState,
+      aiConfig.dm?.customPrompt
+    );
 
     const messages: ChatMessage[] = [
       {
         role: 'system',
-        content:
-          'You are a helpful LinkedIn engagement assistant. Your goal is to write a brief, personalized direct message to someone who left a thoughtful comment on your post. Your tone should be warm and aim to start a meaningful conversation.',
+        content: renderTemplate(
+          aiConfig.dm?.systemPrompt || DEFAULT_DM_SYSTEM_PROMPT,
+          templateContext
+        ),
+      },
+      {
+        role: 'user',
+        content: renderTemplate(
+          aiConfig.dm?.template || DEFAULT_DM_TEMPLATE,
+          templateContext
+        ),
       },
-      { role: 'user', content: userMessageContent },
     ];
 
-    const dmText = await client.createChatCompletion({
-      model: aiConfig.model,
-      messages,
-      temperature: aiConfig.temperature,
-      top_p: aiConfig.top_p,
-      max_tokens: aiConfig.max_tokens,
+    const dmText = await requestCompletion(aiConfig, messages, {
+      comment,
+      postState,
+      kind: 'dm',
     });
     logger.info('AI DM generated successfully', {
       ...context,
@@ -339,11 +1157,900 @@ const generateDm = async (
     });
     return dmText;
   } catch (error) {
+    if (isGenerationCancelled(error)) throw error;
     logger.error('Failed to generate AI DM', error, context);
     return null;
   }
 };
 
+/**
+ * Writes the note sent with a connection request: the manual template when AI
+ * is off, otherwise an AI generated note. Notes are cut to LinkedIn's limit.
+ * @returns The note, or an empty string to send the request without one.
+ */
+const generateInviteNote = async (
+  comment: Comment,
+  postState: PostState
+): Promise<string> => {
+  const context = {
+    postId: postState._meta.postId,
+    commentId: comment.commentId,
+    step: 'GENERATE_INVITE_NOTE',
+  };
+  const aiConfig = getConfig();
+  if (!aiConfig.invite?.note) return '';
+
+  let note = '';
+  if (aiConfig.aiEnabled === false) {
+    const template = aiConfig.manual?.inviteNote;
+    if (!template) {
+      logger.warn('Manual invite note not configured', context);
+      return '';
+    }
+    note = renderTemplate(template, buildTemplateContext(comment, postState));
+  } else if (providerRequiresApiKey(aiConfig.provider) && !aiConfig.apiKey) {
+    logger.warn('AI provider API key is not set, inviting without a note', {
+      ...context,
+      provider: aiConfig.provider,
+    });
+    return '';
+  } else {
+    try {
+      const templateContext = buildTemplateContext(
+        comment,
+        postState,
+        aiConfig.invite.customPrompt
+      );
+      note = await requestCompletion(
+        aiConfig,
+        [
+          {
+            role: 'system',
+            content: renderTemplate(
+              aiConfig.invite.systemPrompt || DEFAULT_INVITE_SYSTEM_PROMPT,
+              templateContext
+            ),
+          },
+          {
+            role: 'user',
+            content: renderTemplate(
+              aiConfig.invite.template || DEFAULT_INVITE_TEMPLATE,
+              templateContext
+            ),
+          },
+        ],
+        { comment, postState, kind: 'invite' }
+      );
+    } catch (error) {
+      if (isGenerationCancelled(error)) throw error;
+      logger.error('Failed to generate invite note', error, context);
+      return '';
+    }
+  }
+
+  note = note.trim();
+  if (note.length > MAX_INVITE_NOTE_LENGTH) {
+    // Cut at the last word that fits
+    const cut = note.slice(0, MAX_INVITE_NOTE_LENGTH + 1);
+    const lastSpace = cut.lastIndexOf(' ');
+    note = cut.slice(0, lastSpace > 0 ? lastSpace : MAX_INVITE_NOTE_LENGTH);
+    logger.info('Invite note shortened to the LinkedIn limit', context);
+  }
+  return note.trim();
+};
+
+/**
+ * Resolves the reply text for a comment: manual templates when AI is off, the
+ * non-connected template for commenters outside the network, otherwise an AI
+ * generated reply.
+ */
+const resolveReplyText = async (
+  comment: Comment,
+  postState: PostState,
+  stepContext: Record<string, unknown>
+): Promise<string | null> => {
+  const aiConfig = getConfig();
+
+  const ruleTemplate = getRuleReplyTemplate(comment);
+  if (ruleTemplate) {
+    logger.info('Using trigger rule reply template', {
+      ...stepContext,
+      ruleId: comment.trigger?.ruleId,
+    });
+    return renderTemplate(
+      ruleTemplate,
+      buildTemplateContext(comment, postState)
+    );
+  }
+
+  if (aiConfig.aiEnabled !== false && comment.connected === false) {
+    logger.info('Using non-connected AI reply template', {
+      ...stepContext,
+      mode: getModeLabel(aiConfig),
+    });
+    return renderTemplate(
+      aiConfig.reply?.nonConnectedPrompt ||
+        "Thanks for your comment! I'd love to connect first.",
+      buildTemplateContext(comment, postState)
+    );
+  }
+
+  return generateReply(comment, postState);
+};
+
+// Replies already posted on the post, which a new reply must not repeat
+const getPostedReplies = (postState: PostState, comment: Comment): string[] =>
+  postState.comments.flatMap((c) =>
+    c !== comment && c.replyStatus === 'DONE' && c.pipeline.generatedReply
+      ? [c.pipeline.generatedReply]
+      : []
+  );
+
+/**
+ * Checks an AI reply draft against the guardrails and requests new drafts,
+ * telling the model what was wrong, until one passes or the regenerations run
+ * out. Templates, including those of trigger rules, are sent as written.
+ * @returns The last draft and the guardrails it still fails.
+ */
+const applyReplyGuardrails = async (
+  comment: Comment,
+  postState: PostState,
+  draft: string | null,
+  stepContext: Record<string, unknown>
+): Promise<{ text: string | null; violations: string[] }> => {
+  const aiConfig = getConfig();
+  const guardrails = aiConfig.replyGuardrails;
+  if (
+    !guardrails?.enabled ||
+    aiConfig.aiEnabled === false ||
+    comment.connected === false ||
+    getRuleReplyTemplate(comment)
+  ) {
+    return { text: draft, violations: [] };
+  }
+
+  const postedReplies = getPostedReplies(postState, comment);
+  let text = draft;
+  for (let attempt = 0; ; attempt++) {
+    if (text === null || text === SKIP_REPLY) return { text, violations: [] };
+    const violations = checkReplyGuardrails(text, guardrails, postedReplies);
+    if (violations.length === 0) return { text, violations };
+
+    logger.warn('Reply draft failed guardrails', {
+      ...stepContext,
+      attempt,
+      violations,
+    });
+    if (attempt >= guardrails.maxRegenerations) return { text, violations };
+    comment.pipeline.structured = undefined;
+    text = await generateReply(
+      comment,
+      postState,
+      `This earlier draft of the reply was rejected:\n'${text}'\nProblems: ${violations.join('; ')}.\nWrite a new reply without these problems.`
+    );
+  }
+};
+
+/**
+ * Opens a commenter's profile in a new active tab and waits until the page is
+ * ready for script injection. The tab is closed again if it never becomes ready.
+ */
+const openProfileTab = async (
+  profileUrl: string,
+  stepContext: Record<string, unknown>
+): Promise<number> => {
+  logger.debug('Creating new active tab for profile visit...', stepContext);
+  const tab = await chrome.tabs.create({
+    url: profileUrl,
+    active: true, // Make the tab active to ensure scripts can run reliably
+  });
+  const profileTabId = tab.id;
+  if (!profileTabId) {
+    throw new Error('Failed to create a new tab for connection check.');
+  }
+  logger.debug('Created tab for connection check', {
+    ...stepContext,
+    connectionTabId: profileTabId,
+  });
+  await recordQuotaAction('profileVisit');
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        chrome.tabs.onUpdated.removeListener(listener);
+        reject(new Error('Tab loading timed out after 45 seconds.'));
+      }, 45000);
+
+      const listener = (
+        tabId: number,
+        changeInfo: chrome.tabs.TabChangeInfo,
+        _tab: chrome.tabs.Tab
+      ) => {
+        if (
+          tabId === profileTabId &&
+          (changeInfo.status === 'complete' ||
+            (changeInfo.status === 'interactive' &&
+              !_tab.url?.startsWith('chrome://')))
+        ) {
+          logger.debug('Tab reported ready state', {
+            ...stepContext,
+            status: changeInfo.status,
+          });
+          clearTimeout(timeout);
+          chrome.tabs.onUpdated.removeListener(listener);
+          resolve();
+        }
+      };
+      chrome.tabs.onUpdated.addListener(listener);
+    });
+  } catch (error) {
+    await closeProfileTab(profileTabId, stepContext);
+    throw error;
+  }
+
+  return profileTabId;
+};
+
+/**
+ * Closes a profile tab opened by `openProfileTab` and returns focus to the
+ * pipeline tab.
+ */
+const closeProfileTab = async (
+  profileTabId: number,
+  stepContext: Record<string, unknown>
+): Promise<void> => {
+  logger.debug('Closing profile tab.', {
+    ...stepContext,
+    tabId: profileTabId,
+  });
+  try {
+    await chrome.tabs.remove(profileTabId);
+  } catch (e) {
+    logger.warn('Failed to close profile tab, it may already be closed.', {
+      ...stepContext,
+      tabId: profileTabId,
+      error: (e as Error).message,
+    });
+  }
+  // Switch focus back to the original tab for a better user experience
+  if (activeTabId) {
+    try {
+      await chrome.tabs.update(activeTabId, { active: true });
+      logger.debug('Focus returned to original pipeline tab.', {
+        tabId: activeTabId,
+      });
+    } catch (e) {
+      logger.warn(
+        'Failed to return focus to original tab, it may have been closed.',
+        { tabId: activeTabId, error: (e as Error).message }
+      );
+    }
+  }
+};
+
+/**
+ * Sends a DM from an already opened profile tab by clicking "Message",
+ * filling the chat box and clicking "Send". The whole sequence is retried.
+ */
+const sendDmInProfileTab = async (
+  tabId: number,
+  dmText: string,
+  stepContext: Record<string, unknown>
+): Promise<void> => {
+  const sendDmSequence = async () => {
+    // Wait for page to be fully loaded before attempting to close chat windows
+    logger.debug(
+      'Waiting for page to load before closing chat windows...',
+      stepContext
+    );
+    await new Promise((resolve) => {
+      const checkPageReady = () => {
+        chrome.scripting
+          .executeScript({
+            target: { tabId },
+            func: () =>
+              document.readyState === 'complete' &&
+              document.body &&
+              document.querySelector('main'),
+          })
+          .then((results) => {
+            if (results && results[0]?.result) {
+              resolve(void 0);
+            } else {
+              setTimeout(checkPageReady, 500);
+            }
+          })
+          .catch(() => setTimeout(checkPageReady, 500));
+      };
+      checkPageReady();
+    });
+
+    logger.debug(
+      'Injecting script to close any open chat windows...',
+      stepContext
+    );
+    const preCloseResults = await chrome.scripting.executeScript({
+      target: { tabId },
+      func: () => {
+        // Wait for elements to be fully rendered
+        const waitForElements = () => {
+          return new Promise<void>((resolve) => {
+            const checkElements = () => {
+              const buttons = document.querySelectorAll('button');
+              if (buttons.length > 0) {
+                resolve();
+              } else {
+                setTimeout(checkElements, 100);
+              }
+            };
+            checkElements();
+          });
+        };
+
+        return waitForElements().then(() => {
+          // Multiple selector strategies for close buttons
+          // Target specific conversation close buttons with multiple criteria
+          let closeButtons: NodeListOf<Element> | Element[] =
+            document.querySelectorAll(
+              'button.msg-overlay-bubble-header__control.artdeco-button--circle'
+            );
+          closeButtons = Array.from(closeButtons).filter((btn) => {
+            const textContent =
+              btn.textContent ||
+              (btn as HTMLElement).innerText ||
+              '';
+            const hasCloseIcon =
+              btn.querySelector(
+                'svg[data-test-icon="close-small"]'
+              ) !== null;
+            const hasConversationText = textContent.includes(
+              'Close your conversation with'
+            );
+
+            // Only click if it has both the close icon and conversation text
+            return hasCloseIcon && hasConversationText;
+          });
+
+          let closedCount = 0;
+          closeButtons.forEach((btn) => {
+            try {
+              // Ensure button is visible and clickable
+              const element = btn as HTMLElement;
+              if (
+                element.offsetParent !== null &&
+                !element.hasAttribute('disabled')
+              ) {
+                element.click();
+                closedCount++;
+              }
+            } catch (e) {
+              console.warn('Failed to click close button:', e);
+            }
+          });
+
+          return { closedCount };
+        });
+      },
+    });
+    logger.debug(
+      `Closed ${preCloseResults[0]?.result?.closedCount || 0} pre-existing chat windows.`,
+      stepContext
+    );
+    await new Promise((r) => setTimeout(r, 500));
+
+    logger.debug(
+      'Injecting script to click "Message" button...',
+      stepContext
+    );
+    const clickResults = await chrome.scripting.executeScript({
+      target: { tabId },
+      func: () => {
+        const buttons = Array.from(
+          document.querySelectorAll('button')
+        );
+        const messageButton = buttons.find((btn) => {
+          const text = (
+            btn.textContent ||
+            btn.innerText ||
+            ''
+          ).trim();
+          const ariaLabel = btn.getAttribute('aria-label') || '';
+          return (
+            text === 'Message' ||
+            /^Message[ ]+[a-zA-Z]+/i.test(ariaLabel)
+          );
+        });
+        if (messageButton) {
+          (messageButton as HTMLElement).click();
+          return { success: true };
+        }
+        return {
+          success: false,
+          error: 'Message button not found',
+        };
+      },
+    });
+    if (!clickResults || !clickResults[0]?.result?.success)
+      throw new Error(
+        `Failed to click Message button: ${clickResults[0]?.result?.error || 'Unknown error'}`
+      );
+    logger.debug(
+      '"Message" button clicked. Waiting for chat popup...',
+      stepContext
+    );
+    await new Promise((r) => setTimeout(r, 2000));
+
+    logger.debug(
+      'Injecting script to fill DM textbox...',
+      stepContext
+    );
+    const fillResults = await chrome.scripting.executeScript({
+      target: { tabId },
+      args: [dmText],
+      func: (textToFill: string) => {
+        const textbox = document.querySelector(
+          'div[role="textbox"][aria-label*="Write a message"]'
+        );
+        if (textbox) {
+          textbox.innerHTML = `<p>${textToFill}</p>`;
+          textbox.dispatchEvent(
+            new Event('input', { bubbles: true })
+          );
+          return { success: true };
+        }
+        return {
+          success: false,
+          error: 'Message textbox not found',
+        };
+      },
+    });
+    if (!fillResults || !fillResults[0]?.result?.success)
+      throw new Error(
+        `Failed to fill DM textbox: ${fillResults[0]?.result?.error || 'Unknown error'}`
+      );
+    logger.debug(
+      'DM textbox filled. Waiting before sending...',
+      stepContext
+    );
+    await new Promise((r) => setTimeout(r, 500));
+
+    logger.debug(
+      'Injecting script to click "Send" button...',
+      stepContext
+    );
+    const sendResults = await chrome.scripting.executeScript<
+      any[],
+      {
+        success: boolean;
+        error?: string;
+        availableButtons?: unknown[];
+      }
+    >({
+      target: { tabId },
+      func: () => {
+        const sendButton =
+          Array.from(document.querySelectorAll('button')).find(
+            (btn) =>
+              (btn.textContent || btn.innerText || '').trim() ===
+              'Send'
+          ) ||
+          Array.from(document.querySelectorAll('button')).find(
+            (btn) =>
+              (btn.getAttribute('aria-label') || '')
+                .toLowerCase()
+                .includes('send')
+          ) ||
+          document.querySelector(
+            'button[data-control-name*="send"]'
+          ) ||
+          Array.from(document.querySelectorAll('button')).find(
+            (btn) => btn.className.toLowerCase().includes('send')
+          );
+
+        if (sendButton) {
+          if ((sendButton as HTMLElement).offsetParent === null)
+            return {
+              success: false,
+              error: 'Send button is not visible',
+            };
+          if ((sendButton as HTMLButtonElement).disabled)
+            return {
+              success: false,
+              error: 'Send button is disabled',
+            };
+          (sendButton as HTMLElement).click();
+          return { success: true };
+        }
+
+        const allButtons = Array.from(
+          document.querySelectorAll('button')
+        ).map((btn) => ({
+          text: (btn.textContent || btn.innerText || '').trim(),
+          ariaLabel: btn.getAttribute('aria-label'),
+          className: btn.className,
+          disabled: (btn as HTMLButtonElement).disabled,
+          visible: (btn as HTMLElement).offsetParent !== null,
+        }));
+        return {
+          success: false,
+          error: 'Send button not found',
+          availableButtons: allButtons.slice(0, 10),
+        };
+      },
+    });
+
+    const sendResult = sendResults?.[0]?.result as
+      | {
+          success: boolean;
+          error?: string;
+          availableButtons?: unknown[];
+        }
+      | undefined;
+    if (!sendResult || !sendResult.success) {
+      logger.error('Send button script failed.', {
+        ...stepContext,
+        result: sendResult,
+      });
+      throw new Error(
+        `Failed to click Send button: ${sendResult?.error || 'Unknown error'}`
+      );
+    }
+
+    await new Promise((r) => setTimeout(r, 1000));
+
+    // Wait for page to be ready before closing chat windows after sending
+    logger.debug(
+      'Waiting for page to be ready before closing chat windows after sending...',
+      stepContext
+    );
+    await new Promise((resolve) => {
+      const checkPageReady = () => {
+        chrome.scripting
+          .executeScript({
+            target: { tabId },
+            func: () =>
+              document.readyState === 'complete' && document.body,
+          })
+          .then((results) => {
+            if (results && results[0]?.result) {
+              resolve(void 0);
+            } else {
+              setTimeout(checkPageReady, 300);
+            }
+          })
+          .catch(() => setTimeout(checkPageReady, 300));
+      };
+      checkPageReady();
+    });
+
+    logger.debug(
+      'Injecting script to close chat window after sending...',
+      stepContext
+    );
+    const postCloseResults = await chrome.scripting.executeScript({
+      target: { tabId },
+      func: () => {
+        // Wait for elements to be fully rendered after sending
+        const waitForElements = () => {
+          return new Promise<void>((resolve) => {
+            const checkElements = () => {
+              const buttons = document.querySelectorAll('button');
+              if (buttons.length > 0) {
+                resolve();
+              } else {
+                setTimeout(checkElements, 100);
+              }
+            };
+            checkElements();
+          });
+        };
+
+        return waitForElements().then(() => {
+          // Target specific conversation close buttons with multiple criteria
+          let closeButtons: NodeListOf<Element> | Element[] =
+            document.querySelectorAll(
+              'button.msg-overlay-bubble-header__control.artdeco-button--circle'
+            );
+          closeButtons = Array.from(closeButtons).filter((btn) => {
+            const textContent =
+              btn.textContent ||
+              (btn as HTMLElement).innerText ||
+              '';
+            const hasCloseIcon =
+              btn.querySelector(
+                'svg[data-test-icon="close-small"]'
+              ) !== null;
+            const hasConversationText = textContent.includes(
+              'Close your conversation with'
+            );
+
+            // Only click if it has both the close icon and conversation text
+            return hasCloseIcon && hasConversationText;
+          });
+
+          let closedCount = 0;
+          closeButtons.forEach((btn) => {
+            try {
+              // Ensure button is visible and clickable
+              const element = btn as HTMLElement;
+              if (
+                element.offsetParent !== null &&
+                !element.hasAttribute('disabled')
+              ) {
+                element.click();
+                closedCount++;
+              }
+            } catch (e) {
+              console.warn('Failed to click close button:', e);
+            }
+          });
+
+          return { closedCount };
+        });
+      },
+    });
+    logger.debug(
+      `Closed ${postCloseResults[0]?.result?.closedCount || 0} chat windows post-send.`,
+      stepContext
+    );
+  };
+
+  await retryAsyncFunction(sendDmSequence, {
+    maxRetries: MAX_RETRIES,
+    initialDelay: INITIAL_DELAY,
+    onRetry: (error, attempt) =>
+      logger.warn(
+        `Send DM sequence attempt ${attempt}/${MAX_RETRIES} failed`,
+        { ...stepContext, error: error.message }
+      ),
+  });
+};
+
+interface ProfilePageResult {
+  connected: boolean;
+  profile: Omit<ProfileSnapshot, 'capturedAt'>;
+}
+
+/**
+ * Injected into a commenter's profile tab. Reads the connection distance and a
+ * snapshot of the profile header. Runs in the page, so it must not use
+ * anything from this module.
+ */
+const readProfilePage = (): ProfilePageResult => {
+  const readText = (selector: string): string | undefined =>
+    document.querySelector<HTMLElement>(selector)?.innerText.trim() ||
+    undefined;
+
+  const distanceBadge = document.querySelector(
+    'span.distance-badge .dist-value'
+  );
+
+  // The top card links the current company as "Current company: Acme. Click to…"
+  const companyLabel = document
+    .querySelector('button[aria-label^="Current company"]')
+    ?.getAttribute('aria-label');
+  const company = companyLabel
+    ?.replace(/^Current company:\s*/, '')
+    .split('. Click')[0]
+    .trim();
+
+  const role = readText(
+    '#experience ~ .pvs-list__outer-container li .t-bold span[aria-hidden="true"]'
+  );
+
+  // "12 mutual connections" or "Jane Doe, John Roe and 10 other mutual connections"
+  const mutualText = Array.from(
+    document.querySelectorAll<HTMLElement>('a[href*="facetNetwork"]')
+  )
+    .map((el) => el.innerText)
+    .find((text) => /mutual connection/i.test(text));
+  let mutualConnections: number | undefined;
+  if (mutualText) {
+    const others = mutualText.match(/and (\d+) other mutual/i);
+    const total = mutualText.match(/(\d+) mutual connection/i);
+    const names = mutualText.split(/ and |, /).length - 1;
+    if (others) {
+      mutualConnections = Number(others[1]) + names;
+    } else if (total) {
+      mutualConnections = Number(total[1]);
+    } else {
+      mutualConnections = names + 1;
+    }
+  }
+
+  return {
+    connected: distanceBadge?.textContent?.trim() === '1st',
+    profile: {
+      name: readText('h1'),
+      headline: readText('.text-body-medium.break-words'),
+      company: company || undefined,
+      role,
+      location: readText('.text-body-small.inline.t-black--light.break-words'),
+      mutualConnections,
+    },
+  };
+};
+
+type InviteOutcome = 'sent' | 'pending' | 'unavailable';
+
+/**
+ * Injected into a commenter's profile tab. Clicks Connect, from the "More"
+ * menu when the profile does not show it directly, and sends the invitation
+ * with the note, if any. Runs in the page, so it must not use anything from
+ * this module.
+ */
+const clickConnectOnProfile = async (note: string): Promise<InviteOutcome> => {
+  const wait = (ms: number) =>
+    new Promise((resolve) => setTimeout(resolve, ms));
+  const isConnectAction = (el: Element): boolean =>
+    /^Invite .+ to connect$/i.test(el.getAttribute('aria-label') || '') ||
+    el.textContent?.trim() === 'Connect';
+  // The top card holds the actions for the profile owner
+  const topCard = document.querySelector('main section') ?? document.body;
+  const buttons = Array.from(topCard.querySelectorAll<HTMLElement>('button'));
+
+  if (
+    buttons.some((b) => /^Pending\b/i.test(b.getAttribute('aria-label') || ''))
+  ) {
+    return 'pending';
+  }
+  let connect = buttons.find(isConnectAction);
+  if (!connect) {
+    const more = buttons.find(
+      (b) =>
+        b.getAttribute('aria-label') === 'More actions' ||
+        b.textContent?.trim() === 'More'
+    );
+    if (!more) return 'unavailable';
+    more.click();
+    await wait(800);
+    connect = Array.from(
+      document.querySelectorAll<HTMLElement>(
+        '.artdeco-dropdown__content [role="button"]'
+      )
+    ).find(isConnectAction);
+    if (!connect) return 'unavailable';
+  }
+  connect.click();
+  await wait(1500);
+
+  if (note) {
+    const addNote = document.querySelector<HTMLElement>(
+      'button[aria-label="Add a note"]'
+    );
+    if (!addNote) return 'unavailable';
+    addNote.click();
+    await wait(800);
+    const textarea = document.querySelector<HTMLTextAreaElement>(
+      'textarea[name="message"], #custom-message'
+    );
+    if (!textarea) return 'unavailable';
+    textarea.focus();
+    textarea.value = note;
+    textarea.dispatchEvent(new Event('input', { bubbles: true }));
+    await wait(500);
+  }
+
+  const send = document.querySelector<HTMLButtonElement>(
+    note
+      ? 'button[aria-label="Send invitation"], button[aria-label="Send now"]'
+      : 'button[aria-label="Send without a note"], button[aria-label="Send now"]'
+  );
+  // Some profiles ask for the member's email address before inviting
+  if (!send || send.disabled) return 'unavailable';
+  send.click();
+  await wait(1500);
+  return 'sent';
+};
+
+const COOLDOWN_STATUS_KEYS: Record<
+  ContactAction,
+  'likeStatus' | 'replyStatus' | 'dmStatus' | 'inviteStatus'
+> = {
+  like: 'likeStatus',
+  reply: 'replyStatus',
+  dm: 'dmStatus',
+  invite: 'inviteStatus',
+};
+
+const COOLDOWN_LABELS: Record<ContactAction, string> = {
+  like: 'Like skipped: liked a comment by this person',
+  reply: 'Reply skipped: replied to this person',
+  dm: 'DM skipped: messaged this person',
+  invite: 'Connection request skipped: invited this person',
+};
+
+/**
+ * Skips an action when the contact registry shows the same action for the
+ * same person within its cool-down, on this post or another.
+ * @returns true if the action was skipped.
+ */
+const skipForCooldown = (
+  comment: Comment,
+  action: ContactAction,
+  stepContext: Record<string, unknown>
+): boolean => {
+  const previous = findContactCooldown(comment.ownerProfileUrl, action);
+  if (!previous) return false;
+  comment[COOLDOWN_STATUS_KEYS[action]] = 'SKIPPED';
+  comment.lastError = `${COOLDOWN_LABELS[action]} on ${previous.at.slice(0, 10)}, within the cool-down.`;
+  logger.info('Action skipped for contact cool-down', {
+    ...stepContext,
+    action,
+    previousAt: previous.at,
+    previousPostUrn: previous.postUrn,
+  });
+  return true;
+};
+
+/**
+ * Sends a connection request from an open profile tab, with a note when the
+ * invite settings ask for one. Approval mode sends it too, as the request is
+ * not a draft the review queue holds.
+ */
+const sendInvite = async (
+  comment: Comment,
+  postState: PostState,
+  profileTabId: number,
+  stepContext: Record<string, unknown>
+): Promise<void> => {
+  const context = {
+    ...stepContext,
+    step: 'INVITE',
+    ruleId: comment.trigger?.ruleId,
+  };
+  if (skipForCooldown(comment, 'invite', context)) return;
+  comment.attempts.invite = (comment.attempts.invite ?? 0) + 1;
+  try {
+    const note = await generateInviteNote(comment, postState);
+    comment.pipeline.inviteNote = note || undefined;
+    if (activeRunMode === 'dry-run') {
+      recordSimulatedAction({
+        type: 'invite',
+        commentId: comment.commentId,
+        profileUrl: comment.ownerProfileUrl,
+        text: note || undefined,
+      });
+      comment.inviteStatus = 'DONE';
+      comment.pipeline.invitedAt = new Date().toISOString();
+      return;
+    }
+    const [injection] = await chrome.scripting.executeScript({
+      target: { tabId: profileTabId },
+      func: clickConnectOnProfile,
+      args: [note],
+    });
+    const outcome = injection?.result as InviteOutcome | undefined;
+    await checkForRestriction(profileTabId, context);
+    if (outcome === 'sent') {
+      await recordQuotaAction('invite');
+      await recordContactAction(comment, 'invite', postState._meta.postId);
+      comment.inviteStatus = 'DONE';
+      comment.pipeline.invitedAt = new Date().toISOString();
+      logger.info('Connection request sent', {
+        ...context,
+        withNote: !!note,
+      });
+    } else {
+      comment.inviteStatus = 'SKIPPED';
+      comment.lastError =
+        outcome === 'pending'
+          ? 'Connection request already pending.'
+          : 'Connect is not available on this profile.';
+      logger.info('Connection request not sent', { ...context, outcome });
+    }
+  } catch (error) {
+    // Left pending so the note is written again on resume
+    if (isGenerationCancelled(error)) {
+      logger.info('Invite note generation cancelled by pause', context);
+      return;
+    }
+    logger.error('Failed to send connection request', error, context);
+    comment.inviteStatus = 'FAILED';
+    comment.lastError = (error as Error).message;
+  }
+};
+
 const processComment = async (
   comment: Comment,
   postState: PostState
@@ -361,8 +2068,25 @@ const processComment = async (
     dmStatus: comment.dmStatus,
   });
   try {
+    // Trigger rules decide the drafts, so they are checked before any of them
+    if (comment.trigger === undefined) {
+      try {
+        comment.trigger = await evaluateTriggerRules(comment, postState, {
+          ...context,
+          step: 'TRIGGER_RULES',
+        });
+      } catch (error) {
+        // Left unchecked so the rules are evaluated again on resume
+        if (isGenerationCancelled(error)) return;
+        logger.warn('Failed to evaluate trigger rules', {
+          ...context,
+          error: (error as Error).message,
+        });
+      }
+    }
+
     // STEP 1: Check connection status and send DM if connected
-    if (typeof comment.connected === 'undefined') {
+    if (needsProfileStep(comment)) {
       const stepContext = { ...context, step: 'CONNECTION_AND_DM_CHECK' };
       logger.info(
         'Attempting to check connection status and potentially send DM',
@@ -373,51 +2097,13 @@ const processComment = async (
       );
       let connectionTabId: number | undefined;
       try {
-        logger.debug(
-          'Creating new active tab for profile visit...',
+        connectionTabId = await openProfileTab(
+          comment.ownerProfileUrl,
           stepContext
         );
-        const tab = await chrome.tabs.create({
-          url: comment.ownerProfileUrl,
-          active: true, // Make the tab active to ensure scripts can run reliably
-        });
-        connectionTabId = tab.id;
-        if (!connectionTabId) {
-          throw new Error('Failed to create a new tab for connection check.');
+        if (await checkForRestriction(connectionTabId, stepContext)) {
+          throw new Error('LinkedIn restriction detected on the profile page.');
         }
-        logger.debug('Created tab for connection check', {
-          ...stepContext,
-          connectionTabId,
-        });
-
-        await new Promise<void>((resolve, reject) => {
-          const timeout = setTimeout(() => {
-            chrome.tabs.onUpdated.removeListener(listener);
-            reject(new Error('Tab loading timed out after 45 seconds.'));
-          }, 45000);
-
-          const listener = (
-            tabId: number,
-            changeInfo: chrome.tabs.TabChangeInfo,
-            _tab: chrome.tabs.Tab
-          ) => {
-            if (
-              tabId === connectionTabId &&
-              (changeInfo.status === 'complete' ||
-                (changeInfo.status === 'interactive' &&
-                  !_tab.url?.startsWith('chrome://')))
-            ) {
-              logger.debug('Tab reported ready state', {
-                ...stepContext,
-                status: changeInfo.status,
-              });
-              clearTimeout(timeout);
-              chrome.tabs.onUpdated.removeListener(listener);
-              resolve();
-            }
-          };
-          chrome.tabs.onUpdated.addListener(listener);
-        });
 
         logger.debug(
           'Injecting script to check connection status...',
@@ -425,24 +2111,54 @@ const processComment = async (
         );
         const injectionResults = await chrome.scripting.executeScript({
           target: { tabId: connectionTabId },
-          func: () => {
-            const distanceBadge = document.querySelector(
-              'span.distance-badge .dist-value'
-            );
-            return !!(
-              distanceBadge && distanceBadge.textContent?.trim() === '1st'
-            );
-          },
+          func: readProfilePage,
         });
 
         if (injectionResults && injectionResults.length > 0) {
-          comment.connected = injectionResults[0].result as boolean;
+          const { connected, profile } = injectionResults[0]
+            .result as ProfilePageResult;
+          comment.connected = connected;
+          comment.profile = {
+            ...profile,
+            capturedAt: new Date().toISOString(),
+          };
           logger.info('Connection status determined successfully', {
             ...stepContext,
             connected: comment.connected,
+            profileFields: Object.keys(profile),
           });
+          // Headline entries can only match now that the profile is known
+          comment.profileRule = findProfileRule(comment) ?? undefined;
 
-          if (comment.connected) {
+          // The degree shown on the comment may have been missing
+          const connectionSkip = checkConnectionFilter(
+            comment,
+            getConfig().commentFilters
+          );
+
+          if (comment.profileRule?.list === 'block') {
+            blockComment(comment, comment.profileRule);
+            logger.info('Commenter is on the block list, skipping', {
+              ...stepContext,
+              ruleId: comment.profileRule.ruleId,
+            });
+          } else if (connectionSkip) {
+            excludeComment(comment, `Filtered: ${connectionSkip.reason}`);
+            comment.filtered = connectionSkip;
+            logger.info('Commenter is not a 1st-degree connection, skipping', {
+              ...stepContext,
+            });
+          } else if (comment.connected && !activeSteps.dm) {
+            // Left pending so a later run with DMs enabled picks it up
+            logger.info('DM step is disabled for this run, skipping DM.', {
+              ...stepContext,
+            });
+          } else if (
+            comment.connected &&
+            skipForCooldown(comment, 'dm', stepContext)
+          ) {
+            // Marked as skipped; the person was messaged from another comment
+          } else if (comment.connected) {
             logger.info(
               'User is a 1st-degree connection. Attempting to send DM.',
               { ...stepContext }
@@ -451,391 +2167,63 @@ const processComment = async (
               logger.debug('Generating DM text...', stepContext);
               const dmText = await generateDm(comment, postState);
               if (!dmText) throw new Error('AI DM generation failed.');
-              comment.pipeline.generatedDm = dmText;
-              logger.debug('DM text generated successfully', {
-                ...stepContext,
-                dmLength: dmText.length,
-              });
-
-              const sendDmInTab = async () => {
-                // Wait for page to be fully loaded before attempting to close chat windows
-                logger.debug(
-                  'Waiting for page to load before closing chat windows...',
-                  stepContext
-                );
-                await new Promise((resolve) => {
-                  const checkPageReady = () => {
-                    chrome.scripting
-                      .executeScript({
-                        target: { tabId: connectionTabId! },
-                        func: () =>
-                          document.readyState === 'complete' &&
-                          document.body &&
-                          document.querySelector('main'),
-                      })
-                      .then((results) => {
-                        if (results && results[0]?.result) {
-                          resolve(void 0);
-                        } else {
-                          setTimeout(checkPageReady, 500);
-                        }
-                      })
-                      .catch(() => setTimeout(checkPageReady, 500));
-                  };
-                  checkPageReady();
+              if (dmText === SKIP_REPLY) {
+                logger.info('AI requested to skip comment, skipping DM', {
+                  ...stepContext,
                 });
-
-                logger.debug(
-                  'Injecting script to close any open chat windows...',
-                  stepContext
-                );
-                const preCloseResults = await chrome.scripting.executeScript({
-                  target: { tabId: connectionTabId! },
-                  func: () => {
-                    // Wait for elements to be fully rendered
-                    const waitForElements = () => {
-                      return new Promise<void>((resolve) => {
-                        const checkElements = () => {
-                          const buttons = document.querySelectorAll('button');
-                          if (buttons.length > 0) {
-                            resolve();
-                          } else {
-                            setTimeout(checkElements, 100);
-                          }
-                        };
-                        checkElements();
-                      });
-                    };
-
-                    return waitForElements().then(() => {
-                      // Multiple selector strategies for close buttons
-                      // Target specific conversation close buttons with multiple criteria
-                      let closeButtons: NodeListOf<Element> | Element[] =
-                        document.querySelectorAll(
-                          'button.msg-overlay-bubble-header__control.artdeco-button--circle'
-                        );
-                      closeButtons = Array.from(closeButtons).filter((btn) => {
-                        const textContent =
-                          btn.textContent ||
-                          (btn as HTMLElement).innerText ||
-                          '';
-                        const hasCloseIcon =
-                          btn.querySelector(
-                            'svg[data-test-icon="close-small"]'
-                          ) !== null;
-                        const hasConversationText = textContent.includes(
-                          'Close your conversation with'
-                        );
-
-                        // Only click if it has both the close icon and conversation text
-                        return hasCloseIcon && hasConversationText;
-                      });
-
-                      let closedCount = 0;
-                      closeButtons.forEach((btn) => {
-                        try {
-                          // Ensure button is visible and clickable
-                          const element = btn as HTMLElement;
-                          if (
-                            element.offsetParent !== null &&
-                            !element.hasAttribute('disabled')
-                          ) {
-                            element.click();
-                            closedCount++;
-                          }
-                        } catch (e) {
-                          console.warn('Failed to click close button:', e);
-                        }
-                      });
-
-                      return { closedCount };
-                    });
-                  },
+                comment.dmStatus = 'SKIPPED';
+                comment.lastError = describeAiSkip(comment);
+              } else {
+                comment.pipeline.generatedDm = dmText;
+                logger.debug('DM text generated successfully', {
+                  ...stepContext,
+                  dmLength: dmText.length,
                 });
-                logger.debug(
-                  `Closed ${preCloseResults[0]?.result?.closedCount || 0} pre-existing chat windows.`,
-                  stepContext
-                );
-                await new Promise((r) => setTimeout(r, 500));
 
-                logger.debug(
-                  'Injecting script to click "Message" button...',
-                  stepContext
-                );
-                const clickResults = await chrome.scripting.executeScript({
-                  target: { tabId: connectionTabId! },
-                  func: () => {
-                    const buttons = Array.from(
-                      document.querySelectorAll('button')
-                    );
-                    const messageButton = buttons.find((btn) => {
-                      const text = (
-                        btn.textContent ||
-                        btn.innerText ||
-                        ''
-                      ).trim();
-                      const ariaLabel = btn.getAttribute('aria-label') || '';
-                      return (
-                        text === 'Message' ||
-                        /^Message[ ]+[a-zA-Z]+/i.test(ariaLabel)
-                      );
-                    });
-                    if (messageButton) {
-                      (messageButton as HTMLElement).click();
-                      return { success: true };
-                    }
-                    return {
-                      success: false,
-                      error: 'Message button not found',
-                    };
-                  },
-                });
-                if (!clickResults || !clickResults[0]?.result?.success)
-                  throw new Error(
-                    `Failed to click Message button: ${clickResults[0]?.result?.error || 'Unknown error'}`
+                if (activeRunMode === 'approval') {
+                  comment.pipeline.dmReview = 'PENDING';
+                  logger.info('DM draft parked for review', stepContext);
+                } else if (activeRunMode === 'dry-run') {
+                  recordSimulatedAction({
+                    type: 'dm',
+                    commentId: comment.commentId,
+                    profileUrl: comment.ownerProfileUrl,
+                    text: dmText,
+                  });
+                  comment.dmStatus = 'DONE';
+                  comment.pipeline.dmAt = new Date().toISOString();
+                } else {
+                  await sendDmInProfileTab(
+                    connectionTabId,
+                    dmText,
+                    stepContext
                   );
-                logger.debug(
-                  '"Message" button clicked. Waiting for chat popup...',
-                  stepContext
-                );
-                await new Promise((r) => setTimeout(r, 2000));
-
-                logger.debug(
-                  'Injecting script to fill DM textbox...',
-                  stepContext
-                );
-                const fillResults = await chrome.scripting.executeScript({
-                  target: { tabId: connectionTabId! },
-                  args: [dmText],
-                  func: (textToFill: string) => {
-                    const textbox = document.querySelector(
-                      'div[role="textbox"][aria-label*="Write a message"]'
-                    );
-                    if (textbox) {
-                      textbox.innerHTML = `<p>${textToFill}</p>`;
-                      textbox.dispatchEvent(
-                        new Event('input', { bubbles: true })
-                      );
-                      return { success: true };
-                    }
-                    return {
-                      success: false,
-                      error: 'Message textbox not found',
-                    };
-                  },
-                });
-                if (!fillResults || !fillResults[0]?.result?.success)
-                  throw new Error(
-                    `Failed to fill DM textbox: ${fillResults[0]?.result?.error || 'Unknown error'}`
+                  await recordQuotaAction('dm');
+                  await recordContactAction(
+                    comment,
+                    'dm',
+                    postState._meta.postId
                   );
-                logger.debug(
-                  'DM textbox filled. Waiting before sending...',
-                  stepContext
-                );
-                await new Promise((r) => setTimeout(r, 500));
-
-                logger.debug(
-                  'Injecting script to click "Send" button...',
-                  stepContext
-                );
-                const sendResults = await chrome.scripting.executeScript<
-                  any[],
-                  {
-                    success: boolean;
-                    error?: string;
-                    availableButtons?: unknown[];
-                  }
-                >({
-                  target: { tabId: connectionTabId! },
-                  func: () => {
-                    const sendButton =
-                      Array.from(document.querySelectorAll('button')).find(
-                        (btn) =>
-                          (btn.textContent || btn.innerText || '').trim() ===
-                          'Send'
-                      ) ||
-                      Array.from(document.querySelectorAll('button')).find(
-                        (btn) =>
-                          (btn.getAttribute('aria-label') || '')
-                            .toLowerCase()
-                            .includes('send')
-                      ) ||
-                      document.querySelector(
-                        'button[data-control-name*="send"]'
-                      ) ||
-                      Array.from(document.querySelectorAll('button')).find(
-                        (btn) => btn.className.toLowerCase().includes('send')
-                      );
-
-                    if (sendButton) {
-                      if ((sendButton as HTMLElement).offsetParent === null)
-                        return {
-                          success: false,
-                          error: 'Send button is not visible',
-                        };
-                      if ((sendButton as HTMLButtonElement).disabled)
-                        return {
-                          success: false,
-                          error: 'Send button is disabled',
-                        };
-                      (sendButton as HTMLElement).click();
-                      return { success: true };
-                    }
-
-                    const allButtons = Array.from(
-                      document.querySelectorAll('button')
-                    ).map((btn) => ({
-                      text: (btn.textContent || btn.innerText || '').trim(),
-                      ariaLabel: btn.getAttribute('aria-label'),
-                      className: btn.className,
-                      disabled: (btn as HTMLButtonElement).disabled,
-                      visible: (btn as HTMLElement).offsetParent !== null,
-                    }));
-                    return {
-                      success: false,
-                      error: 'Send button not found',
-                      availableButtons: allButtons.slice(0, 10),
-                    };
-                  },
-                });
 
-                const sendResult = sendResults?.[0]?.result as
-                  | {
-                      success: boolean;
-                      error?: string;
-                      availableButtons?: unknown[];
-                    }
-                  | undefined;
-                if (!sendResult || !sendResult.success) {
-                  logger.error('Send button script failed.', {
+                  comment.dmStatus = 'DONE';
+                  comment.pipeline.dmAt = new Date().toISOString();
+                  logger.info('DM sent successfully from profile page', {
                     ...stepContext,
-                    result: sendResult,
                   });
-                  throw new Error(
-                    `Failed to click Send button: ${sendResult?.error || 'Unknown error'}`
-                  );
                 }
-
-                await new Promise((r) => setTimeout(r, 1000));
-
-                // Wait for page to be ready before closing chat windows after sending
-                logger.debug(
-                  'Waiting for page to be ready before closing chat windows after sending...',
-                  stepContext
-                );
-                await new Promise((resolve) => {
-                  const checkPageReady = () => {
-                    chrome.scripting
-                      .executeScript({
-                        target: { tabId: connectionTabId! },
-                        func: () =>
-                          document.readyState === 'complete' && document.body,
-                      })
-                      .then((results) => {
-                        if (results && results[0]?.result) {
-                          resolve(void 0);
-                        } else {
-                          setTimeout(checkPageReady, 300);
-                        }
-                      })
-                      .catch(() => setTimeout(checkPageReady, 300));
-                  };
-                  checkPageReady();
-                });
-
-                logger.debug(
-                  'Injecting script to close chat window after sending...',
-                  stepContext
-                );
-                const postCloseResults = await chrome.scripting.executeScript({
-                  target: { tabId: connectionTabId! },
-                  func: () => {
-                    // Wait for elements to be fully rendered after sending
-                    const waitForElements = () => {
-                      return new Promise<void>((resolve) => {
-                        const checkElements = () => {
-                          const buttons = document.querySelectorAll('button');
-                          if (buttons.length > 0) {
-                            resolve();
-                          } else {
-                            setTimeout(checkElements, 100);
-                          }
-                        };
-                        checkElements();
-                      });
-                    };
-
-                    return waitForElements().then(() => {
-                      // Target specific conversation close buttons with multiple criteria
-                      let closeButtons: NodeListOf<Element> | Element[] =
-                        document.querySelectorAll(
-                          'button.msg-overlay-bubble-header__control.artdeco-button--circle'
-                        );
-                      closeButtons = Array.from(closeButtons).filter((btn) => {
-                        const textContent =
-                          btn.textContent ||
-                          (btn as HTMLElement).innerText ||
-                          '';
-                        const hasCloseIcon =
-                          btn.querySelector(
-                            'svg[data-test-icon="close-small"]'
-                          ) !== null;
-                        const hasConversationText = textContent.includes(
-                          'Close your conversation with'
-                        );
-
-                        // Only click if it has both the close icon and conversation text
-                        return hasCloseIcon && hasConversationText;
-                      });
-
-                      let closedCount = 0;
-                      closeButtons.forEach((btn) => {
-                        try {
-                          // Ensure button is visible and clickable
-                          const element = btn as HTMLElement;
-                          if (
-                            element.offsetParent !== null &&
-                            !element.hasAttribute('disabled')
-                          ) {
-                            element.click();
-                            closedCount++;
-                          }
-                        } catch (e) {
-                          console.warn('Failed to click close button:', e);
-                        }
-                      });
-
-                      return { closedCount };
-                    });
-                  },
-                });
-                logger.debug(
-                  `Closed ${postCloseResults[0]?.result?.closedCount || 0} chat windows post-send.`,
-                  stepContext
-                );
-              };
-
-              await retryAsyncFunction(sendDmInTab, {
-                maxRetries: MAX_RETRIES,
-                initialDelay: INITIAL_DELAY,
-                onRetry: (error, attempt) =>
-                  logger.warn(
-                    `Send DM sequence attempt ${attempt}/${MAX_RETRIES} failed`,
-                    { ...stepContext, error: error.message }
-                  ),
-              });
-
-              comment.dmStatus = 'DONE';
-              comment.pipeline.dmAt = new Date().toISOString();
-              logger.info('DM sent successfully from profile page', {
-                ...stepContext,
-              });
+              }
             } catch (dmError) {
-              logger.error('Failed to send DM from profile page', dmError, {
-                ...stepContext,
-              });
-              comment.dmStatus = 'FAILED';
-              comment.lastError = (dmError as Error).message;
+              if (isGenerationCancelled(dmError)) {
+                // Left pending so the DM is written again on resume
+                logger.info('DM generation cancelled by pause', stepContext);
+              } else {
+                logger.error('Failed to send DM from profile page', dmError, {
+                  ...stepContext,
+                });
+                await checkForRestriction(connectionTabId, stepContext);
+                comment.dmStatus = 'FAILED';
+                comment.lastError = (dmError as Error).message;
+              }
             }
           } else {
             logger.info('User is not a 1st-degree connection. Skipping DM.', {
@@ -843,6 +2231,14 @@ const processComment = async (
             });
             comment.dmStatus = 'DONE';
             comment.lastError = 'DM skipped: Not a 1st-degree connection.';
+            if (needsInvite(comment)) {
+              await sendInvite(
+                comment,
+                postState,
+                connectionTabId,
+                stepContext
+              );
+            }
           }
         } else {
           throw new Error('Script injection failed for connection check.');
@@ -853,32 +2249,16 @@ const processComment = async (
         });
         comment.connected = false;
         comment.dmStatus = 'FAILED';
+        // Not invited blindly; retrying the failed steps checks the profile again
+        if (needsInvite(comment)) comment.inviteStatus = 'FAILED';
         comment.lastError = (error as Error).message;
       } finally {
         if (connectionTabId) {
-          logger.debug('Closing profile tab.', {
-            ...stepContext,
-            tabId: connectionTabId,
-          });
-          await chrome.tabs.remove(connectionTabId);
-        }
-        // Switch focus back to the original tab for a better user experience
-        if (activeTabId) {
-          try {
-            await chrome.tabs.update(activeTabId, { active: true });
-            logger.debug('Focus returned to original pipeline tab.', {
-              tabId: activeTabId,
-            });
-          } catch (e) {
-            logger.warn(
-              'Failed to return focus to original tab, it may have been closed.',
-              { tabId: activeTabId, error: (e as Error).message }
-            );
-          }
+          await closeProfileTab(connectionTabId, stepContext);
         }
       }
 
-      await savePostState(activePostUrn!, postState);
+      await saveWorkingState(postState);
       broadcastState({
         pipelineStatus,
         postUrn: activePostUrn ?? undefined,
@@ -886,8 +2266,67 @@ const processComment = async (
       });
     }
 
+    // STATE: DM APPROVED -> DM SENT (approval mode only)
+    if (
+      activeSteps.dm &&
+      comment.dmStatus === '' &&
+      comment.pipeline.dmReview === 'APPROVED' &&
+      comment.pipeline.generatedDm
+    ) {
+      const stepContext = { ...context, step: 'APPROVED_DM_SEND' };
+      logger.info('Sending approved DM draft', stepContext);
+      let profileTabId: number | undefined;
+      try {
+        profileTabId = await openProfileTab(
+          comment.ownerProfileUrl,
+          stepContext
+        );
+        if (await checkForRestriction(profileTabId, stepContext)) {
+          throw new Error('LinkedIn restriction detected on the profile page.');
+        }
+        await sendDmInProfileTab(
+          profileTabId,
+          comment.pipeline.generatedDm,
+          stepContext
+        );
+        await recordQuotaAction('dm');
+        await recordContactAction(comment, 'dm', postState._meta.postId);
+        comment.dmStatus = 'DONE';
+        comment.pipeline.dmAt = new Date().toISOString();
+        logger.info('Approved DM sent successfully', stepContext);
+      } catch (error) {
+        logger.error('Failed to send approved DM', error, stepContext);
+        if (profileTabId) await checkForRestriction(profileTabId, stepContext);
+        comment.dmStatus = 'FAILED';
+        comment.lastError = (error as Error).message;
+      } finally {
+        if (profileTabId) {
+          await closeProfileTab(profileTabId, stepContext);
+        }
+      }
+      await saveWorkingState(postState);
+      broadcastState({ pipelineStatus, comments: postState.comments });
+    }
+
     // STATE: QUEUED -> LIKED
-    if (comment.likeStatus === '') {
+    // A structured draft picks the reaction
+    if (activeSteps.like && comment.likeStatus === '') {
+      await prepareStructuredDraft(comment, postState, context);
+      // Stopped while the draft was generated, or the AI cannot be used
+      if (pipelineStatus !== 'running' || fatalAiError) return;
+    }
+    const structured = comment.pipeline.structured;
+    const reaction = structured?.skip
+      ? 'none'
+      : (structured?.reaction ?? 'like');
+    if (activeSteps.like && comment.likeStatus === '' && reaction === 'none') {
+      logger.info('AI chose no reaction, skipping like', context);
+      comment.likeStatus = 'SKIPPED';
+    }
+    if (activeSteps.like && comment.likeStatus === '') {
+      skipForCooldown(comment, 'like', context);
+    }
+    if (activeSteps.like && comment.likeStatus === '') {
       const stepContext = { ...context, step: 'LIKE_ATTEMPT' };
       logger.info('Attempting to like comment', stepContext);
       if (!activeTabId)
@@ -895,28 +2334,38 @@ const processComment = async (
       comment.attempts.like = 0;
 
       try {
-        await retryAsyncFunction(
-          async () => {
-            comment.attempts.like++;
-            const likeSuccess = await sendMessageToTab<boolean>(activeTabId!, {
-              type: 'LIKE_COMMENT',
-              payload: { commentId: comment.commentId },
-            });
-            if (!likeSuccess)
-              throw new Error(
-                `Content script failed to like comment ${comment.commentId}`
+        if (activeRunMode === 'dry-run') {
+          recordSimulatedAction({ type: 'like', commentId: comment.commentId });
+        } else {
+          await retryAsyncFunction(
+            async () => {
+              comment.attempts.like++;
+              const likeSuccess = await sendMessageToTab<boolean>(
+                activeTabId!,
+                {
+                  type: 'LIKE_COMMENT',
+                  payload: { commentId: comment.commentId, reaction },
+                }
               );
-          },
-          {
-            maxRetries: MAX_RETRIES,
-            initialDelay: INITIAL_DELAY,
-            onRetry: (error, attempt) =>
-              logger.warn(`Like attempt ${attempt}/${MAX_RETRIES} failed`, {
-                ...stepContext,
-                error: error.message,
-              }),
-          }
-        );
+              if (!likeSuccess)
+                throw new Error(
+                  `Content script failed to like comment ${comment.commentId}`
+                );
+            },
+            {
+              maxRetries: MAX_RETRIES,
+              initialDelay: INITIAL_DELAY,
+              onRetry: (error, attempt) =>
+                logger.warn(`Like attempt ${attempt}/${MAX_RETRIES} failed`, {
+                  ...stepContext,
+                  error: error.message,
+                }),
+              isRetryable: stopOnRestriction(activeTabId, stepContext),
+            }
+          );
+          await recordQuotaAction('like');
+          await recordContactAction(comment, 'like', postState._meta.postId);
+        }
         comment.likeStatus = 'DONE';
         comment.pipeline.likedAt = new Date().toISOString();
         logger.info('Comment liked successfully', {
@@ -931,43 +2380,99 @@ const processComment = async (
         comment.likeStatus = 'FAILED';
         comment.lastError = (error as Error).message;
       }
-      await savePostState(activePostUrn!, postState);
+      await saveWorkingState(postState);
       broadcastState({ pipelineStatus, comments: postState.comments });
     }
 
     // STATE: LIKED -> REPLIED
-    if (comment.replyStatus === '') {
+    // A reviewer's approval overrides the cool-down
+    if (
+      activeSteps.reply &&
+      comment.replyStatus === '' &&
+      !comment.pipeline.replyReview
+    ) {
+      skipForCooldown(comment, 'reply', context);
+    }
+    if (
+      activeSteps.reply &&
+      comment.replyStatus === '' &&
+      comment.pipeline.replyReview !== 'PENDING'
+    ) {
       const stepContext = { ...context, step: 'REPLY_ATTEMPT' };
       logger.info('Attempting to reply to comment', stepContext);
       comment.attempts.reply = 0;
 
       try {
-        const aiConfig = getConfig();
-        let replyText: string | null;
-
-        if (aiConfig.aiEnabled === false) {
-          replyText = await generateReply(comment, postState);
-        } else if (comment.connected === false) {
-          replyText =
-            aiConfig.reply?.nonConnectedPrompt ||
-            "Thanks for your comment! I'd love to connect first.";
-          logger.info('Using non-connected AI reply template', {
-            ...stepContext,
-            mode: getModeLabel(aiConfig),
-          });
-        } else {
-          replyText = await generateReply(comment, postState);
-        }
+        const isApproved =
+          comment.pipeline.replyReview === 'APPROVED' &&
+          !!comment.pipeline.generatedReply;
+        // An approved draft was checked by the reviewer
+        const { text: replyText, violations } = isApproved
+          ? { text: comment.pipeline.generatedReply!, violations: [] }
+          : await applyReplyGuardrails(
+              comment,
+              postState,
+              await resolveReplyText(comment, postState, stepContext),
+              stepContext
+            );
 
         if (replyText === null)
           throw new Error('Reply generation failed for current comment.');
 
-        if (replyText === '__SKIP__') {
+        if (replyText === SKIP_REPLY) {
           logger.info('AI requested to skip comment, skipping reply', {
             ...context,
           });
           comment.replyStatus = 'DONE';
-          comment.lastError = 'Skipped by AI';
+          comment.lastError = describeAiSkip(comment);
+          comment.pipeline.repliedAt = new Date().toISOString();
+          if (activeRunMode === 'dry-run') {
+            recordSimulatedAction({
+              type: 'skip',
+              commentId: comment.commentId,
+              reason: comment.lastError,
+            });
+          }
+        } else if (violations.length > 0) {
+          comment.pipeline.generatedReply = replyText;
+          comment.pipeline.guardrailViolations = violations;
+          if (
+            activeRunMode !== 'dry-run' &&
+            getConfig().replyGuardrails?.onFailure === 'review'
+          ) {
+            comment.pipeline.replyReview = 'PENDING';
+            logger.warn('Reply draft failed guardrails, parked for review', {
+              ...stepContext,
+              violations,
+            });
+          } else {
+            comment.replyStatus = 'SKIPPED';
+            comment.lastError = `Reply failed guardrails: ${violations.join('; ')}`;
+            logger.warn('Reply draft failed guardrails, skipping reply', {
+              ...stepContext,
+              violations,
+            });
+            if (activeRunMode === 'dry-run') {
+              recordSimulatedAction({
+                type: 'skip',
+                commentId: comment.commentId,
+                reason: comment.lastError,
+              });
+            }
+          }
+        } else if (activeRunMode === 'dry-run') {
+          comment.pipeline.generatedReply = replyText;
+          recordSimulatedAction({
+            type: 'reply',
+            commentId: comment.commentId,
+            text: replyText,
+          });
+          comment.replyStatus = 'DONE';
+          comment.pipeline.repliedAt = new Date().toISOString();
+        } else if (activeRunMode === 'approval' && !isApproved) {
+          comment.pipeline.generatedReply = replyText;
+          comment.pipeline.replyReview = 'PENDING';
+          logger.info('Reply draft parked for review', stepContext);
         } else {
           comment.pipeline.generatedReply = replyText;
           if (!activeTabId)
@@ -996,12 +2501,15 @@ const processComment = async (
                   ...stepContext,
                   error: error.message,
                 }),
+              isRetryable: stopOnRestriction(activeTabId, stepContext),
             }
           );
+          await recordQuotaAction('reply');
+          await recordContactAction(comment, 'reply', postState._meta.postId);
           comment.replyStatus = 'DONE';
+          comment.pipeline.repliedAt = new Date().toISOString();
           logger.info('Comment replied to successfully', { ...context });
         }
-        comment.pipeline.repliedAt = new Date().toISOString();
         const updatedStats = calculateCommentStats(
           (postState.comments || []).map((c) => ({
             type: c.type,
@@ -1012,14 +2520,19 @@ const processComment = async (
         );
         broadcastState({ stats: updatedStats });
       } catch (error) {
-        logger.error('Failed to reply to comment', error, {
-          ...context,
-          step: 'REPLY_FAILED_FINAL',
-        });
-        comment.replyStatus = 'FAILED';
-        comment.lastError = (error as Error).message;
+        if (isGenerationCancelled(error)) {
+          // Left pending so the reply is written again on resume
+          logger.info('Reply generation cancelled by pause', stepContext);
+        } else {
+          logger.error('Failed to reply to comment', error, {
+            ...context,
+            step: 'REPLY_FAILED_FINAL',
+          });
+          comment.replyStatus = 'FAILED';
+          comment.lastError = (error as Error).message;
+        }
       }
-      await savePostState(activePostUrn!, postState);
+      await saveWorkingState(postState);
       broadcastState({ pipelineStatus, comments: postState.comments });
     }
   } catch (error) {
@@ -1028,17 +2541,89 @@ const processComment = async (
       error,
       context
     );
-    if (comment.likeStatus === '') comment.likeStatus = 'FAILED';
-    else if (comment.replyStatus === '') comment.replyStatus = 'FAILED';
+    if (activeSteps.like && comment.likeStatus === '')
+      comment.likeStatus = 'FAILED';
+    else if (activeSteps.reply && comment.replyStatus === '')
+      comment.replyStatus = 'FAILED';
     comment.lastError = `Unexpected error: ${(error as Error).message}`;
-    await savePostState(activePostUrn!, postState);
+    await saveWorkingState(postState);
     broadcastState({ pipelineStatus, comments: postState.comments });
   }
 };
 
+/**
+ * Stops the run until the user resumes it. Used by the circuit breaker when
+ * LinkedIn pushes back, where an automatic resume would make things worse.
+ */
+const haltPipeline = async (reason: string): Promise<void> => {
+  if (pipelineStatus !== 'running' || !activePostUrn) return;
+
+  logger.warn('Circuit breaker tripped, halting pipeline', {
+    postUrn: activePostUrn,
+    reason,
+    consecutiveFailures,
+    restriction: detectedRestriction,
+  });
+  pipelineStatus = 'halted';
+  const postState = getPostState(activePostUrn);
+  if (postState) {
+    postState._meta.runState = 'halted';
+    postState._meta.pauseReason = reason;
+    postState._meta.resumeAt = undefined;
+    await savePostState(activePostUrn, postState);
+  }
+  await clearSession();
+  broadcastState({
+    pipelineStatus: 'halted',
+    delayCountdownMs: null,
+    pauseReason: reason,
+    resumeAt: null,
+  });
+};
+
+/**
+ * Updates the run of failed steps in a row with the outcome of one comment.
+ * Steps are counted in the order they are processed; any success resets it.
+ */
+const trackStepOutcomes = (
+  before: Record<CommentStep, ActionStatus>,
+  comment: Comment
+) => {
+  (['dm', 'like', 'reply'] as CommentStep[]).forEach((step) => {
+    const status = comment[STEP_STATUS_KEYS[step]];
+    if (status === before[step]) return;
+    if (status === 'FAILED') consecutiveFailures++;
+    else if (status === 'DONE') consecutiveFailures = 0;
+  });
+};
+
+/**
+ * Halts the run when LinkedIn showed a restriction signal or too many steps
+ * failed in a row.
+ * @returns true if the run was halted.
+ */
+const tripCircuitBreaker = async (): Promise<boolean> => {
+  if (fatalAiError) {
+    await haltPipeline(`ai:${fatalAiError.kind}`);
+    return true;
+  }
+  if (detectedRestriction) {
+    await haltPipeline(`restriction:${detectedRestriction.kind}`);
+    return true;
+  }
+  const maxFailures = getConfig().maxConsecutiveFailures ?? 0;
+  if (maxFailures > 0 && consecutiveFailures >= maxFailures) {
+    await haltPipeline('consecutive-failures');
+    return true;
+  }
+  return false;
+};
+
 const processQueue = async (): Promise<void> => {
   if (isProcessing) return;
   isProcessing = true;
+  const runPostUrn = activePostUrn;
+  let completed = false;
   logger.info('Starting processing queue.', { postUrn: activePostUrn });
 
   while (pipelineStatus === 'running') {
@@ -1047,65 +2632,118 @@ const processQueue = async (): Promise<void> => {
       break;
     }
 
-    const postState = getPostState(activePostUrn);
-    if (!postState) {
+    const storedState = getPostState(activePostUrn);
+    if (!storedState) {
       pipelineStatus = 'error';
       break;
     }
+    const postState = getWorkingState(storedState);
+    const nextComment = findNextComment(postState);
 
-    const completedReplies = postState.comments.filter(
-      (c) => c.replyStatus === 'DONE'
-    ).length;
-    const totalComments = postState.comments.length;
-
-    // Stop when all available comments have been processed
-    if (completedReplies >= totalComments) {
-      logger.info(
-        'All available comments have been processed. Stopping pipeline.',
-        { completedReplies, totalComments }
-      );
+    if (!nextComment) {
+      logger.info('All comments have been processed.', {
+        postUrn: activePostUrn,
+        pendingReviews: countPendingReviews(postState),
+      });
       pipelineStatus = 'idle';
+      completed = true;
       break;
     }
 
-    const nextComment = findNextComment(postState);
+    if (activeTabId) {
+      await checkForRestriction(activeTabId, { postUrn: activePostUrn });
+    }
+    if (await tripCircuitBreaker()) break;
 
-    if (!nextComment) {
-      logger.info('All comments have been processed.', {
+    const budget = getConfig().costBudgetUsd ?? 0;
+    const postCost = storedState._meta.usage?.costUsd ?? 0;
+    if (budget > 0 && postCost >= budget) {
+      logger.warn('AI cost budget reached, pausing pipeline', {
         postUrn: activePostUrn,
+        budget,
+        postCost,
       });
-      pipelineStatus = 'idle';
+      await stopPipeline('cost-budget');
       break;
     }
 
+    const quotaBlock = findQuotaBlock(getPlannedActions(nextComment));
+    if (quotaBlock) {
+      logger.warn('Action quota reached, pausing pipeline', {
+        postUrn: activePostUrn,
+        ...quotaBlock,
+        resumeAt: new Date(quotaBlock.resumeAt).toISOString(),
+      });
+      await pauseUntil(
+        `quota:${quotaBlock.action}:${quotaBlock.window}`,
+        quotaBlock.resumeAt
+      );
+      break;
+    }
+
+    const statusesBefore = {
+      like: nextComment.likeStatus,
+      reply: nextComment.replyStatus,
+      dm: nextComment.dmStatus,
+    };
     await processComment(nextComment, postState);
+    trackStepOutcomes(statusesBefore, nextComment);
     if (pipelineStatus !== 'running') {
       logger.info('Pipeline status changed, skipping configured delay.', {
         pipelineStatus,
       });
       break;
     }
+    if (await tripCircuitBreaker()) break;
     const aiConfig = getConfig();
-    await waitForConfiguredDelay(aiConfig);
+    const delayMs = await waitForConfiguredDelay(aiConfig);
+    if (activeRunMode === 'dry-run' && delayMs > 0) {
+      recordSimulatedAction({ type: 'wait', delayMs });
+    }
   }
 
   isProcessing = false;
   logger.info('Processing loop ended.', { finalStatus: pipelineStatus });
+  await clearSession();
   if (activePostUrn) {
     const finalPostState = getPostState(activePostUrn);
     if (finalPostState) finalPostState._meta.runState = pipelineStatus;
+    if (finalPostState?.simulation && activeRunMode === 'dry-run') {
+      if (pipelineStatus === 'idle') {
+        finalPostState.simulation.finishedAt = new Date().toISOString();
+      }
+      logger.info('Dry run finished.', {
+        postUrn: activePostUrn,
+        simulatedActions: finalPostState.simulation.actions.length,
+      });
+    }
+    // Persist the final run state so a restarted worker does not resume it
+    if (finalPostState) await savePostState(activePostUrn, finalPostState);
     broadcastState({
       pipelineStatus,
-      comments: finalPostState?.comments,
+      comments: finalPostState
+        ? getWorkingState(finalPostState).comments
+        : undefined,
       delayCountdownMs: null,
     });
   }
+  if (runPostUrn) {
+    runEndListener?.(
+      runPostUrn,
+      pipelineStatus,
+      completed,
+      getPostState(runPostUrn)?._meta.resumeAt
+    );
+  }
 };
 
 export const startPipeline = async (
   postUrn: string,
   tabId: number,
-  maxComments?: number
+  maxComments?: number,
+  runMode: RunMode = 'auto',
+  steps?: Partial<PipelineSteps>,
+  ordering: CommentOrdering = 'capture'
 ): Promise<void> => {
   if (pipelineStatus !== 'idle') {
     logger.warn('Pipeline cannot be started', {
@@ -1145,13 +2783,16 @@ export const startPipeline = async (
         const newPostState: PostState = {
           _meta: {
             postId: postUrn,
-            postUrl: `https://www.linkedin.com/feed/update/${postUrn}`,
+            postUrl: buildPostUrl(postUrn),
             runState: 'idle',
             lastUpdated: new Date().toISOString(),
             userProfileUrl: response.userProfileUrl || '',
           },
           comments: normalizedComments,
         };
+        if (response.postContent) {
+          applyPostContent(newPostState, response.postContent);
+        }
         await savePostState(postUrn, newPostState);
         postState = newPostState;
         const stats = calculateCommentStats(
@@ -1177,37 +2818,169 @@ export const startPipeline = async (
     return;
   }
 
+  await ensurePostContent(tabId, postState);
+
+  if (runMode === 'dry-run') {
+    const aiConfig = getConfig();
+    postState.simulation = {
+      startedAt: new Date().toISOString(),
+      settings: {
+        aiEnabled: aiConfig.aiEnabled !== false,
+        model: aiConfig.model,
+        minDelay: aiConfig.minDelay,
+        maxDelay: aiConfig.maxDelay,
+      },
+      comments: structuredClone(postState.comments),
+      actions: [],
+    };
+    logger.info('Starting dry run. No actions will be published.', {
+      postUrn,
+    });
+  }
+  applyProfileLists(getWorkingState(postState).comments, postUrn);
+  await applyCommentFilters(getWorkingState(postState).comments, postUrn);
+
   pipelineStatus = 'running';
   activePostUrn = postUrn;
   activeTabId = tabId;
+  activeRunMode = runMode;
+  activeSteps = resolvePipelineSteps(steps);
+  detectedRestriction = null;
+  fatalAiError = null;
+  consecutiveFailures = 0;
+  runUsage = createUsageTotals();
   postState._meta.runState = 'running';
+  postState._meta.runMode = runMode;
+  postState._meta.steps = activeSteps;
+  postState._meta.ordering = ordering;
+  postState._meta.pauseReason = undefined;
+  postState._meta.resumeAt = undefined;
   await savePostState(postUrn, postState);
+  await chrome.alarms.clear(`${AUTO_RESUME_ALARM_PREFIX}${postUrn}`);
+  await persistSession();
 
   broadcastState({
     pipelineStatus: 'running',
-    comments: postState.comments,
+    comments: getWorkingState(postState).comments,
     postUrn: activePostUrn,
+    postAuthor: postState._meta.author,
+    postTimestamp: postState._meta.timestamp,
+    runUsage,
+    postUsage: postState._meta.usage ?? null,
     delayCountdownMs: null,
+    runMode,
+    steps: activeSteps,
+    ordering,
+    pauseReason: null,
+    resumeAt: null,
   });
+  if (await deferRunIfGuarded()) return;
+  await applyCommentOrdering(postState);
   processQueue();
 };
 
-export const stopPipeline = async (): Promise<void> => {
+export const stopPipeline = async (reason?: string): Promise<void> => {
   if (pipelineStatus !== 'running') return;
   if (!activePostUrn) {
     pipelineStatus = 'error';
     return;
   }
 
-  logger.info('Stopping pipeline...', { postUrn: activePostUrn });
+  logger.info('Stopping pipeline...', { postUrn: activePostUrn, reason });
   pipelineStatus = 'paused';
+  generationAbort?.abort();
 
   const postState = getPostState(activePostUrn);
   if (postState) {
     postState._meta.runState = 'paused';
+    postState._meta.pauseReason = reason;
     await savePostState(activePostUrn, postState);
   }
-  broadcastState({ pipelineStatus: 'paused', delayCountdownMs: null });
+  await clearSession();
+  broadcastState({
+    pipelineStatus: 'paused',
+    delayCountdownMs: null,
+    pauseReason: reason ?? null,
+  });
+};
+
+/**
+ * Pauses the running pipeline and arms an alarm that resumes the post at
+ * `resumeAt`, e.g. once an action quota frees up or quiet hours end.
+ */
+export const pauseUntil = async (
+  reason: string,
+  resumeAt: number
+): Promise<void> => {
+  const postUrn = activePostUrn;
+  if (pipelineStatus !== 'running' || !postUrn) return;
+
+  const resumeAtIso = new Date(resumeAt).toISOString();
+  const postState = getPostState(postUrn);
+  if (postState) postState._meta.resumeAt = resumeAtIso;
+  await stopPipeline(reason);
+  chrome.alarms.create(`${AUTO_RESUME_ALARM_PREFIX}${postUrn}`, {
+    when: resumeAt,
+  });
+  logger.info('Pipeline will resume automatically', {
+    postUrn,
+    reason,
+    resumeAt: resumeAtIso,
+  });
+  broadcastState({ resumeAt: resumeAtIso });
+};
+
+/**
+ * Parks a run that was just started or resumed while the run guard holds it
+ * back, so it continues by itself once allowed.
+ * @returns Whether the run was parked.
+ */
+const deferRunIfGuarded = async (): Promise<boolean> => {
+  const deferral = runGuard();
+  if (!deferral) return false;
+  logger.info('Run is not allowed yet, parking it', {
+    postUrn: activePostUrn,
+    reason: deferral.reason,
+  });
+  await pauseUntil(deferral.reason, deferral.resumeAt);
+  return true;
+};
+
+const handleAutoResumeAlarm = async (
+  alarm: chrome.alarms.Alarm
+): Promise<void> => {
+  const postUrn = alarm.name.slice(AUTO_RESUME_ALARM_PREFIX.length);
+  const postState = getPostState(postUrn) ?? (await loadPostState(postUrn));
+  // Skip if the user resumed, reset or restarted the post in the meantime
+  if (
+    !postState ||
+    postState._meta.runState !== 'paused' ||
+    !postState._meta.resumeAt
+  ) {
+    return;
+  }
+
+  const retryAt = runGuard()?.resumeAt;
+  if (retryAt) {
+    const retryAtIso = new Date(retryAt).toISOString();
+    postState._meta.resumeAt = retryAtIso;
+    await savePostState(postUrn, postState);
+    chrome.alarms.create(alarm.name, { when: retryAt });
+    logger.info('Automatic resume deferred', { postUrn, retryAt: retryAtIso });
+    broadcastState({ resumeAt: retryAtIso });
+    return;
+  }
+
+  logger.info('Resuming pipeline automatically', {
+    postUrn,
+    pauseReason: postState._meta.pauseReason,
+  });
+  // The worker may have restarted since the pause and lost the tab
+  const tabId = await resolvePostTab(
+    postUrn,
+    activePostUrn === postUrn ? activeTabId : null
+  );
+  await resumePipeline(postUrn, tabId);
 };
 
 export const resumePipeline = async (
@@ -1232,25 +3005,48 @@ export const resumePipeline = async (
 
   activePostUrn = targetUrn;
   if (tabId) activeTabId = tabId;
+  activeRunMode = postState._meta.runMode ?? 'auto';
+  activeSteps = resolvePipelineSteps(postState._meta.steps);
+  applyProfileLists(getWorkingState(postState).comments, targetUrn);
+  await applyCommentFilters(getWorkingState(postState).comments, targetUrn);
+  detectedRestriction = null;
+  fatalAiError = null;
+  consecutiveFailures = 0;
+  runUsage = createUsageTotals();
   pipelineStatus = 'running';
   postState._meta.runState = 'running';
+  postState._meta.pauseReason = undefined;
+  postState._meta.resumeAt = undefined;
   await savePostState(activePostUrn, postState);
+  await chrome.alarms.clear(`${AUTO_RESUME_ALARM_PREFIX}${activePostUrn}`);
+  await persistSession();
 
   broadcastState({
     pipelineStatus: 'running',
     postUrn: activePostUrn,
-    comments: postState.comments,
+    comments: getWorkingState(postState).comments,
+    runUsage,
+    postUsage: postState._meta.usage ?? null,
     delayCountdownMs: null,
+    runMode: activeRunMode,
+    steps: activeSteps,
+    ordering: postState._meta.ordering ?? 'capture',
+    pauseReason: null,
+    resumeAt: null,
   });
+  if (await deferRunIfGuarded()) return;
+  await applyCommentOrdering(postState);
   processQueue();
 };
 
 export const resetPipeline = async (postUrn?: string): Promise<void> => {
   if (!postUrn || postUrn === activePostUrn) {
+    generationAbort?.abort();
     pipelineStatus = 'idle';
     activePostUrn = null;
     activeTabId = null;
     isProcessing = false;
+    await clearSession();
   }
   broadcastState({
     pipelineStatus: 'idle',
@@ -1259,6 +3055,522 @@ export const resetPipeline = async (postUrn?: string): Promise<void> => {
   });
 };
 
+/**
+ * Returns the given tab if it still shows the post. Tab ids do not survive a
+ * browser restart, so otherwise the post is looked up or opened again.
+ */
+const resolvePostTab = async (
+  postUrn: string,
+  tabId: number | null
+): Promise<number> => {
+  if (tabId) {
+    try {
+      const tab = await chrome.tabs.get(tabId);
+      if (getPostUrnFromUrl(tab.url) === postUrn) return tabId;
+    } catch {
+      // The tab is gone; fall through to looking it up by URL
+    }
+  }
+  return ensurePostTab(postUrn);
+};
+
+/**
+ * Picks up a run that was interrupted when Chrome suspended the service
+ * worker or the browser restarted. Runs on every worker start.
+ */
+const restorePipelineSession = async (): Promise<void> => {
+  const result = await chrome.storage.local.get(SESSION_STORAGE_KEY);
+  const session = result?.[SESSION_STORAGE_KEY] as PipelineSession | undefined;
+  if (!session || pipelineStatus !== 'idle') return;
+
+  const context = { postUrn: session.postUrn, tabId: session.tabId };
+  const postState =
+    getPostState(session.postUrn) ?? (await loadPostState(session.postUrn));
+  if (!postState || postState._meta.runState !== 'running') {
+    logger.info('Discarding stale pipeline session', context);
+    await clearSession();
+    return;
+  }
+
+  let tabId: number;
+  try {
+    tabId = await resolvePostTab(session.postUrn, session.tabId);
+  } catch (error) {
+    logger.error('Could not reopen interrupted run, pausing it', error, {
+      ...context,
+    });
+    postState._meta.runState = 'paused';
+    postState._meta.pauseReason = RESTORE_FAILED_PAUSE_REASON;
+    await savePostState(session.postUrn, postState);
+    await clearSession();
+    runEndListener?.(session.postUrn, 'paused', false);
+    return;
+  }
+  // The user may have started another run while the tab was being opened
+  if (pipelineStatus !== 'idle') return;
+
+  pipelineStatus = 'running';
+  activePostUrn = session.postUrn;
+  activeTabId = tabId;
+  activeRunMode = session.runMode;
+  activeSteps = resolvePipelineSteps(session.steps);
+  logger.info('Restoring interrupted pipeline run', {
+    ...context,
+    restoredTabId: tabId,
+    delayUntil: session.delayUntil,
+  });
+  // The lists and filters may have changed while the run was interrupted
+  applyProfileLists(getWorkingState(postState).comments, session.postUrn);
+  await applyCommentFilters(
+    getWorkingState(postState).comments,
+    session.postUrn
+  );
+  await saveWorkingState(getWorkingState(postState));
+  broadcastState({
+    pipelineStatus: 'running',
+    postUrn: activePostUrn,
+    comments: getWorkingState(postState).comments,
+    runMode: activeRunMode,
+    steps: activeSteps,
+    ordering: postState._meta.ordering ?? 'capture',
+    pauseReason: null,
+  });
+
+  const remainingDelay = (session.delayUntil ?? 0) - Date.now();
+  if (remainingDelay > 0) {
+    await waitForDelay(remainingDelay);
+  } else {
+    await persistSession();
+  }
+  if (pipelineStatus === 'running') processQueue();
+};
+
+/**
+ * Applies a reviewer's decision to a parked reply or DM draft. Approving a
+ * draft after the run has finished resumes the pipeline so it gets posted.
+ * @returns The updated comment.
+ */
+export const reviewDraft = async (
+  postUrn: string,
+  commentId: string,
+  draft: DraftKind,
+  action: ReviewAction,
+  text?: string,
+  tabId?: number
+): Promise<Comment> => {
+  const postState = getPostState(postUrn) ?? (await loadPostState(postUrn));
+  if (!postState) {
+    throw new Error(`No saved state found for post ${postUrn}`);
+  }
+  const comment = postState.comments.find((c) => c.commentId === commentId);
+  if (!comment) {
+    throw new Error(`Comment ${commentId} not found on post ${postUrn}`);
+  }
+
+  const context = { postId: postUrn, commentId, draft, action };
+  const textKey = draft === 'reply' ? 'generatedReply' : 'generatedDm';
+  const reviewKey = draft === 'reply' ? 'replyReview' : 'dmReview';
+  const trimmedText = text?.trim();
+
+  switch (action) {
+    case 'approve':
+      if (trimmedText) comment.pipeline[textKey] = trimmedText;
+      if (!comment.pipeline[textKey]) {
+        throw new Error('Cannot approve an empty draft.');
+      }
+      comment.pipeline[reviewKey] = 'APPROVED';
+      break;
+    case 'edit':
+      if (!trimmedText) throw new Error('Edited draft text is empty.');
+      comment.pipeline[textKey] = trimmedText;
+      comment.pipeline[reviewKey] = 'PENDING';
+      if (draft === 'reply') comment.pipeline.guardrailViolations = undefined;
+      break;
+    case 'regenerate': {
+      if (isRunPost(postState)) {
+        throw new Error('Pause the pipeline before regenerating a draft.');
+      }
+      // A structured draft holds both texts; request a fresh one
+      comment.pipeline.structured = undefined;
+      let regenerated: string | null;
+      if (draft === 'reply') {
+        const guarded = await applyReplyGuardrails(
+          comment,
+          postState,
+          await resolveReplyText(comment, postState, context),
+          context
+        );
+        regenerated = guarded.text;
+        comment.pipeline.guardrailViolations =
+          guarded.violations.length > 0 ? guarded.violations : undefined;
+      } else {
+        regenerated = await generateDm(comment, postState);
+      }
+      if (!regenerated || regenerated === SKIP_REPLY) {
+        throw new Error('Failed to regenerate draft.');
+      }
+      comment.pipeline[textKey] = regenerated;
+      comment.pipeline[reviewKey] = 'PENDING';
+      break;
+    }
+    case 'reject':
+      comment.pipeline[reviewKey] = 'REJECTED';
+      if (draft === 'reply') comment.replyStatus = 'SKIPPED';
+      else comment.dmStatus = 'SKIPPED';
+      comment.lastError = `${draft === 'reply' ? 'Reply' : 'DM'} draft rejected during review`;
+      break;
+  }
+  comment.pipeline.reviewedAt = new Date().toISOString();
+  logger.info('Draft review applied', context);
+
+  await savePostState(postUrn, postState);
+  broadcastState({ postUrn, comments: postState.comments });
+
+  if (action === 'approve' && pipelineStatus === 'idle' && tabId) {
+    await resumePipeline(postUrn, tabId);
+  }
+  return comment;
+};
+
+const STEP_STATUS_KEYS: Record<
+  CommentStep,
+  'likeStatus' | 'replyStatus' | 'dmStatus'
+> = {
+  like: 'likeStatus',
+  reply: 'replyStatus',
+  dm: 'dmStatus',
+};
+
+const STEP_TIMESTAMP_KEYS: Record<
+  CommentStep,
+  'likedAt' | 'repliedAt' | 'dmAt'
+> = {
+  like: 'likedAt',
+  reply: 'repliedAt',
+  dm: 'dmAt',
+};
+
+const COMMENT_STEPS: CommentStep[] = ['like', 'reply', 'dm'];
+
+/**
+ * Loads a post for a manual change. Comments of the post that is currently
+ * being processed cannot be changed until the run is paused.
+ * @returns The post state and the comments the change applies to, which are
+ * the simulated copies for a dry run.
+ */
+const loadEditablePost = async (
+  postUrn: string
+): Promise<{ postState: PostState; comments: Comment[] }> => {
+  if (pipelineStatus === 'running' && activePostUrn === postUrn) {
+    throw new Error('Pause the pipeline before changing comments.');
+  }
+  const postState = getPostState(postUrn) ?? (await loadPostState(postUrn));
+  if (!postState) {
+    throw new Error(`No saved state found for post ${postUrn}`);
+  }
+  const isDryRun =
+    postState._meta.runMode === 'dry-run' && !!postState.simulation;
+  return {
+    postState,
+    comments: isDryRun ? postState.simulation!.comments : postState.comments,
+  };
+};
+
+/**
+ * Queues the failed steps of a comment again. A DM that failed because the
+ * profile could not be checked repeats the connection check first.
+ * @returns The number of steps queued again.
+ */
+const requeueFailedSteps = (comment: Comment): number => {
+  let requeued = 0;
+  COMMENT_STEPS.forEach((step) => {
+    const statusKey = STEP_STATUS_KEYS[step];
+    if (comment[statusKey] !== 'FAILED') return;
+    comment[statusKey] = '';
+    comment.attempts[step] = 0;
+    requeued++;
+  });
+  if (comment.inviteStatus === 'FAILED') {
+    comment.inviteStatus = undefined;
+    comment.attempts.invite = 0;
+    requeued++;
+  }
+  if (requeued > 0 && comment.dmStatus === '' && comment.connected === false) {
+    comment.connected = undefined;
+  }
+  if (requeued > 0) comment.lastError = '';
+  return requeued;
+};
+
+/**
+ * Queues one step of a comment again, whatever its outcome was. Drafts for the
+ * step are dropped so a fresh one is generated.
+ */
+const resetCommentStep = (comment: Comment, step: CommentStep) => {
+  comment[STEP_STATUS_KEYS[step]] = '';
+  comment.pipeline[STEP_TIMESTAMP_KEYS[step]] = '';
+  comment.attempts[step] = 0;
+  if (step === 'reply' || step === 'dm') {
+    comment.pipeline.structured = undefined;
+  }
+  if (step === 'reply') {
+    comment.pipeline.generatedReply = undefined;
+    comment.pipeline.replyReview = undefined;
+    comment.pipeline.guardrailViolations = undefined;
+  } else if (step === 'dm') {
+    comment.pipeline.generatedDm = undefined;
+    comment.pipeline.dmReview = undefined;
+    // Check the connection again; it decides whether a DM is sent at all
+    comment.connected = undefined;
+  }
+  comment.lastError = '';
+};
+
+const describeProfileBlock = (match: ProfileRuleMatch): string => {
+  const field =
+    match.field === 'url'
+      ? 'profile URL'
+      : match.field === 'name'
+        ? 'name'
+        : 'headline keyword';
+  return `Blocked by the ${field} "${match.pattern}" on the block list.`;
+};
+
+/**
+ * Skips every open step of a comment, including a connection request that
+ * might be enabled later.
+ */
+const excludeComment = (comment: Comment, reason: string) => {
+  skipComment(comment);
+  comment.inviteStatus ||= 'SKIPPED';
+  comment.lastError = reason;
+};
+
+const blockComment = (comment: Comment, match: ProfileRuleMatch) => {
+  excludeComment(comment, describeProfileBlock(match));
+};
+
+const hasOpenStep = (comment: Comment): boolean =>
+  [comment.likeStatus, comment.replyStatus, comment.dmStatus].some(
+    (status) => status === '' || status === 'FAILED'
+  );
+
+/**
+ * Matches the commenters against the allow and block lists before a run.
+ * Comments whose steps are all settled are left alone.
+ */
+const applyProfileLists = (comments: Comment[], postUrn: string) => {
+  let blocked = 0;
+  let allowed = 0;
+  comments.forEach((comment) => {
+    const match = findProfileRule(comment) ?? undefined;
+    comment.profileRule = match;
+    if (match?.list === 'allow') allowed++;
+    if (match?.list === 'block' && hasOpenStep(comment)) {
+      blockComment(comment, match);
+      blocked++;
+    }
+  });
+  if (blocked > 0 || allowed > 0) {
+    logger.info('Profile lists applied', { postUrn, blocked, allowed });
+  }
+};
+
+/**
+ * Skips the comments failing the comment filters before any AI call is made
+ * for them. A comment the filters skipped stays skipped when they change.
+ */
+const applyCommentFilters = async (comments: Comment[], postUrn: string) => {
+  const filters = getConfig().commentFilters;
+  if (!filters?.enabled) return;
+  const skippedByRule: Record<string, number> = {};
+  for (const comment of comments) {
+    if (comment.filtered || !hasOpenStep(comment)) continue;
+    const skip = await evaluateCommentFilters(comment, filters);
+    if (!skip) continue;
+    excludeComment(comment, `Filtered: ${skip.reason}`);
+    comment.filtered = skip;
+    skippedByRule[skip.rule] = (skippedByRule[skip.rule] ?? 0) + 1;
+    logger.debug('Comment skipped by a filter', {
+      postUrn,
+      commentId: comment.commentId,
+      rule: skip.rule,
+      reason: skip.reason,
+    });
+  }
+  if (Object.keys(skippedByRule).length > 0) {
+    logger.info('Comment filters applied', { postUrn, skippedByRule });
+  }
+};
+
+/**
+ * Asks the AI how relevant the comments not scored yet are, a batch at a
+ * time. Scoring stops at the first failure; comments left without a score
+ * are ranked last.
+ */
+const scoreCommentRelevance = async (
+  comments: Comment[],
+  postState: PostState
+) => {
+  const context = { postId: postState._meta.postId, step: 'SCORE_RELEVANCE' };
+  const unscored = comments.filter((c) => c.relevance === undefined);
+  if (unscored.length === 0) return;
+  const aiConfig = getConfig();
+  if (
+    aiConfig.aiEnabled === false ||
+    (providerRequiresApiKey(aiConfig.provider) && !aiConfig.apiKey)
+  ) {
+    logger.warn('AI is not available, comments are not scored', context);
+    return;
+  }
+
+  for (let start = 0; start < unscored.length; start += RELEVANCE_BATCH_SIZE) {
+    if (pipelineStatus !== 'running') return;
+    const batch = unscored.slice(start, start + RELEVANCE_BATCH_SIZE);
+    try {
+      // The usage of a batch is recorded on its first comment
+      const answer = await requestCompletion(
+        aiConfig,
+        buildRelevancePrompt(postState._meta.postText ?? '', batch),
+        { comment: batch[0], postState, kind: 'score' }
+      );
+      parseRelevanceScores(answer, batch.length).forEach((score, index) => {
+        if (score !== undefined) batch[index].relevance = score;
+      });
+    } catch (error) {
+      if (!isGenerationCancelled(error)) {
+        logger.warn('Failed to score comment relevance', {
+          ...context,
+          error: (error as Error).message,
+        });
+      }
+      return;
+    }
+  }
+  logger.info('Comment relevance scored', {
+    ...context,
+    scored: unscored.filter((c) => c.relevance !== undefined).length,
+  });
+};
+
+/**
+ * Ranks the comments the run still has work for by the post's ordering.
+ * Settled comments lose their rank.
+ */
+const applyCommentOrdering = async (postState: PostState) => {
+  const ordering = postState._meta.ordering ?? 'capture';
+  const { comments } = getWorkingState(postState);
+  const pending = comments.filter(
+    (comment) => hasOpenStep(comment) || needsProfileStep(comment)
+  );
+  comments.forEach((comment) => {
+    if (!pending.includes(comment)) comment.priority = undefined;
+  });
+  if (ordering === 'ai-relevance') {
+    await scoreCommentRelevance(pending, postState);
+  }
+  rankComments(pending, ordering);
+  logger.info('Comments ranked', {
+    postUrn: postState._meta.postId,
+    ordering,
+    ranked: pending.length,
+  });
+  await savePostState(postState._meta.postId, postState);
+  broadcastState({ comments });
+};
+
+const skipComment = (comment: Comment) => {
+  COMMENT_STEPS.forEach((step) => {
+    const statusKey = STEP_STATUS_KEYS[step];
+    if (comment[statusKey] === '' || comment[statusKey] === 'FAILED') {
+      comment[statusKey] = 'SKIPPED';
+    }
+  });
+  if (comment.inviteStatus === 'FAILED' || needsInvite(comment)) {
+    comment.inviteStatus = 'SKIPPED';
+  }
+  if (comment.pipeline.replyReview === 'PENDING') {
+    comment.pipeline.replyReview = 'REJECTED';
+  }
+  if (comment.pipeline.dmReview === 'PENDING') {
+    comment.pipeline.dmReview = 'REJECTED';
+  }
+  comment.lastError = 'Skipped manually';
+};
+
+/**
+ * Queues every failed step of a post again. If no run is active, the post is
+ * resumed in the given tab so the retries happen right away.
+ * @returns The number of steps queued again.
+ */
+export const retryFailedSteps = async (
+  postUrn: string,
+  tabId?: number
+): Promise<number> => {
+  const { postState, comments } = await loadEditablePost(postUrn);
+  const requeued = comments.reduce(
+    (sum, comment) => sum + requeueFailedSteps(comment),
+    0
+  );
+  logger.info('Failed steps queued again', { postUrn, requeued });
+  if (requeued === 0) return 0;
+
+  await savePostState(postUrn, postState);
+  broadcastState({ postUrn, comments });
+  if (pipelineStatus === 'idle' && tabId) {
+    await resumePipeline(postUrn, tabId);
+  }
+  return requeued;
+};
+
+/**
+ * Applies a manual fix to a single comment. Retrying resumes an idle pipeline
+ * in the given tab, like approving a draft does.
+ * @returns The updated comment.
+ */
+export const applyCommentAction = async (
+  postUrn: string,
+  commentId: string,
+  action: CommentAction,
+  step?: CommentStep,
+  tabId?: number
+): Promise<Comment> => {
+  const { postState, comments } = await loadEditablePost(postUrn);
+  const comment = comments.find((c) => c.commentId === commentId);
+  if (!comment) {
+    throw new Error(`Comment ${commentId} not found on post ${postUrn}`);
+  }
+
+  const context = { postId: postUrn, commentId, action, step };
+  let requeued = 0;
+  switch (action) {
+    case 'retry':
+      requeued = requeueFailedSteps(comment);
+      if (requeued === 0) {
+        throw new Error('This comment has no failed steps to retry.');
+      }
+      break;
+    case 'skip':
+      skipComment(comment);
+      break;
+    case 'reset-step':
+      if (!step || !COMMENT_STEPS.includes(step)) {
+        throw new Error('A step to reset is required.');
+      }
+      resetCommentStep(comment, step);
+      break;
+  }
+  logger.info('Comment action applied', context);
+
+  await savePostState(postUrn, postState);
+  broadcastState({ postUrn, comments });
+
+  if (requeued > 0 && pipelineStatus === 'idle' && tabId) {
+    await resumePipeline(postUrn, tabId);
+  }
+  return comment;
+};
+
 export const getPipelineStatus = (): RunState => {
   return pipelineStatus;
 };
@@ -1266,3 +3578,7 @@ export const getPipelineStatus = (): RunState => {
 export const getActiveTabId = (): number | null => {
   return activeTabId;
 };
+
+export const getActivePostUrn = (): string | null => {
+  return activePostUrn;
+};
@@ -0,0 +1,55 @@
+import { buildPostUrl, getPostUrnFromUrl } from '../../shared/linkedin';
+
+const TAB_LOAD_TIMEOUT_MS = 45000;
+// Gives LinkedIn time to render the comment list after the page has loaded
+const POST_SETTLE_DELAY_MS = 5000;
+
+/**
+ * Navigates a tab to a post and waits until LinkedIn has had time to render it.
+ */
+export const navigateTabToPost = async (
+  tabId: number,
+  postUrl: string
+): Promise<void> => {
+  await new Promise<void>((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      chrome.tabs.onUpdated.removeListener(listener);
+      reject(new Error('Post page loading timed out after 45 seconds.'));
+    }, TAB_LOAD_TIMEOUT_MS);
+
+    const listener = (
+      updatedTabId: number,
+      changeInfo: chrome.tabs.TabChangeInfo
+    ) => {
+      if (updatedTabId === tabId && changeInfo.status === 'complete') {
+        clearTimeout(timeout);
+        chrome.tabs.onUpdated.removeListener(listener);
+        resolve();
+      }
+    };
+    chrome.tabs.onUpdated.addListener(listener);
+    chrome.tabs.update(tabId, { url: postUrl }).catch((error) => {
+      clearTimeout(timeout);
+      chrome.tabs.onUpdated.removeListener(listener);
+      reject(error);
+    });
+  });
+  await new Promise((resolve) => setTimeout(resolve, POST_SETTLE_DELAY_MS));
+};
+
+/**
+ * Returns a tab showing the post, reusing an open one when possible.
+ */
+export const ensurePostTab = async (postUrn: string): Promise<number> => {
+  const tabs = await chrome.tabs.query({ url: ['https://www.linkedin.com/*'] });
+  const existing = tabs.find(
+    (tab) =>
+      typeof tab.id === 'number' && getPostUrnFromUrl(tab.url) === postUrn
+  );
+  if (existing?.id) return existing.id;
+
+  const tab = await chrome.tabs.create({ active: true });
+  if (!tab.id) throw new Error('Failed to create a tab for the post.');
+  await navigateTabToPost(tab.id, buildPostUrl(postUrn));
+  return tab.id;
+};
@@ -0,0 +1,238 @@
+import { logger } from '../logger';
+import type {
+  Comment,
+  ProfileListType,
+  ProfileMatchField,
+  ProfileRule,
+  ProfileRuleMatch,
+  UIState,
+} from '../../shared/types';
+import { normalizeProfileUrl } from '../../shared/linkedin';
+
+const PROFILE_RULES_STORAGE_KEY = 'profileRules';
+
+const LIST_TYPES: ProfileListType[] = ['allow', 'block'];
+const MATCH_FIELDS: ProfileMatchField[] = ['url', 'name', 'headline'];
+
+// Internal state variables
+let rules: ProfileRule[] = [];
+
+// This will be set by the main service worker script to broadcast updates
+let broadcastState: (state: Partial<UIState>) => void = () => {
+  logger.warn('broadcastState not initialized in ProfileLists');
+};
+
+const persistRules = async (): Promise<void> => {
+  try {
+    await chrome.storage.local.set({ [PROFILE_RULES_STORAGE_KEY]: rules });
+  } catch (error) {
+    logger.error('Failed to persist profile rules', error);
+  }
+  broadcastState({ profileRules: rules });
+};
+
+const escapeRegExp = (text: string): string =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// `*` matches any run of characters; the pattern must cover the whole name
+const matchesNamePattern = (pattern: string, name: string): boolean =>
+  new RegExp(`^${pattern.split('*').map(escapeRegExp).join('.*')}$`, 'iu').test(
+    name.trim()
+  );
+
+const matchesHeadlineKeyword = (keyword: string, headline: string): boolean =>
+  new RegExp(
+    `(^|[^\\p{L}\\p{N}])${escapeRegExp(keyword)}(?=$|[^\\p{L}\\p{N}])`,
+    'iu'
+  ).test(headline);
+
+const matchesRule = (rule: ProfileRule, comment: Comment): boolean => {
+  if (rule.field === 'url') {
+    return (
+      normalizeProfileUrl(rule.pattern) ===
+      normalizeProfileUrl(comment.ownerProfileUrl)
+    );
+  }
+  if (rule.field === 'name') {
+    const name = comment.ownerName || comment.profile?.name;
+    return !!name && matchesNamePattern(rule.pattern, name);
+  }
+  // Headlines are only known once the connection check read the profile
+  const headline = comment.profile?.headline;
+  return !!headline && matchesHeadlineKeyword(rule.pattern, headline);
+};
+
+const isDuplicate = (rule: Omit<ProfileRule, 'id' | 'createdAt'>): boolean =>
+  rules.some(
+    (r) =>
+      r.list === rule.list &&
+      r.field === rule.field &&
+      (rule.field === 'url'
+        ? normalizeProfileUrl(r.pattern) === normalizeProfileUrl(rule.pattern)
+        : r.pattern.toLowerCase() === rule.pattern.toLowerCase())
+  );
+
+export const initProfileLists = async (
+  broadcaster: (state: Partial<UIState>) => void
+): Promise<void> => {
+  broadcastState = broadcaster;
+  try {
+    const result = await chrome.storage.local.get(PROFILE_RULES_STORAGE_KEY);
+    const stored = result?.[PROFILE_RULES_STORAGE_KEY] as
+      | ProfileRule[]
+      | undefined;
+    if (Array.isArray(stored)) rules = stored;
+  } catch (error) {
+    logger.error('Failed to load profile rules from storage', error);
+  }
+  logger.info('ProfileLists initialized.', { rules: rules.length });
+};
+
+export const getProfileRules = (): ProfileRule[] => {
+  return rules;
+};
+
+/**
+ * Finds the list entry for a commenter. Block entries are checked first.
+ * @returns The matching entry, or null if the commenter is on neither list.
+ */
+export const findProfileRule = (comment: Comment): ProfileRuleMatch | null => {
+  for (const list of ['block', 'allow'] as ProfileListType[]) {
+    const rule = rules.find((r) => r.list === list && matchesRule(r, comment));
+    if (rule) {
+      return {
+        ruleId: rule.id,
+        list: rule.list,
+        field: rule.field,
+        pattern: rule.pattern,
+      };
+    }
+  }
+  return null;
+};
+
+/**
+ * Adds a list entry, or replaces the entry with the same id.
+ * @returns The stored entry.
+ * @throws If the pattern is empty, not a profile URL for a URL entry, or the
+ *   same entry is already on the list.
+ */
+export const saveProfileRule = async (
+  input: Omit<ProfileRule, 'id' | 'createdAt'> & { id?: string }
+): Promise<ProfileRule> => {
+  const existing = input.id ? rules.find((r) => r.id === input.id) : undefined;
+  const rule: ProfileRule = {
+    ...input,
+    id: existing?.id ?? crypto.randomUUID(),
+    pattern:
+      input.field === 'url'
+        ? normalizeProfileUrl(input.pattern.trim())
+        : input.pattern.trim(),
+    note: input.note?.trim() || undefined,
+    createdAt: existing?.createdAt ?? new Date().toISOString(),
+  };
+  if (!rule.pattern.replace(/\*/g, '')) {
+    throw new Error('The list entry needs a profile URL, name or keyword.');
+  }
+  if (rule.field === 'url' && !rule.pattern.includes('linkedin.com/')) {
+    throw new Error(`Not a LinkedIn profile URL: ${input.pattern}`);
+  }
+  if (!existing && isDuplicate(rule)) {
+    throw new Error(`"${rule.pattern}" is already on the ${rule.list} list.`);
+  }
+
+  rules = existing
+    ? rules.map((r) => (r.id === rule.id ? rule : r))
+    : [...rules, rule];
+  logger.info('Profile rule saved', {
+    ruleId: rule.id,
+    list: rule.list,
+    field: rule.field,
+  });
+  await persistRules();
+  return rule;
+};
+
+export const deleteProfileRule = async (id: string): Promise<void> => {
+  rules = rules.filter((rule) => rule.id !== id);
+  logger.info('Profile rule deleted', { ruleId: id });
+  await persistRules();
+};
+
+// Splits one CSV line, honouring double-quoted fields
+const parseCsvLine = (line: string): string[] => {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+};
+
+/**
+ * Adds list entries from CSV. Each row is either `list,field,pattern[,note]`,
+ * `field,pattern[,note]` or a single profile URL or name; rows without a list
+ * go to `defaultList`. A header row and duplicates are skipped.
+ * @returns How many entries were added and how many rows were skipped.
+ */
+export const importProfileRules = async (
+  csv: string,
+  defaultList: ProfileListType
+): Promise<{ added: number; skipped: number }> => {
+  let added = 0;
+  let skipped = 0;
+  const rows = csv
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map(parseCsvLine);
+
+  for (const cells of rows) {
+    // The header row, e.g. `list,field,pattern,note`
+    if (cells.some((cell) => cell.toLowerCase() === 'pattern')) continue;
+    const values = [...cells];
+    const list = LIST_TYPES.includes(
+      values[0]?.toLowerCase() as ProfileListType
+    )
+      ? (values.shift()!.toLowerCase() as ProfileListType)
+      : defaultList;
+    let field = MATCH_FIELDS.includes(
+      values[0]?.toLowerCase() as ProfileMatchField
+    )
+      ? (values.shift()!.toLowerCase() as ProfileMatchField)
+      : undefined;
+    const [pattern = '', note] = values;
+    field ??= pattern.includes('linkedin.com/') ? 'url' : 'name';
+    try {
+      await saveProfileRule({ list, field, pattern, note });
+      added++;
+    } catch (error) {
+      skipped++;
+      logger.debug('Profile list row skipped', {
+        pattern,
+        reason: (error as Error).message,
+      });
+    }
+  }
+  logger.info('Profile rules imported', { added, skipped });
+  return { added, skipped };
+};
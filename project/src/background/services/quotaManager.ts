@@ -0,0 +1,175 @@
+import { logger } from '../logger';
+import type {
+  QuotaAction,
+  QuotaLimits,
+  QuotaUsage,
+  QuotaWindow,
+  UIState,
+} from '../../shared/types';
+import { getConfig } from './configManager';
+
+const QUOTA_LEDGER_KEY = 'quotaLedger';
+
+const QUOTA_ACTIONS: QuotaAction[] = [
+  'like',
+  'reply',
+  'dm',
+  'profileVisit',
+  'invite',
+];
+
+const WINDOW_MS: Record<QuotaWindow, number> = {
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+};
+
+// The longest window; older ledger entries can never count against a limit
+const LEDGER_RETENTION_MS = WINDOW_MS.week;
+
+/**
+ * Describes a quota that currently blocks an action.
+ */
+export interface QuotaBlock {
+  action: QuotaAction;
+  window: QuotaWindow;
+  limit: number;
+  used: number;
+  // Epoch ms at which enough entries leave the window to allow the action again
+  resumeAt: number;
+}
+
+type QuotaLedger = Record<QuotaAction, number[]>;
+
+const createEmptyLedger = (): QuotaLedger => ({
+  like: [],
+  reply: [],
+  dm: [],
+  profileVisit: [],
+  invite: [],
+});
+
+// Internal state variables: timestamps of performed actions, oldest first
+let ledger: QuotaLedger = createEmptyLedger();
+
+// This will be set by the main service worker script to broadcast updates
+let broadcastState: (state: Partial<UIState>) => void = () => {
+  logger.warn('broadcastState not initialized in QuotaManager');
+};
+
+const pruneLedger = (now: number) => {
+  const cutoff = now - LEDGER_RETENTION_MS;
+  QUOTA_ACTIONS.forEach((action) => {
+    ledger[action] = ledger[action].filter((timestamp) => timestamp > cutoff);
+  });
+};
+
+const getLimits = (): QuotaLimits => {
+  const config = getConfig();
+  const limits: QuotaLimits = { ...config.quotas };
+  if (!limits.reply?.day && config.maxReplies) {
+    limits.reply = { ...limits.reply, day: config.maxReplies };
+  }
+  return limits;
+};
+
+const countInWindow = (
+  action: QuotaAction,
+  window: QuotaWindow,
+  now: number
+): number => {
+  const windowStart = now - WINDOW_MS[window];
+  return ledger[action].filter((timestamp) => timestamp > windowStart).length;
+};
+
+export const initQuotaManager = async (
+  broadcaster: (state: Partial<UIState>) => void
+): Promise<void> => {
+  broadcastState = broadcaster;
+  try {
+    const result = await chrome.storage.local.get(QUOTA_LEDGER_KEY);
+    const stored = result?.[QUOTA_LEDGER_KEY] as
+      | Partial<QuotaLedger>
+      | undefined;
+    ledger = { ...createEmptyLedger(), ...stored };
+    pruneLedger(Date.now());
+  } catch (error) {
+    logger.error('Failed to load quota ledger from storage', error);
+  }
+  logger.info('QuotaManager initialized.', {
+    entries: QUOTA_ACTIONS.reduce((sum, a) => sum + ledger[a].length, 0),
+  });
+};
+
+/**
+ * Records a performed action in the persistent, account-wide ledger.
+ */
+export const recordQuotaAction = async (action: QuotaAction): Promise<void> => {
+  const now = Date.now();
+  ledger[action].push(now);
+  pruneLedger(now);
+  try {
+    await chrome.storage.local.set({ [QUOTA_LEDGER_KEY]: ledger });
+  } catch (error) {
+    logger.error('Failed to persist quota ledger', error, { action });
+  }
+  broadcastState({ quotaUsage: getQuotaUsage() });
+};
+
+/**
+ * Checks the given actions against all configured limits. An action listed
+ * more than once needs room for each time it is performed.
+ * @returns The blocking quota that frees up last, or null if every action is allowed.
+ */
+export const findQuotaBlock = (
+  actions: QuotaAction[],
+  now: number = Date.now()
+): QuotaBlock | null => {
+  const limits = getLimits();
+  let block: QuotaBlock | null = null;
+
+  const planned = new Map<QuotaAction, number>();
+  actions.forEach((action) =>
+    planned.set(action, (planned.get(action) ?? 0) + 1)
+  );
+  planned.forEach((count, action) => {
+    (Object.keys(WINDOW_MS) as QuotaWindow[]).forEach((window) => {
+      const limit = limits[action]?.[window];
+      if (!limit || limit <= 0) return;
+      // More than the limit at once fits only into an empty window; waiting
+      // for an emptier one would never end
+      const needed = Math.min(count, limit);
+      const windowStart = now - WINDOW_MS[window];
+      const entries = ledger[action].filter((t) => t > windowStart);
+      if (entries.length + needed <= limit) return;
+      // The actions are allowed once enough entries have aged out to fit them
+      const resumeAt =
+        entries[entries.length + needed - limit - 1] + WINDOW_MS[window];
+      if (!block || resumeAt > block.resumeAt) {
+        block = { action, window, limit, used: entries.length, resumeAt };
+      }
+    });
+  });
+  return block;
+};
+
+/**
+ * Returns the usage of every configured limit, for display in the UI.
+ */
+export const getQuotaUsage = (now: number = Date.now()): QuotaUsage[] => {
+  const limits = getLimits();
+  const usage: QuotaUsage[] = [];
+  QUOTA_ACTIONS.forEach((action) => {
+    (Object.keys(WINDOW_MS) as QuotaWindow[]).forEach((window) => {
+      const limit = limits[action]?.[window];
+      if (!limit || limit <= 0) return;
+      usage.push({
+        action,
+        window,
+        used: countInWindow(action, window, now),
+        limit,
+      });
+    });
+  });
+  return usage;
+};
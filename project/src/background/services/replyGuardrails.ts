@@ -0,0 +1,108 @@
+import type { ReplyGuardrails } from '../../shared/types';
+
+const EMAIL_PATTERN = /[^\s@]+@[^\s@]+\.[a-z]{2,}/i;
+// Bare domains such as `example.com/page` count as links too
+const URL_PATTERN =
+  /\b(?:https?:\/\/|www\.)\S+|\b[a-z0-9-]+\.(?:com|net|org|io|co|ai|dev|app|ly|me|info|biz)\b/i;
+const PHONE_PATTERN =
+  /(?:\+\d{1,3}[\s.-]?)?\(?\d{2,4}\)?[\s.-]?\d{3,4}[\s.-]?\d{3,4}\b/;
+const EMOJI_PATTERN = /\p{Extended_Pictographic}/gu;
+
+// Letter pairs of the text, ignoring case, punctuation and spacing
+const getBigrams = (text: string): Map<string, number> => {
+  const normalized = text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ');
+  const bigrams = new Map<string, number>();
+  for (let i = 0; i < normalized.length - 1; i++) {
+    const bigram = normalized.slice(i, i + 2);
+    bigrams.set(bigram, (bigrams.get(bigram) ?? 0) + 1);
+  }
+  return bigrams;
+};
+
+/**
+ * Compares two texts with the Sørensen–Dice coefficient of their letter
+ * pairs, which tolerates small edits such as a different name.
+ * @returns A value from 0 (nothing in common) to 1 (the same text).
+ */
+export const getTextSimilarity = (a: string, b: string): number => {
+  const pairsA = getBigrams(a);
+  const pairsB = getBigrams(b);
+  let total = 0;
+  let shared = 0;
+  pairsA.forEach((count, bigram) => {
+    total += count;
+    shared += Math.min(count, pairsB.get(bigram) ?? 0);
+  });
+  pairsB.forEach((count) => {
+    total += count;
+  });
+  return total > 0 ? (2 * shared) / total : 0;
+};
+
+/**
+ * Checks a reply draft against the guardrails.
+ * @param previousReplies Replies already posted on the same post.
+ * @returns One message per violated rule; empty when the draft passes.
+ */
+export const checkReplyGuardrails = (
+  text: string,
+  guardrails: ReplyGuardrails,
+  previousReplies: string[]
+): string[] => {
+  const violations: string[] = [];
+  const reply = text.trim();
+  const lowerReply = reply.toLowerCase();
+
+  if (guardrails.maxLength > 0 && reply.length > guardrails.maxLength) {
+    violations.push(
+      `Too long (${reply.length} characters, max ${guardrails.maxLength})`
+    );
+  }
+  if (guardrails.minLength > 0 && reply.length < guardrails.minLength) {
+    violations.push(
+      `Too short (${reply.length} characters, min ${guardrails.minLength})`
+    );
+  }
+
+  const bannedPhrases = guardrails.bannedPhrases.filter(
+    (phrase) =>
+      phrase.trim() && lowerReply.includes(phrase.trim().toLowerCase())
+  );
+  if (bannedPhrases.length > 0) {
+    violations.push(
+      `Contains banned phrases: ${bannedPhrases.map((p) => `"${p.trim()}"`).join(', ')}`
+    );
+  }
+
+  if (guardrails.blockEmails && EMAIL_PATTERN.test(reply)) {
+    violations.push('Contains an email address');
+  }
+  // The domain of an email address is not a link
+  const withoutEmails = reply.replace(new RegExp(EMAIL_PATTERN, 'gi'), '');
+  if (guardrails.blockLinks && URL_PATTERN.test(withoutEmails)) {
+    violations.push('Contains a link');
+  }
+  if (guardrails.blockPhoneNumbers && PHONE_PATTERN.test(withoutEmails)) {
+    violations.push('Contains a phone number');
+  }
+
+  if (guardrails.maxEmojis >= 0) {
+    const emojis = reply.match(EMOJI_PATTERN)?.length ?? 0;
+    if (emojis > guardrails.maxEmojis) {
+      violations.push(`Uses ${emojis} emojis (max ${guardrails.maxEmojis})`);
+    }
+  }
+
+  if (guardrails.maxSimilarity > 0) {
+    const similarity = Math.max(
+      0,
+      ...previousReplies.map((previous) => getTextSimilarity(reply, previous))
+    );
+    if (similarity >= guardrails.maxSimilarity) {
+      violations.push(
+        `Too similar to a reply already posted (${Math.round(similarity * 100)}% alike)`
+      );
+    }
+  }
+  return violations;
+};
@@ -0,0 +1,423 @@
+import { logger } from '../logger';
+import type {
+  CapturedPostState,
+  QuietHours,
+  ScheduleSettings,
+  ScheduleSlot,
+  UIState,
+} from '../../shared/types';
+import {
+  getPostState,
+  loadPostState,
+  mergeCapturedState,
+} from './stateManager';
+import {
+  getActivePostUrn,
+  getPipelineStatus,
+  hasActionStep,
+  pauseUntil,
+  resetPipeline,
+  resolvePipelineSteps,
+  resumePipeline,
+  setRunGuard,
+  startPipeline,
+} from './pipelineManager';
+import { getCampaign, startCampaign } from './campaignManager';
+import { ensurePostTab } from './postTabs';
+
+const SCHEDULE_STORAGE_KEY = 'schedule';
+const RUN_ALARM = 'scheduler:run';
+const QUIET_START_ALARM = 'scheduler:quiet-start';
+const QUIET_END_ALARM = 'scheduler:quiet-end';
+export const QUIET_HOURS_PAUSE_REASON = 'quiet-hours';
+
+const defaultScheduleSettings: ScheduleSettings = {
+  enabled: false,
+  target: 'post',
+  runMode: 'auto',
+  slots: [
+    { days: [1, 2, 3, 4, 5], time: '09:00' },
+    { days: [1, 2, 3, 4, 5], time: '17:00' },
+  ],
+  quietHours: { enabled: false, start: '22:00', end: '07:00' },
+};
+
+/**
+ * Persisted scheduler state. Besides the user's settings it remembers a run
+ * that was due during quiet hours so it can start when they end.
+ */
+interface SchedulerState {
+  settings: ScheduleSettings;
+  deferredRun: boolean;
+}
+
+// Internal state variables
+let schedulerState: SchedulerState = {
+  settings: { ...defaultScheduleSettings },
+  deferredRun: false,
+};
+
+// These will be set by the main service worker script
+let broadcastState: (state: Partial<UIState>) => void = () => {
+  logger.warn('broadcastState not initialized in Scheduler');
+};
+let sendMessageToTab: <T>(
+  tabId: number,
+  message: { type: string; payload?: unknown }
+) => Promise<T> = async () => {
+  logger.warn('sendMessageToTab not initialized in Scheduler');
+  return Promise.reject('sendMessageToTab not initialized');
+};
+
+const parseTime = (time: string): { hours: number; minutes: number } | null => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time?.trim() ?? '');
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+  return { hours, minutes };
+};
+
+/**
+ * Finds the next local time after `from` matching `time`, optionally limited
+ * to the given weekdays.
+ */
+const getNextOccurrence = (
+  time: string,
+  days: number[] | null,
+  from: Date
+): Date | null => {
+  const parsed = parseTime(time);
+  if (!parsed) return null;
+  for (let offset = 0; offset <= 7; offset++) {
+    const candidate = new Date(from);
+    candidate.setDate(from.getDate() + offset);
+    candidate.setHours(parsed.hours, parsed.minutes, 0, 0);
+    if (
+      candidate > from &&
+      (!days || days.length === 0 || days.includes(candidate.getDay()))
+    ) {
+      return candidate;
+    }
+  }
+  return null;
+};
+
+const getNextRunTime = (slots: ScheduleSlot[], from: Date): Date | null =>
+  slots.reduce<Date | null>((earliest, slot) => {
+    const next = getNextOccurrence(slot.time, slot.days, from);
+    if (!next) return earliest;
+    return !earliest || next < earliest ? next : earliest;
+  }, null);
+
+/**
+ * Whether `now` falls inside the quiet hours window. Windows may wrap past
+ * midnight, e.g. 22:00–07:00.
+ */
+export const isWithinQuietHours = (
+  quietHours: QuietHours | undefined,
+  now: Date = new Date()
+): boolean => {
+  if (!quietHours?.enabled) return false;
+  const start = parseTime(quietHours.start);
+  const end = parseTime(quietHours.end);
+  if (!start || !end) return false;
+  const current = now.getHours() * 60 + now.getMinutes();
+  const startMinutes = start.hours * 60 + start.minutes;
+  const endMinutes = end.hours * 60 + end.minutes;
+  if (startMinutes === endMinutes) return false;
+  return startMinutes < endMinutes
+    ? current >= startMinutes && current < endMinutes
+    : current >= startMinutes || current < endMinutes;
+};
+
+/**
+ * When `now` is within quiet hours, returns the epoch ms at which they end.
+ */
+const getQuietHoursEnd = (now: Date = new Date()): number | null => {
+  const { quietHours } = schedulerState.settings;
+  if (!isWithinQuietHours(quietHours, now)) return null;
+  return getNextOccurrence(quietHours.end, null, now)?.getTime() ?? null;
+};
+
+const persistSchedulerState = async (): Promise<void> => {
+  try {
+    await chrome.storage.local.set({ [SCHEDULE_STORAGE_KEY]: schedulerState });
+  } catch (error) {
+    logger.error('Failed to persist schedule', error);
+  }
+  broadcastState({ schedule: schedulerState.settings });
+};
+
+const armAlarms = async (): Promise<void> => {
+  await Promise.all([
+    chrome.alarms.clear(RUN_ALARM),
+    chrome.alarms.clear(QUIET_START_ALARM),
+    chrome.alarms.clear(QUIET_END_ALARM),
+  ]);
+  const { settings } = schedulerState;
+  settings.nextRunAt = null;
+
+  const now = new Date();
+  const nextRun = settings.enabled ? getNextRunTime(settings.slots, now) : null;
+  if (nextRun) {
+    chrome.alarms.create(RUN_ALARM, { when: nextRun.getTime() });
+    settings.nextRunAt = nextRun.toISOString();
+  }
+  // Quiet hours also pause runs started by hand; the run guard parks any run
+  // started or resumed inside them
+  if (settings.quietHours.enabled) {
+    const quietStart = getNextOccurrence(settings.quietHours.start, null, now);
+    const quietEnd = getNextOccurrence(settings.quietHours.end, null, now);
+    if (quietStart) {
+      chrome.alarms.create(QUIET_START_ALARM, { when: quietStart.getTime() });
+    }
+    if (quietEnd) {
+      chrome.alarms.create(QUIET_END_ALARM, { when: quietEnd.getTime() });
+    }
+  }
+  logger.info('Scheduler alarms armed', {
+    nextRunAt: settings.nextRunAt,
+    quietHours: settings.quietHours.enabled ? settings.quietHours : undefined,
+  });
+};
+
+/**
+ * Returns a LinkedIn tab a campaign can run in, preferring its previous tab.
+ */
+const ensureCampaignTab = async (): Promise<number> => {
+  const previousTabId = getCampaign().tabId;
+  if (previousTabId) {
+    try {
+      await chrome.tabs.get(previousTabId);
+      return previousTabId;
+    } catch {
+      // The tab was closed; fall through to a new one
+    }
+  }
+  const tab = await chrome.tabs.create({ active: true });
+  if (!tab.id) throw new Error('Failed to create a tab for the scheduled run.');
+  return tab.id;
+};
+
+const runScheduledPost = async (postUrn: string): Promise<void> => {
+  const { settings } = schedulerState;
+  const tabId = await ensurePostTab(postUrn);
+
+  // Pick up comments posted since the last run before processing
+  const existingState = getPostState(postUrn) ?? (await loadPostState(postUrn));
+  if (existingState) {
+    try {
+      const captured = await sendMessageToTab<CapturedPostState>(tabId, {
+        type: 'CAPTURE_POST_STATE',
+        payload: { maxComments: settings.maxComments },
+      });
+      mergeCapturedState(postUrn, { comments: captured?.comments || [] });
+    } catch (error) {
+      logger.warn('Could not refresh comments before scheduled run', {
+        postUrn,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  if (getPipelineStatus() === 'paused' && getActivePostUrn() === postUrn) {
+    await resumePipeline(postUrn, tabId);
+  } else {
+    // A paused or failed run of another post would block the start
+    if (getPipelineStatus() !== 'idle') await resetPipeline();
+    await startPipeline(
+      postUrn,
+      tabId,
+      settings.maxComments,
+      settings.runMode,
+      settings.steps,
+      settings.ordering
+    );
+  }
+};
+
+const triggerScheduledRun = async (): Promise<void> => {
+  const { settings } = schedulerState;
+  if (!settings.enabled) return;
+
+  if (getQuietHoursEnd()) {
+    logger.info('Scheduled run falls within quiet hours, deferring it.');
+    schedulerState.deferredRun = true;
+    await persistSchedulerState();
+    return;
+  }
+  if (getPipelineStatus() === 'running') {
+    logger.info('Pipeline already running, skipping scheduled run.');
+    return;
+  }
+  if (getPipelineStatus() === 'halted') {
+    logger.warn(
+      'Pipeline was halted by the circuit breaker, skipping scheduled run.'
+    );
+    return;
+  }
+
+  logger.info('Starting scheduled run', {
+    target: settings.target,
+    postUrn: settings.postUrn,
+    runMode: settings.runMode,
+  });
+  if (settings.target === 'campaign') {
+    const tabId = await ensureCampaignTab();
+    // A paused pipeline belongs to the interrupted campaign post
+    if (getPipelineStatus() === 'paused') await resetPipeline();
+    await startCampaign(tabId, {
+      runMode: settings.runMode,
+      maxComments: settings.maxComments,
+      steps: settings.steps,
+      ordering: settings.ordering,
+    });
+    return;
+  }
+  if (!settings.postUrn) {
+    throw new Error('No post configured for the scheduled run.');
+  }
+  await runScheduledPost(settings.postUrn);
+};
+
+const enterQuietHours = async (): Promise<void> => {
+  const quietEnd = getQuietHoursEnd();
+  if (getPipelineStatus() !== 'running' || !quietEnd) return;
+  logger.info('Quiet hours started, pausing pipeline', {
+    resumeAt: new Date(quietEnd).toISOString(),
+  });
+  await pauseUntil(QUIET_HOURS_PAUSE_REASON, quietEnd);
+};
+
+// Work paused by quiet hours resumes through its own auto-resume alarm
+const leaveQuietHours = async (): Promise<void> => {
+  if (!schedulerState.deferredRun) return;
+  schedulerState.deferredRun = false;
+  await persistSchedulerState();
+  logger.info('Quiet hours ended, starting deferred scheduled run.');
+  await triggerScheduledRun();
+};
+
+const handleAlarm = async (alarm: chrome.alarms.Alarm): Promise<void> => {
+  if (!alarm.name.startsWith('scheduler:')) return;
+  logger.info('Scheduler alarm fired', { alarm: alarm.name });
+  try {
+    if (alarm.name === RUN_ALARM) await triggerScheduledRun();
+    else if (alarm.name === QUIET_START_ALARM) await enterQuietHours();
+    else if (alarm.name === QUIET_END_ALARM) await leaveQuietHours();
+  } catch (error) {
+    logger.error('Scheduler alarm handling failed', error, {
+      alarm: alarm.name,
+    });
+  } finally {
+    // Re-arm for the next occurrence of every slot
+    await armAlarms();
+    await persistSchedulerState();
+  }
+};
+
+/**
+ * Registers the alarm listener and restores the persisted schedule. Must be
+ * called synchronously at service worker startup so alarms wake it up.
+ * @param dependencies Resolves once the config and the rules a run checks
+ *   comments against are loaded; alarms are handled only after.
+ */
+export const initScheduler = (
+  broadcaster: (state: Partial<UIState>) => void,
+  messageSender: <T>(
+    tabId: number,
+    message: { type: string; payload?: unknown }
+  ) => Promise<T>,
+  dependencies: Promise<unknown> = Promise.resolve()
+): Promise<void> => {
+  broadcastState = broadcaster;
+  sendMessageToTab = messageSender;
+  setRunGuard(() => {
+    const quietEnd = getQuietHoursEnd();
+    return quietEnd
+      ? { reason: QUIET_HOURS_PAUSE_REASON, resumeAt: quietEnd }
+      : null;
+  });
+
+  const initialization = (async () => {
+    try {
+      const result = await chrome.storage.local.get(SCHEDULE_STORAGE_KEY);
+      const stored = result?.[SCHEDULE_STORAGE_KEY] as
+        | SchedulerState
+        | undefined;
+      if (stored?.settings) {
+        schedulerState = {
+          deferredRun: stored.deferredRun ?? false,
+          settings: { ...defaultScheduleSettings, ...stored.settings },
+        };
+      }
+      await armAlarms();
+    } catch (error) {
+      logger.error('Failed to load schedule from storage', error);
+    }
+    logger.info('Scheduler initialized.', {
+      enabled: schedulerState.settings.enabled,
+      nextRunAt: schedulerState.settings.nextRunAt,
+    });
+  })();
+
+  chrome.alarms.onAlarm.addListener((alarm) => {
+    Promise.all([initialization, dependencies]).then(() => handleAlarm(alarm));
+  });
+  return initialization;
+};
+
+export const getSchedule = (): ScheduleSettings => {
+  return schedulerState.settings;
+};
+
+/**
+ * Updates the schedule, validates its times and re-arms the alarms.
+ * @returns The updated settings including the next run time.
+ */
+export const updateSchedule = async (
+  updates: Partial<ScheduleSettings>
+): Promise<ScheduleSettings> => {
+  const settings: ScheduleSettings = {
+    ...schedulerState.settings,
+    ...updates,
+    quietHours: {
+      ...schedulerState.settings.quietHours,
+      ...(updates.quietHours || {}),
+    },
+  };
+
+  const invalidSlot = settings.slots.find((slot) => !parseTime(slot.time));
+  if (invalidSlot) {
+    throw new Error(`Invalid schedule time: ${invalidSlot.time}`);
+  }
+  if (
+    settings.quietHours.enabled &&
+    (!parseTime(settings.quietHours.start) ||
+      !parseTime(settings.quietHours.end))
+  ) {
+    throw new Error('Invalid quiet hours window.');
+  }
+  if (settings.enabled && settings.target === 'post' && !settings.postUrn) {
+    throw new Error('Choose a post for the scheduled run.');
+  }
+  if (settings.steps) {
+    if (!hasActionStep(settings.steps)) {
+      throw new Error(
+        'Select at least one of like, reply, DM or connection request.'
+      );
+    }
+    settings.steps = resolvePipelineSteps(settings.steps);
+  }
+
+  schedulerState.settings = settings;
+  await armAlarms();
+  await persistSchedulerState();
+  logger.info('Schedule updated', {
+    enabled: settings.enabled,
+    target: settings.target,
+    slots: settings.slots.length,
+  });
+  return settings;
+};
@@ -200,6 +200,13 @@ export const getPostState = (postUrn: string): PostState | undefined => {
   return stateCache.get(postUrn);
 };
 
+/**
+ * Retrieves every post state in the in-memory cache.
+ */
+export const getAllPostStates = (): PostState[] => {
+  return Array.from(stateCache.values());
+};
+
 /**
  * Clears a post's state from storage and cache.
  * @param postUrn - The unique URN of the post.
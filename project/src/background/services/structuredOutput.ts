@@ -0,0 +1,122 @@
+import type {
+  CommentReaction,
+  CommentSentiment,
+  StructuredDraft,
+} from '../../shared/types';
+
+export type ParsedStructuredDraft = Omit<StructuredDraft, 'generatedAt'>;
+
+const REACTIONS: (CommentReaction | 'none')[] = [
+  'like',
+  'celebrate',
+  'support',
+  'love',
+  'insightful',
+  'funny',
+  'none',
+];
+
+const SENTIMENTS: CommentSentiment[] = ['positive', 'neutral', 'negative'];
+
+/**
+ * The user message of a structured completion. Uses the template variables,
+ * plus `{{dmPersona}}` for the DM instructions.
+ */
+export const STRUCTURED_PROMPT_TEMPLATE = `Post URL: {{post.url}}
+{{post.context}}
+Comment by {{commenter.name}} ({{commenter.profileUrl}}):
+'{{comment.text}}'
+{{commenter.profile}}
+Replies already in the thread:
+{{thread.replies}}
+My persona for the public reply: {{persona}}
+My instructions for a direct message to the commenter: {{dmPersona}}
+
+Respond with ONLY a JSON object, without code fences or any other text, with exactly these keys:
+- "reply": the public reply to the comment, following my persona
+- "dm": a brief, personal direct message to the commenter
+- "reaction": one of ${REACTIONS.map((r) => `"${r}"`).join(', ')}
+- "skip": true only if the comment contains explicit profanity, hate speech or personal attacks, clear spam, content unrelated to the post, or bot-like gibberish
+- "skipReason": why the comment is skipped, or "" when it is not
+- "sentiment": one of ${SENTIMENTS.map((s) => `"${s}"`).join(', ')}
+- "language": the ISO 639-1 code of the comment's language
+Write "reply" and "dm" in the comment's language. When "skip" is true, "reply" and "dm" are "".`;
+
+// Models like to wrap JSON in code fences or add a sentence around it
+const extractJsonObject = (raw: string): string => {
+  const unfenced = raw.replace(/```(?:json)?/gi, '');
+  const start = unfenced.indexOf('{');
+  const end = unfenced.lastIndexOf('}');
+  if (start === -1 || end <= start) {
+    throw new Error('The response does not contain a JSON object.');
+  }
+  // Trailing commas are the most common syntax slip
+  return unfenced.slice(start, end + 1).replace(/,\s*([}\]])/g, '$1');
+};
+
+/**
+ * Reads a structured completion, repairing small formatting slips.
+ * @param options.requireDm Whether a DM will be sent, so an empty "dm" is a
+ *   problem unless the comment is skipped.
+ * @returns The validated draft.
+ * @throws If the response is not valid JSON or does not match the schema. The
+ *   message lists every problem so it can be sent back to the model.
+ */
+export const parseStructuredDraft = (
+  raw: string,
+  options: { requireDm?: boolean } = {}
+): ParsedStructuredDraft => {
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(extractJsonObject(raw));
+  } catch (error) {
+    throw new Error(`Invalid JSON: ${(error as Error).message}`);
+  }
+
+  const problems: string[] = [];
+  const readString = (key: string): string => {
+    const value = data[key];
+    if (typeof value !== 'string') {
+      problems.push(`"${key}" must be a string`);
+      return '';
+    }
+    return value.trim();
+  };
+
+  const reply = readString('reply');
+  const dm = readString('dm');
+  const skipReason = readString('skipReason');
+  const language = readString('language').toLowerCase();
+  const reaction = readString('reaction').toLowerCase();
+  const sentiment = readString('sentiment').toLowerCase();
+
+  if (typeof data.skip !== 'boolean') {
+    problems.push('"skip" must be true or false');
+  }
+  if (!REACTIONS.includes(reaction as CommentReaction)) {
+    problems.push(`"reaction" must be one of ${REACTIONS.join(', ')}`);
+  }
+  if (!SENTIMENTS.includes(sentiment as CommentSentiment)) {
+    problems.push(`"sentiment" must be one of ${SENTIMENTS.join(', ')}`);
+  }
+  const skip = data.skip === true;
+  if (!skip && !reply) {
+    problems.push('"reply" must not be empty unless "skip" is true');
+  }
+  if (!skip && !dm && options.requireDm) {
+    problems.push('"dm" must not be empty unless "skip" is true');
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid draft: ${problems.join('; ')}`);
+  }
+  return {
+    reply,
+    dm,
+    reaction: reaction as CommentReaction | 'none',
+    skip,
+    skipReason,
+    sentiment: sentiment as CommentSentiment,
+    language,
+  };
+};
@@ -0,0 +1,156 @@
+import { logger } from '../logger';
+import type { TriggerRule, UIState } from '../../shared/types';
+import { findUnknownVariables } from '../../shared/promptTemplates';
+
+const TRIGGER_RULES_STORAGE_KEY = 'triggerRules';
+
+// Internal state variables
+let rules: TriggerRule[] = [];
+
+// This will be set by the main service worker script to broadcast updates
+let broadcastState: (state: Partial<UIState>) => void = () => {
+  logger.warn('broadcastState not initialized in TriggerRules');
+};
+
+const persistRules = async (): Promise<void> => {
+  try {
+    await chrome.storage.local.set({ [TRIGGER_RULES_STORAGE_KEY]: rules });
+  } catch (error) {
+    logger.error('Failed to persist trigger rules', error);
+  }
+  broadcastState({ triggerRules: rules });
+};
+
+const escapeRegExp = (text: string): string =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const getKeywords = (pattern: string): string[] =>
+  pattern
+    .split(',')
+    .map((keyword) => keyword.trim())
+    .filter(Boolean);
+
+/**
+ * Checks a comment against a keyword or regex rule. Keywords match whole
+ * words, ignoring case. Intent rules need the AI and never match here.
+ */
+export const matchesTriggerPattern = (
+  rule: TriggerRule,
+  text: string
+): boolean => {
+  if (rule.matchType === 'keyword') {
+    return getKeywords(rule.pattern).some((keyword) =>
+      new RegExp(
+        `(^|[^\\p{L}\\p{N}])${escapeRegExp(keyword)}(?=$|[^\\p{L}\\p{N}])`,
+        'iu'
+      ).test(text)
+    );
+  }
+  if (rule.matchType === 'regex') {
+    try {
+      return new RegExp(rule.pattern, 'iu').test(text);
+    } catch {
+      return false;
+    }
+  }
+  return false;
+};
+
+export const initTriggerRules = async (
+  broadcaster: (state: Partial<UIState>) => void
+): Promise<void> => {
+  broadcastState = broadcaster;
+  try {
+    const result = await chrome.storage.local.get(TRIGGER_RULES_STORAGE_KEY);
+    const stored = result?.[TRIGGER_RULES_STORAGE_KEY] as
+      | TriggerRule[]
+      | undefined;
+    if (Array.isArray(stored)) rules = stored;
+  } catch (error) {
+    logger.error('Failed to load trigger rules from storage', error);
+  }
+  logger.info('TriggerRules initialized.', { rules: rules.length });
+};
+
+export const getTriggerRules = (): TriggerRule[] => {
+  return rules;
+};
+
+export const getTriggerRule = (id: string): TriggerRule | undefined =>
+  rules.find((rule) => rule.id === id);
+
+/**
+ * @returns The enabled rules that apply to the post, in evaluation order.
+ */
+export const getActiveTriggerRules = (postUrn: string): TriggerRule[] =>
+  rules.filter(
+    (rule) =>
+      rule.enabled &&
+      (rule.postUrns.length === 0 || rule.postUrns.includes(postUrn))
+  );
+
+/**
+ * Adds a rule, or replaces the rule with the same id.
+ * @returns The stored rule.
+ * @throws If the pattern is empty or not a valid regular expression, or a
+ *   template uses unknown variables.
+ */
+export const saveTriggerRule = async (
+  input: Omit<TriggerRule, 'id' | 'updatedAt'> & { id?: string }
+): Promise<TriggerRule> => {
+  const rule: TriggerRule = {
+    ...input,
+    id: input.id || crypto.randomUUID(),
+    name: input.name.trim() || input.pattern.trim(),
+    pattern: input.pattern.trim(),
+    postUrns: Array.from(new Set(input.postUrns)),
+    updatedAt: new Date().toISOString(),
+  };
+
+  if (!rule.pattern) {
+    throw new Error('The trigger rule needs a keyword, pattern or intent.');
+  }
+  if (rule.matchType === 'keyword' && getKeywords(rule.pattern).length === 0) {
+    throw new Error('The trigger rule needs at least one keyword.');
+  }
+  if (rule.matchType === 'regex') {
+    try {
+      new RegExp(rule.pattern, 'iu');
+    } catch (error) {
+      throw new Error(
+        `Invalid regular expression: ${(error as Error).message}`
+      );
+    }
+  }
+  const templates: [string, string][] = [
+    ['Reply template', rule.replyTemplate],
+    ['Non-connected reply template', rule.nonConnectedReplyTemplate],
+    ['DM template', rule.dmTemplate],
+  ];
+  const problems = templates.flatMap(([label, template]) => {
+    const unknown = findUnknownVariables(template);
+    return unknown.length > 0
+      ? [`${label} uses unknown variables: ${unknown.join(', ')}`]
+      : [];
+  });
+  if (problems.length > 0) throw new Error(problems.join('\n'));
+
+  const index = rules.findIndex((r) => r.id === rule.id);
+  rules =
+    index === -1
+      ? [...rules, rule]
+      : rules.map((r, i) => (i === index ? rule : r));
+  logger.info('Trigger rule saved', {
+    ruleId: rule.id,
+    matchType: rule.matchType,
+    posts: rule.postUrns.length,
+  });
+  await persistRules();
+  return rule;
+};
+
+export const deleteTriggerRule = async (id: string): Promise<void> => {
+  rules = rules.filter((rule) => rule.id !== id);
+  logger.info('Trigger rule deleted', { ruleId: id });
+  await persistRules();
+};
@@ -0,0 +1,91 @@
+import type {
+  AIConfig,
+  GenerationUsage,
+  ModelPricing,
+  TokenUsage,
+  UsageTotals,
+} from '../../shared/types';
+import { logger } from '../logger';
+import { createAIProvider } from './aiProvider';
+
+// Prices change rarely, so the model list is fetched at most this often
+const PRICING_TTL_MS = 6 * 60 * 60 * 1000;
+// After a failed fetch, costs stay unknown for this long before trying again
+const PRICING_RETRY_MS = 10 * 60 * 1000;
+
+let pricingCache: {
+  key: string;
+  expiresAt: number;
+  prices: Map<string, ModelPricing>;
+} | null = null;
+
+/**
+ * Looks up the price of a model in the provider's model list.
+ * @returns The price, or null if the provider does not list one.
+ */
+export const getModelPricing = async (
+  config: AIConfig,
+  model: string
+): Promise<ModelPricing | null> => {
+  const key = `${config.provider ?? 'openrouter'}|${config.baseUrl ?? ''}`;
+  if (
+    !pricingCache ||
+    pricingCache.key !== key ||
+    Date.now() > pricingCache.expiresAt
+  ) {
+    const prices = new Map<string, ModelPricing>();
+    let ttl = PRICING_TTL_MS;
+    try {
+      const models = await createAIProvider(config).getModels();
+      models.forEach((m) => {
+        if (m.pricing) prices.set(m.id, m.pricing);
+      });
+    } catch (error) {
+      ttl = PRICING_RETRY_MS;
+      logger.warn('Failed to load model pricing', {
+        provider: config.provider,
+        error: (error as Error).message,
+      });
+    }
+    pricingCache = { key, expiresAt: Date.now() + ttl, prices };
+  }
+  return pricingCache.prices.get(model) ?? null;
+};
+
+/**
+ * @returns The cost in USD, or null if the price is unknown.
+ */
+export const computeCost = (
+  usage: TokenUsage,
+  pricing: ModelPricing | null
+): number | null =>
+  pricing
+    ? usage.promptTokens * pricing.prompt +
+      usage.completionTokens * pricing.completion
+    : null;
+
+export const createUsageTotals = (): UsageTotals => ({
+  generations: 0,
+  promptTokens: 0,
+  completionTokens: 0,
+  costUsd: 0,
+  unpricedGenerations: 0,
+});
+
+/**
+ * @returns New totals that include the generation.
+ */
+export const addToUsageTotals = (
+  totals: UsageTotals | undefined,
+  usage: GenerationUsage
+): UsageTotals => {
+  const base = totals ?? createUsageTotals();
+  return {
+    generations: base.generations + 1,
+    promptTokens: base.promptTokens + usage.promptTokens,
+    completionTokens: base.completionTokens + usage.completionTokens,
+    costUsd: base.costUsd + (usage.costUsd ?? 0),
+    unpricedGenerations:
+      base.unpricedGenerations + (usage.costUsd === null ? 1 : 0),
+  };
+};
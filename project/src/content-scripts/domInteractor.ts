@@ -1,4 +1,12 @@
-import type { ParsedComment, CapturedPostState } from '../shared/types';
+import type {
+  CommentReaction,
+  ConnectionDegree,
+  ParsedComment,
+  CapturedPostState,
+  PostContent,
+  RestrictionKind,
+  RestrictionSignal,
+} from '../shared/types';
 import { getPostUrnFromUrl } from '../shared/linkedin';
 
 /**
@@ -90,6 +98,12 @@ const SELECTORS = {
     allComments: 'article.comments-comment-entity',
     ownerProfileLink: 'a.comments-comment-meta__image-link',
     replyAuthorMeta: '.comments-comment-meta__actor',
+    authorName: '.comments-comment-meta__description-title',
+    authorDegree: '.comments-comment-meta__data',
+    reactionsCount:
+      '.comments-comment-social-bar__reactions-count, .comments-comment-social-bar__reactions-count--cr',
+    media:
+      '.comments-comment-item__inline-image, .comments-comment-entity__content img, .comments-comment-entity__content video, .comments-comment-entity__content .update-components-document',
     textContent: 'span.comments-comment-item__main-content',
     timestamp: 'time',
     repliesContainer: 'div.comments-comment-item__replies-container',
@@ -100,6 +114,16 @@ const SELECTORS = {
       'div.comments-comment-texteditor .ql-editor[contenteditable="true"]',
     replySubmitButton: 'button.comments-comment-box__submit-button--cr',
   },
+  post: {
+    container: '.feed-shared-update-v2',
+    text: '.update-components-text, .feed-shared-inline-show-more-text',
+    authorName:
+      '.update-components-actor__title span[aria-hidden="true"], .update-components-actor__name',
+    timestamp:
+      '.update-components-actor__sub-description span[aria-hidden="true"]',
+    attachmentTitle:
+      '.update-components-article__title, .update-components-document__title, .document-s-container__title',
+  },
   dm: {
     messageInput: 'div.msg-form__contenteditable[contenteditable="true"]',
     sendButton: 'button.msg-form__send-button',
@@ -217,6 +241,60 @@ export const isCommentByCurrentUser = (
   );
 };
 
+/**
+ * Reads the display name from a comment's meta section.
+ * @param element The comment or reply article; the first name in document order is used.
+ */
+const getCommentAuthorName = (element: HTMLElement): string =>
+  element
+    .querySelector<HTMLElement>(SELECTORS.comment.authorName)
+    ?.innerText.trim() ?? '';
+
+/**
+ * Reads the connection degree shown next to the commenter's name, e.g. "• 2nd".
+ */
+const getCommentAuthorDegree = (
+  element: HTMLElement
+): ConnectionDegree | undefined => {
+  const meta =
+    element.querySelector<HTMLElement>(SELECTORS.comment.authorDegree)
+      ?.innerText ?? '';
+  const degree = meta.match(/\b(1st|2nd|3rd\+?)/)?.[1];
+  if (!degree) return undefined;
+  return degree.startsWith('3rd') ? '3rd+' : (degree as ConnectionDegree);
+};
+
+// The number next to the comment's reactions, e.g. "1,204"; 0 when hidden
+const getCommentReactionCount = (element: HTMLElement): number => {
+  const counter = Array.from(
+    element.querySelectorAll<HTMLElement>(SELECTORS.comment.reactionsCount)
+  ).find((el) => el.closest(SELECTORS.comment.allComments) === element);
+  const digits = (counter?.innerText ?? '').replace(/[^\d]/g, '');
+  return digits ? Number(digits) : 0;
+};
+
+// Media inside the replies below the comment does not count
+const hasCommentMedia = (element: HTMLElement): boolean =>
+  Array.from(element.querySelectorAll(SELECTORS.comment.media)).some(
+    (media) => media.closest(SELECTORS.comment.allComments) === element
+  );
+
+/**
+ * Collects the replies of a thread as "Name: text" lines for prompt context.
+ */
+const extractThreadReplies = (
+  replyElements: NodeListOf<HTMLElement>
+): string[] =>
+  Array.from(replyElements).flatMap((replyElement) => {
+    const text =
+      replyElement
+        .querySelector<HTMLElement>(SELECTORS.comment.textContent)
+        ?.innerText.trim() ?? '';
+    if (!text) return [];
+    const name = getCommentAuthorName(replyElement);
+    return [name ? `${name}: ${text}` : text];
+  });
+
 /**
  * Extracts comments from the page and parses them into a structured format.
  * Implements critical checks: CHECK A (user already replied in thread) and CHECK B (data-processed attribute).
@@ -336,11 +414,16 @@ export const extractComments = (maxComments: number = 10): ParsedComment[] => {
       comments.push({
         commentId,
         ownerProfileUrl,
+        ownerName: getCommentAuthorName(commentElement) || undefined,
         text,
         timestamp,
         type,
         threadId,
         hasUserReply: false, // Not needed since we handle this in CHECK A
+        threadReplies: extractThreadReplies(replyElements),
+        hasMedia: hasCommentMedia(commentElement),
+        connectionDegree: getCommentAuthorDegree(commentElement),
+        reactionCount: getCommentReactionCount(commentElement),
       });
       processedCount++; // Only increment when we actually process a comment
     } else {
@@ -365,13 +448,58 @@ export const extractComments = (maxComments: number = 10): ParsedComment[] => {
   return comments;
 };
 
+// The aria-label prefixes of the buttons in the reactions menu
+const REACTION_LABELS: Record<CommentReaction, string> = {
+  like: 'Like',
+  celebrate: 'Celebrate',
+  support: 'Support',
+  love: 'Love',
+  insightful: 'Insightful',
+  funny: 'Funny',
+};
+
 /**
- * Finds a specific comment by its ID and clicks the 'Like' button.
+ * Opens the reactions menu by hovering the like button and picks a reaction.
+ * @returns Whether the reaction registered, or null if the menu did not open.
+ */
+const pickReaction = async (
+  likeButton: HTMLButtonElement,
+  reaction: CommentReaction
+): Promise<boolean | null> => {
+  likeButton.dispatchEvent(new MouseEvent('mouseenter', { bubbles: true }));
+  likeButton.dispatchEvent(new MouseEvent('mouseover', { bubbles: true }));
+
+  const label = REACTION_LABELS[reaction];
+  let reactionButton: HTMLButtonElement | null = null;
+  const start = Date.now();
+  while (!reactionButton && Date.now() - start < 1500) {
+    await delay(150);
+    reactionButton = document.querySelector<HTMLButtonElement>(
+      `.reactions-menu button[aria-label^="${label}"]`
+    );
+  }
+  if (!reactionButton) return null;
+
+  reactionButton.click();
+  while (Date.now() - start < 3000) {
+    if (likeButton.getAttribute('aria-pressed') === 'true') return true;
+    await delay(150);
+  }
+  return likeButton.getAttribute('aria-pressed') === 'true';
+};
+
+/**
+ * Finds a specific comment by its ID and reacts to it.
  * @param commentId - The 'data-id' of the target comment.
+ * @param reaction - The reaction to give. Anything but 'like' is picked from
+ *   the reactions menu, falling back to a plain like if the menu does not open.
  * @returns A promise that resolves to true if the action was successful, false otherwise.
  */
-export const likeComment = async (commentId: string): Promise<boolean> => {
-  console.log(`Attempting to like comment: ${commentId}`);
+export const likeComment = async (
+  commentId: string,
+  reaction: CommentReaction = 'like'
+): Promise<boolean> => {
+  console.log(`Attempting to react to comment: ${commentId}`, { reaction });
 
   // Try to locate the comment element robustly.
   // Some pages expose different ID formats; derive common variants.
@@ -479,6 +607,11 @@ export const likeComment = async (commentId: string): Promise<boolean> => {
     return true;
   }
 
+  if (reaction !== 'like') {
+    const reacted = await pickReaction(likeButton, reaction);
+    if (reacted !== null) return reacted;
+  }
+
   // Perform a more realistic click sequence and wait for state change
   likeButton.focus();
   likeButton.dispatchEvent(
@@ -724,11 +857,45 @@ export const sendDmViaProfile = async (dmText: string): Promise<boolean> => {
   }
 };
 
+// Keeps long posts from crowding the comment out of the prompt
+const MAX_POST_TEXT_LENGTH = 3000;
+
+/**
+ * Reads the post body, author, timestamp and attachment titles of the post
+ * shown on the page.
+ * @returns The post content, or null if no post is rendered.
+ */
+export const extractPostContent = (): PostContent | null => {
+  const container = document.querySelector<HTMLElement>(
+    SELECTORS.post.container
+  );
+  if (!container) return null;
+
+  const readText = (selector: string): string =>
+    container.querySelector<HTMLElement>(selector)?.innerText.trim() ?? '';
+
+  const text = readText(SELECTORS.post.text).slice(0, MAX_POST_TEXT_LENGTH);
+  // The sub-description reads like "2d • Edited • <visibility>"
+  const timestamp = readText(SELECTORS.post.timestamp).split('•')[0].trim();
+  const attachmentTitles = Array.from(
+    container.querySelectorAll<HTMLElement>(SELECTORS.post.attachmentTitle)
+  )
+    .map((el) => el.innerText.trim())
+    .filter(Boolean);
+
+  return {
+    text,
+    author: readText(SELECTORS.post.authorName),
+    timestamp,
+    attachmentTitles: Array.from(new Set(attachmentTitles)),
+  };
+};
+
 /**
  * Captures the current state of the post from the DOM, including all comments.
  * This is intended to be called after the extension has performed actions to
  * ensure the captured state is up-to-date.
- * @returns An object containing the latest comments, post URN, and post URL.
+ * @returns An object containing the latest comments, post URN, post URL and post content.
  */
 export const capturePostStateFromDOM = (
   maxComments?: number
@@ -739,7 +906,84 @@ export const capturePostStateFromDOM = (
 
   const postUrn = getPostUrnFromUrl(window.location.href);
   const postUrl = window.location.href;
+  const postContent = extractPostContent() ?? undefined;
 
   console.log(`Capture complete. Found ${comments.length} comments.`);
-  return { comments, postUrn, postUrl, userProfileUrl };
+  return { comments, postUrn, postUrl, userProfileUrl, postContent };
+};
+
+/**
+ * Collects the URNs of all posts rendered on the current page, e.g. the
+ * user's "recent activity" page, so they can be queued in a campaign.
+ * @returns The unique post URNs in page order.
+ */
+export const collectPostUrnsFromDOM = (): string[] => {
+  const urns = new Set<string>();
+  document
+    .querySelectorAll<HTMLElement>('[data-urn^="urn:li:activity:"]')
+    .forEach((el) => {
+      const urn = el.getAttribute('data-urn');
+      if (urn) urns.add(urn);
+    });
+  return Array.from(urns);
+};
+
+const RESTRICTION_TEXT_PATTERNS: { kind: RestrictionKind; pattern: RegExp }[] =
+  [
+    {
+      kind: 'invitation-limit',
+      pattern: /reached the (weekly )?invitation limit/i,
+    },
+    {
+      kind: 'restricted',
+      pattern: /account (has been |is )?(temporarily )?restricted/i,
+    },
+    {
+      kind: 'captcha',
+      pattern:
+        /(quick security check|security verification|verify you['’]re (a )?human)/i,
+    },
+  ];
+
+/**
+ * Looks for signs that LinkedIn is limiting or blocking the account: security
+ * checkpoints, captchas, restriction and invitation limit notices, and
+ * "Something went wrong" error toasts.
+ * @returns The first signal found, or null if the page looks normal.
+ */
+export const detectRestrictionSignal = (): RestrictionSignal | null => {
+  const { pathname } = window.location;
+  if (pathname.startsWith('/checkpoint/')) {
+    return { kind: 'checkpoint', message: pathname };
+  }
+
+  if (
+    document.querySelector(
+      'iframe[src*="captcha"], #captcha-internal, [id^="captcha-challenge"]'
+    )
+  ) {
+    return { kind: 'captcha', message: 'Captcha challenge on the page' };
+  }
+
+  // Notices show up in modals, banners and toasts
+  const notices = Array.from(
+    document.querySelectorAll<HTMLElement>(
+      '[role="alert"], [role="dialog"], .artdeco-modal, .artdeco-toast-item'
+    )
+  );
+  for (const notice of notices) {
+    const text = (notice.textContent || '').replace(/\s+/g, ' ').trim();
+    if (!text) continue;
+    const match = RESTRICTION_TEXT_PATTERNS.find(({ pattern }) =>
+      pattern.test(text)
+    );
+    if (match) return { kind: match.kind, message: text.slice(0, 200) };
+    if (
+      notice.matches('.artdeco-toast-item, [role="alert"]') &&
+      /something went wrong/i.test(text)
+    ) {
+      return { kind: 'error-toast', message: text.slice(0, 200) };
+    }
+  }
+  return null;
 };
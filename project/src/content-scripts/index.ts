@@ -1,4 +1,6 @@
 import {
+  detectRestrictionSignal,
+  extractPostContent,
   likeComment,
   replyToComment,
   sendDm,
@@ -1095,7 +1097,7 @@ if (
 
     if (message.type === 'LIKE_COMMENT') {
       console.log('Content script received LIKE_COMMENT:', message.payload);
-      likeComment(message.payload.commentId)
+      likeComment(message.payload.commentId, message.payload.reaction)
         .then((success) =>
           sendResponse({ status: 'success', payload: success })
         )
@@ -1144,6 +1146,16 @@ if (
       return true; // Indicates async response
     }
 
+    if (message.type === 'CHECK_RESTRICTIONS') {
+      sendResponse({ status: 'success', payload: detectRestrictionSignal() });
+      return;
+    }
+
+    if (message.type === 'CAPTURE_POST_CONTENT') {
+      sendResponse({ status: 'success', payload: extractPostContent() });
+      return;
+    }
+
     if (message.type === 'CAPTURE_POST_STATE') {
       console.log('Content script received CAPTURE_POST_STATE');
       (async () => {
@@ -1169,6 +1181,20 @@ if (
       return true; // Indicates async response
     }
 
+    if (message.type === 'COLLECT_POST_URNS') {
+      import('./domInteractor')
+        .then((mod) =>
+          sendResponse({
+            status: 'success',
+            payload: mod.collectPostUrnsFromDOM(),
+          })
+        )
+        .catch((error) =>
+          sendResponse({ status: 'error', message: error.message })
+        );
+      return true; // Indicates async response
+    }
+
     // return true; // Keep listener open for other potential async messages
   });
 } else {
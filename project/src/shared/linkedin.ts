@@ -45,3 +45,62 @@ export const getPostUrnFromUrl = (url: string | undefined | null): string | null
 
   return null;
 };
+
+/**
+ * Build the canonical feed URL for a post URN.
+ */
+export const buildPostUrl = (postUrn: string): string =>
+  `https://www.linkedin.com/feed/update/${postUrn}`;
+
+const LINKEDIN_PROFILE_SLUG_REGEX = /\/in\/([^/?#]+)/;
+
+/**
+ * Reduce a profile URL to one canonical form, so the same member matches
+ * whatever locale, query string or trailing slash a link carried.
+ */
+export const normalizeProfileUrl = (url: string): string => {
+  const slugMatch = url.match(LINKEDIN_PROFILE_SLUG_REGEX);
+  if (slugMatch?.[1]) {
+    let slug = slugMatch[1];
+    try {
+      slug = decodeURIComponent(slug);
+    } catch {
+      // Keep the raw slug when it is not valid percent-encoding
+    }
+    return `https://www.linkedin.com/in/${slug.toLowerCase()}/`;
+  }
+  return url.split(/[?#]/)[0].replace(/\/+$/, '').toLowerCase() + '/';
+};
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+const RELATIVE_TIME_UNITS_MS: Record<string, number> = {
+  s: 1000,
+  m: MINUTE_MS,
+  h: 60 * MINUTE_MS,
+  d: DAY_MS,
+  w: 7 * DAY_MS,
+  mo: 30 * DAY_MS,
+  y: 365 * DAY_MS,
+  yr: 365 * DAY_MS,
+};
+
+const LINKEDIN_RELATIVE_TIME_REGEX = /^(\d+)\s*(mo|yr|[smhdwy])\b/i;
+
+/**
+ * Convert a relative time as LinkedIn shows it on comments, e.g. `5m`, `2d`
+ * or `3mo`, to milliseconds.
+ * @returns The age in milliseconds, or null if the text is not a relative time.
+ */
+export const parseRelativeTime = (text: string): number | null => {
+  const trimmed = text.trim().toLowerCase();
+  if (trimmed === 'now' || trimmed === 'just now') {
+    return 0;
+  }
+  const match = trimmed.match(LINKEDIN_RELATIVE_TIME_REGEX);
+  if (!match) {
+    return null;
+  }
+  return Number(match[1]) * RELATIVE_TIME_UNITS_MS[match[2]];
+};
@@ -0,0 +1,286 @@
+import type { AIConfig, Comment, PostState } from './types';
+
+/**
+ * A placeholder that can be used as `{{name}}` in prompts and manual templates.
+ */
+export interface TemplateVariable {
+  name: string;
+  description: string;
+  // Used to render previews in the settings
+  example: string;
+}
+
+export type TemplateContext = Record<string, string>;
+
+export const TEMPLATE_VARIABLES: TemplateVariable[] = [
+  {
+    name: 'commenter.name',
+    description: "The commenter's full name",
+    example: 'Jane Smith',
+  },
+  {
+    name: 'commenter.firstName',
+    description: "The commenter's first name",
+    example: 'Jane',
+  },
+  {
+    name: 'commenter.profileUrl',
+    description: "Link to the commenter's profile",
+    example: 'https://www.linkedin.com/in/jane-smith/',
+  },
+  {
+    name: 'commenter.headline',
+    description: "The commenter's profile headline",
+    example: 'Engineering Manager | Remote teams',
+  },
+  {
+    name: 'commenter.role',
+    description: "The commenter's current role",
+    example: 'Engineering Manager',
+  },
+  {
+    name: 'commenter.company',
+    description: "The commenter's current company",
+    example: 'Acme',
+  },
+  {
+    name: 'commenter.location',
+    description: "The commenter's location",
+    example: 'Berlin, Germany',
+  },
+  {
+    name: 'commenter.mutualConnections',
+    description: 'The number of mutual connections',
+    example: '12',
+  },
+  {
+    name: 'commenter.profile',
+    description:
+      'Headline, role, company, location and mutual connections, skipping what was not captured',
+    example:
+      'Headline: Engineering Manager | Remote teams\nWorks as Engineering Manager at Acme\nLocation: Berlin, Germany\nMutual connections: 12',
+  },
+  {
+    name: 'comment.text',
+    description: 'The comment being answered',
+    example: 'Great insights on remote onboarding, we saw the same thing!',
+  },
+  {
+    name: 'post.text',
+    description: 'The text of your post, when it was captured',
+    example: 'Three lessons from onboarding 40 remote engineers this year…',
+  },
+  {
+    name: 'post.author',
+    description: 'The name shown as the post author',
+    example: 'Alex Morgan',
+  },
+  {
+    name: 'post.timestamp',
+    description: 'When the post was published, as shown by LinkedIn',
+    example: '2d',
+  },
+  {
+    name: 'post.attachments',
+    description: 'Titles of attached articles or documents, one per line',
+    example: 'The Remote Onboarding Playbook',
+  },
+  {
+    name: 'post.context',
+    description:
+      'Author, date, text and attachments of the post, skipping what was not captured',
+    example:
+      "Author: Alex Morgan\nPublished: 2d\nText: 'Three lessons from onboarding 40 remote engineers this year…'",
+  },
+  {
+    name: 'post.url',
+    description: 'Link to your post',
+    example: 'https://www.linkedin.com/feed/update/urn:li:activity:123/',
+  },
+  {
+    name: 'thread.replies',
+    description: 'Replies already in the comment thread, one per line',
+    example: 'John Doe: Totally agree with this.',
+  },
+  {
+    name: 'trigger.resource',
+    description: 'The resource of the trigger rule the comment matched',
+    example: 'https://example.com/remote-onboarding-guide.pdf',
+  },
+  {
+    name: 'persona',
+    description: 'Your tone instructions for replies or DMs',
+    example: 'Keep it warm, brief and specific.',
+  },
+];
+
+export const DEFAULT_REPLY_SYSTEM_PROMPT =
+  'You are a helpful LinkedIn engagement assistant. Your goal is to write brief, genuinely specific replies to post comments based on the user-provided persona.';
+
+export const DEFAULT_REPLY_TEMPLATE = `Post URL: {{post.url}}
+{{post.context}}
+My persona: {{persona}}
+{{commenter.profile}}
+Original comment (from {{commenter.profileUrl}}):
+'{{comment.text}}'
+Output: ONLY the reply text. Only output '__SKIP__' if the comment contains:
+- Explicit profanity, hate speech, or personal attacks
+- Clear spam (repeated promotional links, unrelated product sales)
+- Completely off-topic content unrelated to the post
+- Bot-like repetitive text or gibberish
+Otherwise, always generate a thoughtful reply even for brief or simple comments.`;
+
+export const DEFAULT_DM_SYSTEM_PROMPT =
+  'You are a helpful LinkedIn engagement assistant. Your goal is to write a brief, personalized direct message to someone who left a thoughtful comment on your post. Your tone should be warm and aim to start a meaningful conversation.';
+
+export const DEFAULT_DM_TEMPLATE = `Their comment on my post: '{{comment.text}}'
+My custom instructions for this DM: {{persona}}
+My post URL for context: {{post.url}}
+{{post.context}}
+Commenter Profile URL: {{commenter.profileUrl}}
+{{commenter.profile}}
+Output: ONLY the direct message text. Be concise, personable, and professional.`;
+
+export const DEFAULT_INVITE_SYSTEM_PROMPT =
+  'You are a helpful LinkedIn engagement assistant. Your goal is to write the short note sent with a connection request to someone who commented on your post. It must fit in 300 characters.';
+
+export const DEFAULT_INVITE_TEMPLATE = `Their comment on my post: '{{comment.text}}'
+My custom instructions for this note: {{persona}}
+{{post.context}}
+{{commenter.profile}}
+Output: ONLY the note text, under 300 characters. Mention their comment, no links, no sales pitch.`;
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+const KNOWN_VARIABLES = new Set(TEMPLATE_VARIABLES.map((v) => v.name));
+
+export const SAMPLE_TEMPLATE_CONTEXT: TemplateContext = Object.fromEntries(
+  TEMPLATE_VARIABLES.map((v) => [v.name, v.example])
+);
+
+/**
+ * Replaces every `{{name}}` placeholder with its value from the context.
+ * Unknown placeholders render as an empty string.
+ */
+export const renderTemplate = (
+  template: string,
+  context: TemplateContext
+): string =>
+  template.replace(
+    PLACEHOLDER_PATTERN,
+    (_match, name: string) => context[name] ?? ''
+  );
+
+/**
+ * @returns The placeholder names in the template that are not known variables.
+ */
+export const findUnknownVariables = (template: string): string[] => {
+  const unknown = new Set<string>();
+  for (const match of template.matchAll(PLACEHOLDER_PATTERN)) {
+    if (!KNOWN_VARIABLES.has(match[1])) unknown.add(match[1]);
+  }
+  return Array.from(unknown);
+};
+
+/**
+ * Checks every user-editable template of a config update.
+ * @returns One message per template with unknown variables.
+ */
+export const validateConfigTemplates = (
+  config: Partial<AIConfig>
+): string[] => {
+  const templates: [string, string | undefined][] = [
+    ['Reply persona', config.reply?.customPrompt],
+    ['Non-connected reply', config.reply?.nonConnectedPrompt],
+    ['Reply system prompt', config.reply?.systemPrompt],
+    ['Reply message template', config.reply?.template],
+    ['DM persona', config.dm?.customPrompt],
+    ['DM system prompt', config.dm?.systemPrompt],
+    ['DM message template', config.dm?.template],
+    ['Invite note persona', config.invite?.customPrompt],
+    ['Invite note system prompt', config.invite?.systemPrompt],
+    ['Invite note message template', config.invite?.template],
+    ['Manual reply', config.manual?.replyText],
+    ['Manual non-connected reply', config.manual?.nonConnectedText],
+    ['Manual DM', config.manual?.dmText],
+    ['Manual invite note', config.manual?.inviteNote],
+  ];
+  return templates.flatMap(([label, template]) => {
+    const unknown = template ? findUnknownVariables(template) : [];
+    return unknown.length > 0
+      ? [`${label} uses unknown variables: ${unknown.join(', ')}`]
+      : [];
+  });
+};
+
+// Falls back to the profile slug, e.g. `jane-smith` becomes `Jane Smith`
+const getCommenterName = (comment: Comment): string => {
+  if (comment.ownerName) return comment.ownerName;
+  if (comment.profile?.name) return comment.profile.name;
+  const slug = comment.ownerProfileUrl.split('/in/')[1]?.split('/')[0] ?? '';
+  return decodeURIComponent(slug)
+    .split('-')
+    .filter((part) => part && !/\d/.test(part))
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join(' ');
+};
+
+/**
+ * Collects the variable values for a comment on a post.
+ * @param persona The tone instructions; they may use variables themselves.
+ */
+export const buildTemplateContext = (
+  comment: Comment,
+  postState: PostState,
+  persona: string = ''
+): TemplateContext => {
+  const name = getCommenterName(comment);
+  const profile = comment.profile;
+  const mutualConnections =
+    profile?.mutualConnections !== undefined
+      ? String(profile.mutualConnections)
+      : '';
+  const position = [profile?.role, profile?.company]
+    .filter(Boolean)
+    .join(' at ');
+  const profileSummary = [
+    profile?.headline && `Headline: ${profile.headline}`,
+    position && `Works as ${position}`,
+    profile?.location && `Location: ${profile.location}`,
+    mutualConnections && `Mutual connections: ${mutualConnections}`,
+  ]
+    .filter(Boolean)
+    .join('\n');
+  const { _meta: post } = postState;
+  const attachments = (post.attachmentTitles ?? []).join('\n');
+  const postContext = [
+    post.author && `Author: ${post.author}`,
+    post.timestamp && `Published: ${post.timestamp}`,
+    post.postText && `Text: '${post.postText}'`,
+    attachments && `Attachments:\n${attachments}`,
+  ]
+    .filter(Boolean)
+    .join('\n');
+  const context: TemplateContext = {
+    'commenter.name': name,
+    'commenter.firstName': name.split(' ')[0] ?? '',
+    'commenter.profileUrl': comment.ownerProfileUrl,
+    'commenter.headline': profile?.headline ?? '',
+    'commenter.role': profile?.role ?? '',
+    'commenter.company': profile?.company ?? '',
+    'commenter.location': profile?.location ?? '',
+    'commenter.mutualConnections': mutualConnections,
+    'commenter.profile': profileSummary,
+    'comment.text': comment.text,
+    'post.text': post.postText ?? '',
+    'post.author': post.author ?? '',
+    'post.timestamp': post.timestamp ?? '',
+    'post.attachments': attachments,
+    'post.context': postContext,
+    'post.url': post.postUrl,
+    'thread.replies': (comment.threadReplies ?? []).join('\n'),
+    'trigger.resource': comment.trigger?.resource ?? '',
+  };
+  context.persona = renderTemplate(persona, context);
+  return context;
+};
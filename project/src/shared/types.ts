@@ -9,10 +9,91 @@ export interface LogEntry {
 
 export type ActionStatus = '' | 'DONE' | 'FAILED' | 'SKIPPED';
 
-export type RunState = 'idle' | 'running' | 'paused' | 'error';
+/**
+ * `halted` is set by the circuit breaker when LinkedIn pushes back or too many
+ * steps fail in a row. Unlike `paused`, a halted run never resumes by itself.
+ */
+export type RunState = 'idle' | 'running' | 'paused' | 'halted' | 'error';
+
+/**
+ * A page state showing that LinkedIn is limiting or blocking the account.
+ */
+export type RestrictionKind =
+  | 'invitation-limit'
+  | 'checkpoint'
+  | 'captcha'
+  | 'restricted'
+  | 'error-toast';
+
+export interface RestrictionSignal {
+  kind: RestrictionKind;
+  // The text or URL that matched, for the logs
+  message: string;
+}
+
+/**
+ * How the pipeline publishes generated content.
+ * - `auto`: replies and DMs are posted as soon as they are generated.
+ * - `approval`: drafts are parked for human review and only approved drafts are posted.
+ * - `dry-run`: everything is generated and logged, but nothing is clicked or sent.
+ */
+export type RunMode = 'auto' | 'approval' | 'dry-run';
+
+export type ReviewStatus = '' | 'PENDING' | 'APPROVED' | 'REJECTED';
+
+export type DraftKind = 'reply' | 'dm';
+
+export type ReviewAction = 'approve' | 'edit' | 'regenerate' | 'reject';
+
+/**
+ * The text of a draft received so far while the AI is still writing it.
+ */
+export interface GenerationPreview {
+  commentId: string;
+  kind: DraftKind;
+  text: string;
+}
+
+export type CommentStep = 'like' | 'reply' | 'dm';
+
+/**
+ * Manual fixes for a single comment.
+ * - `retry`: failed steps are queued again.
+ * - `skip`: every unfinished step is marked `SKIPPED`.
+ * - `reset-step`: one step is queued again, whatever its outcome was.
+ */
+export type CommentAction = 'retry' | 'skip' | 'reset-step';
 
 export type CommentType = 'top-level' | 'reply';
 
+// As shown next to the commenter's name
+export type ConnectionDegree = '1st' | '2nd' | '3rd+';
+
+/**
+ * The order in which a run works through the comments of a post.
+ * - `capture`: as they appear on the page.
+ * - `newest` / `oldest`: by the age LinkedIn shows.
+ * - `longest`: the most substantive comments, by word count.
+ * - `reactions`: the comments with the most reactions.
+ * - `connections`: 1st-degree connections, then 2nd and 3rd+.
+ * - `ai-relevance`: scored 0–100 by the AI, in batches before the run.
+ */
+export type CommentOrdering =
+  | 'capture'
+  | 'newest'
+  | 'oldest'
+  | 'longest'
+  | 'reactions'
+  | 'connections'
+  | 'ai-relevance';
+
+// Where a comment stands in the current run's order; rank 1 goes first
+export interface CommentPriority {
+  rank: number;
+  // What the comment was ranked by, e.g. its age in hours or its word count
+  score?: number;
+}
+
 /**
  * Represents the structured data extracted for a single comment from the DOM.
  * This is the raw data before it's merged into the main state.
@@ -20,11 +101,30 @@ export type CommentType = 'top-level' | 'reply';
 export interface ParsedComment {
   commentId: string;
   ownerProfileUrl: string;
+  ownerName?: string;
   text: string;
   timestamp: string;
   type: CommentType;
   threadId: string;
   hasUserReply?: boolean; // Indicates if this comment already has a reply from the target user
+  // Replies below a top-level comment as "Name: text", for prompt context
+  threadReplies?: string[];
+  // An image, video or document attached to the comment
+  hasMedia?: boolean;
+  connectionDegree?: ConnectionDegree;
+  reactionCount?: number;
+}
+
+/**
+ * The post itself as read from the DOM, given to the AI as context.
+ */
+export interface PostContent {
+  text: string;
+  author: string;
+  // As displayed by LinkedIn, e.g. "2d"
+  timestamp: string;
+  // Titles of attached articles or documents
+  attachmentTitles: string[];
 }
 
 /**
@@ -35,6 +135,7 @@ export interface CapturedPostState {
   postUrn: string | null;
   postUrl: string;
   userProfileUrl?: string;
+  postContent?: PostContent;
 }
 
 export interface ChatMessage {
@@ -42,13 +143,71 @@ export interface ChatMessage {
   content: string;
 }
 
+/**
+ * What was read from a commenter's profile while checking the connection.
+ */
+export interface ProfileSnapshot {
+  name?: string;
+  headline?: string;
+  company?: string;
+  role?: string;
+  location?: string;
+  mutualConnections?: number;
+  capturedAt: string;
+}
+
+export type CommentReaction =
+  | 'like'
+  | 'celebrate'
+  | 'support'
+  | 'love'
+  | 'insightful'
+  | 'funny';
+
+export type CommentSentiment = 'positive' | 'neutral' | 'negative';
+
+/**
+ * The parsed result of a single structured completion for a comment. It holds
+ * both drafts, so the reply and the DM cost one AI call together.
+ */
+export interface StructuredDraft {
+  reply: string;
+  dm: string;
+  // `none` leaves the comment without a reaction
+  reaction: CommentReaction | 'none';
+  skip: boolean;
+  skipReason: string;
+  sentiment: CommentSentiment;
+  // ISO 639-1 code of the comment's language
+  language: string;
+  generatedAt: string;
+}
+
 export interface Comment {
   commentId: string;
   text: string;
   ownerProfileUrl: string;
+  ownerName?: string;
   timestamp: string;
   type: CommentType;
   connected?: boolean;
+  threadReplies?: string[];
+  hasMedia?: boolean;
+  connectionDegree?: ConnectionDegree;
+  reactionCount?: number;
+  profile?: ProfileSnapshot;
+  usage?: GenerationUsage[];
+  // The trigger rule that matched; null when none did, unset until checked
+  trigger?: TriggerMatch | null;
+  // Connection request sent by the invite step or a trigger rule
+  inviteStatus?: ActionStatus;
+  // The allow or block list entry matching the commenter
+  profileRule?: ProfileRuleMatch;
+  // The comment filter that skipped the comment
+  filtered?: CommentFilterSkip;
+  priority?: CommentPriority;
+  // 0–100 from the AI, kept so a resumed run does not score the comment again
+  relevance?: number;
   threadId: string;
   likeStatus: ActionStatus;
   replyStatus: ActionStatus;
@@ -57,6 +216,7 @@ export interface Comment {
     like: number;
     reply: number;
     dm: number;
+    invite?: number;
   };
   lastError: string;
   pipeline: {
@@ -66,6 +226,17 @@ export interface Comment {
     dmAt: string;
     generatedReply?: string;
     generatedDm?: string;
+    // Review state of the drafts when running in approval mode
+    replyReview?: ReviewStatus;
+    dmReview?: ReviewStatus;
+    reviewedAt?: string;
+    invitedAt?: string;
+    // The note sent with the connection request
+    inviteNote?: string;
+    // Set when the drafts came from one structured completion
+    structured?: StructuredDraft;
+    // Guardrails the reply draft still failed after its regenerations
+    guardrailViolations?: string[];
   };
 }
 
@@ -83,55 +254,445 @@ export interface UIState {
   postTimestamp?: string;
   aiConfig?: AIConfig;
   delayCountdownMs?: number | null;
+  generationPreview?: GenerationPreview | null;
+  runUsage?: UsageTotals | null;
+  postUsage?: UsageTotals | null;
+  runMode?: RunMode;
+  steps?: PipelineSteps;
+  ordering?: CommentOrdering;
+  pauseReason?: string | null;
+  // When an automatic pause (quota, quiet hours) is expected to lift
+  resumeAt?: string | null;
+  quotaUsage?: QuotaUsage[];
+  campaign?: Campaign;
+  schedule?: ScheduleSettings;
+  triggerRules?: TriggerRule[];
+  profileRules?: ProfileRule[];
 }
 
 export interface Post {
   postId: string;
   postUrl: string;
+  // The post body, used by the `{{post.text}}` template variable
+  postText?: string;
   lastUpdated: string;
   runState: RunState;
   userProfileUrl?: string;
   author?: string;
   timestamp?: string;
+  attachmentTitles?: string[];
+  usage?: UsageTotals;
+  runMode?: RunMode;
+  steps?: PipelineSteps;
+  ordering?: CommentOrdering;
+  pauseReason?: string;
+  resumeAt?: string;
+}
+
+/**
+ * The steps a run performs for each comment. DMs and connection requests are
+ * sent from the commenter's profile, so both imply the connection check.
+ */
+export interface PipelineSteps {
+  like: boolean;
+  reply: boolean;
+  dm: boolean;
+  connectionCheck: boolean;
+  // Missing on runs started before the step existed
+  invite?: boolean;
+}
+
+export type SimulatedActionType =
+  | 'like'
+  | 'reply'
+  | 'dm'
+  | 'invite'
+  | 'skip'
+  | 'wait';
+
+/**
+ * An action the pipeline would have performed during a dry run.
+ */
+export interface SimulatedAction {
+  type: SimulatedActionType;
+  at: string;
+  commentId?: string;
+  profileUrl?: string;
+  text?: string;
+  delayMs?: number;
+  reason?: string;
+}
+
+/**
+ * The outcome of a dry run. The comments are a working copy, so the real
+ * pipeline statuses of the post are never touched by a simulation.
+ */
+export interface SimulationRun {
+  startedAt: string;
+  finishedAt?: string;
+  settings: {
+    aiEnabled: boolean;
+    model?: string;
+    minDelay?: number;
+    maxDelay?: number;
+  };
+  comments: Comment[];
+  actions: SimulatedAction[];
 }
 
 export interface PostState {
   _meta: Post;
   comments: Comment[];
+  simulation?: SimulationRun;
+}
+
+export type CampaignStatus = 'idle' | 'running' | 'paused' | 'done';
+
+export type CampaignItemStatus = 'queued' | 'running' | 'done' | 'failed';
+
+export interface CampaignItem {
+  postUrn: string;
+  postUrl: string;
+  status: CampaignItemStatus;
+  addedAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  // Comments handled vs. captured, refreshed whenever the post's run ends
+  processed?: number;
+  total?: number;
+  error?: string;
+}
+
+/**
+ * A queue of posts the pipeline works through one after another in a single tab.
+ */
+export interface Campaign {
+  status: CampaignStatus;
+  items: CampaignItem[];
+  runMode: RunMode;
+  maxComments?: number;
+  // Steps and comment order of every post run; unset runs use the defaults
+  steps?: PipelineSteps;
+  ordering?: CommentOrdering;
+  tabId?: number;
+  updatedAt: string;
+}
+
+export type QuotaAction = 'like' | 'reply' | 'dm' | 'profileVisit' | 'invite';
+
+export type QuotaWindow = 'hour' | 'day' | 'week';
+
+/**
+ * Account-wide action limits over rolling windows. A missing or zero limit
+ * means the window is not limited.
+ */
+export type QuotaLimits = Partial<
+  Record<QuotaAction, Partial<Record<QuotaWindow, number>>>
+>;
+
+export interface QuotaUsage {
+  action: QuotaAction;
+  window: QuotaWindow;
+  used: number;
+  limit: number;
+}
+
+export type ContactAction = 'like' | 'reply' | 'dm' | 'invite';
+
+export interface ContactInteraction {
+  action: ContactAction;
+  at: string;
+  postUrn: string;
+  commentId: string;
+}
+
+export type ContactTag = 'lead' | 'partner' | 'hiring' | 'ignore';
+
+/**
+ * A person the pipeline has engaged with, across all posts. Keyed by the
+ * normalised profile URL, see `normalizeProfileUrl`.
+ */
+export interface Contact {
+  profileUrl: string;
+  name?: string;
+  headline?: string;
+  // The latest profile snapshot taken by the connection check
+  profile?: ProfileSnapshot;
+  tags?: ContactTag[];
+  notes?: string;
+  firstSeenAt: string;
+  lastSeenAt: string;
+  // Oldest first
+  interactions: ContactInteraction[];
+}
+
+/**
+ * Days after an action before the same action is taken again for the same
+ * person, on any post. A missing or zero value means no cool-down.
+ */
+export type ContactCooldowns = Partial<Record<ContactAction, number>>;
+
+export type ScheduleTarget = 'post' | 'campaign';
+
+/**
+ * A recurring start time. `days` uses `Date#getDay` numbering (0 = Sunday)
+ * and `time` is a local `HH:MM` string.
+ */
+export interface ScheduleSlot {
+  days: number[];
+  time: string;
+}
+
+export interface QuietHours {
+  enabled: boolean;
+  start: string;
+  end: string;
+}
+
+export interface ScheduleSettings {
+  enabled: boolean;
+  target: ScheduleTarget;
+  postUrn?: string;
+  runMode: RunMode;
+  maxComments?: number;
+  // Unset runs use the default steps and the page order
+  steps?: PipelineSteps;
+  ordering?: CommentOrdering;
+  slots: ScheduleSlot[];
+  quietHours: QuietHours;
+  // Computed when alarms are armed; informational only
+  nextRunAt?: string | null;
+}
+
+export type TriggerMatchType = 'keyword' | 'regex' | 'intent';
+
+/**
+ * Maps comments that match a pattern to a fixed set of actions, e.g. "comment
+ * GUIDE and I'll DM you the guide". Enabled rules are checked in order and the
+ * first match wins.
+ */
+export interface TriggerRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  matchType: TriggerMatchType;
+  // Comma-separated keywords, a regular expression or a description of the
+  // intent for the AI to recognise
+  pattern: string;
+  // Posts the rule applies to; empty for every post
+  postUrns: string[];
+  // Available to the templates as `{{trigger.resource}}`, e.g. a download link
+  resource: string;
+  // Used instead of the AI drafts; an empty template keeps the usual draft
+  replyTemplate: string;
+  nonConnectedReplyTemplate: string;
+  dmTemplate: string;
+  // Sends a connection request to commenters who are not connected
+  connect: boolean;
+  updatedAt: string;
+}
+
+// The rule that matched a comment, captured when the comment was checked
+export interface TriggerMatch {
+  ruleId: string;
+  ruleName: string;
+  resource: string;
+  matchedAt: string;
+}
+
+export type ProfileListType = 'allow' | 'block';
+
+export type ProfileMatchField = 'url' | 'name' | 'headline';
+
+/**
+ * An entry of the allow or block list. Blocked commenters are skipped, allowed
+ * ones are processed before everyone else; a block wins over an allow.
+ */
+export interface ProfileRule {
+  id: string;
+  list: ProfileListType;
+  field: ProfileMatchField;
+  // A profile URL, a name with `*` wildcards or a headline keyword
+  pattern: string;
+  note?: string;
+  createdAt: string;
+}
+
+// The list entry that matched a commenter
+export interface ProfileRuleMatch {
+  ruleId: string;
+  list: ProfileListType;
+  field: ProfileMatchField;
+  pattern: string;
+}
+
+// USD per token, as listed by the provider
+export interface ModelPricing {
+  prompt: number;
+  completion: number;
 }
 
 export interface OpenRouterModel {
   id: string;
   name: string;
   context_length: number;
+  pricing?: ModelPricing;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+/**
+ * Tokens, latency and cost of one AI generation.
+ */
+export interface GenerationUsage extends TokenUsage {
+  kind: DraftKind | 'structured' | 'trigger' | 'invite' | 'score';
+  model: string;
+  latencyMs: number;
+  // null when the model's price is unknown
+  costUsd: number | null;
+  at: string;
+}
+
+/**
+ * Usage summed over many generations, e.g. a run or a post.
+ */
+export interface UsageTotals extends TokenUsage {
+  generations: number;
+  costUsd: number;
+  // Generations whose price was unknown and are missing from `costUsd`
+  unpricedGenerations: number;
 }
 
 export interface ManualConfig {
   replyText?: string;
   nonConnectedText?: string;
   dmText?: string;
+  inviteNote?: string;
+}
+
+/**
+ * The backend that generates replies and DMs.
+ * - `openrouter`: openrouter.ai, the default.
+ * - `openai-compatible`: any server speaking the OpenAI chat completions API at `baseUrl`.
+ * - `anthropic`: the Anthropic Messages API.
+ * - `ollama`: a local Ollama server, so comment text never leaves the machine.
+ * - `mock`: canned replies without any network access, for offline testing.
+ */
+export type AIProviderId =
+  | 'openrouter'
+  | 'openai-compatible'
+  | 'anthropic'
+  | 'ollama'
+  | 'mock';
+
+/**
+ * Checks applied to AI reply drafts before they are posted. Length limits of 0
+ * are off, as is a `maxEmojis` below 0 or a `maxSimilarity` of 0.
+ */
+export interface ReplyGuardrails {
+  enabled: boolean;
+  minLength: number;
+  maxLength: number;
+  // Matched case-insensitively anywhere in the reply
+  bannedPhrases: string[];
+  blockLinks: boolean;
+  blockEmails: boolean;
+  blockPhoneNumbers: boolean;
+  maxEmojis: number;
+  // 0–1; replies at least this alike to one already posted on the post fail
+  maxSimilarity: number;
+  // New drafts requested before giving up on the comment
+  maxRegenerations: number;
+  // What happens to a draft that still fails
+  onFailure: 'review' | 'skip';
+}
+
+/**
+ * Checks applied to comments before any AI call. Limits of 0 are off, as are
+ * empty keyword and language lists.
+ */
+export interface CommentFilters {
+  enabled: boolean;
+  minLength: number;
+  maxLength: number;
+  // Whole words, ignoring case; a comment needs at least one of them
+  mustContain: string[];
+  mustNotContain: string[];
+  // ISO 639-1 codes; comments whose language is not detected reliably pass
+  languages: string[];
+  maxAgeHours: number;
+  media: 'any' | 'with' | 'without';
+  firstDegreeOnly: boolean;
+  skipEmojiOnly: boolean;
+}
+
+export type CommentFilterRule =
+  | 'minLength'
+  | 'maxLength'
+  | 'mustContain'
+  | 'mustNotContain'
+  | 'language'
+  | 'maxAge'
+  | 'media'
+  | 'firstDegree'
+  | 'emojiOnly';
+
+export interface CommentFilterSkip {
+  rule: CommentFilterRule;
+  reason: string;
 }
 
 export interface AIConfig {
-  provider?: string;
+  provider?: AIProviderId;
+  // API root for the `openai-compatible` and `ollama` providers
+  baseUrl?: string;
   apiKey?: string;
   model?: string;
+  // Tried in order when the model fails or is overloaded
+  fallbackModels?: string[];
+  replyGuardrails?: ReplyGuardrails;
+  commentFilters?: CommentFilters;
   temperature?: number;
   top_p?: number;
   max_tokens?: number;
   stream?: boolean;
+  // Ask for one JSON completion with reply, DM, reaction and skip decision
+  structuredOutput?: boolean;
+  // Legacy daily reply cap, used when `quotas.reply.day` is not set
   maxReplies?: number;
+  quotas?: QuotaLimits;
+  // Failed steps in a row after which the run is halted; 0 disables the breaker
+  maxConsecutiveFailures?: number;
+  // AI spend in USD per post after which the run pauses; 0 disables the cap
+  costBudgetUsd?: number;
+  contactCooldowns?: ContactCooldowns;
   minDelay?: number;
   maxDelay?: number;
   requireConnectionForAI?: boolean;
   aiEnabled?: boolean; // Toggle for AI on/off
+  // Personas, prompts and templates may use `{{variables}}`, see promptTemplates.ts
   reply?: {
     customPrompt?: string;
     // AI prompt used when the commenter is not a 1st-degree connection
     nonConnectedPrompt?: string;
+    systemPrompt?: string;
+    template?: string;
   };
   dm?: {
     customPrompt?: string;
+    systemPrompt?: string;
+    template?: string;
+  };
+  // Connection requests sent by the invite step
+  invite?: {
+    // Attach a personalised note; LinkedIn cuts notes at 300 characters
+    note?: boolean;
+    customPrompt?: string;
+    systemPrompt?: string;
+    template?: string;
   };
   manual?: ManualConfig;
   staticTexts?: {
@@ -165,6 +726,8 @@ export type ExtensionMessage =
         maxComments?: number;
         delayMin?: number;
         delayMax?: number;
+        runMode?: RunMode;
+        steps?: Partial<PipelineSteps>;
       };
     }
   | { type: 'STOP_PIPELINE'; payload?: { reason?: string } }
@@ -172,12 +735,75 @@ export type ExtensionMessage =
   | { type: 'GET_PIPELINE_STATUS' }
   | { type: 'GET_AI_CONFIG'; payload?: never }
   | { type: 'UPDATE_AI_CONFIG'; payload: Partial<AIConfig> }
-  | { type: 'GET_MODELS'; payload?: never }
+  | {
+      type: 'GET_MODELS';
+      payload?: Pick<AIConfig, 'apiKey' | 'provider' | 'baseUrl'>;
+    }
+  | { type: 'REQUEST_HOST_ACCESS'; payload: { origins: string[] } }
   | { type: 'REQUEST_POST_STATE_FOR_EXPORT'; payload?: never }
   | { type: 'CAPTURE_POST_STATE'; payload?: never }
   | { type: 'GET_LOG_SETTINGS' }
   | { type: 'UPDATE_LOG_SETTINGS'; payload: Partial<LogSettings> }
   | { type: 'EXPORT_LOGS' }
+  | { type: 'CAMPAIGN_ADD_POSTS'; payload: { entries: string[] } }
+  | { type: 'CAMPAIGN_ADD_FROM_PAGE' }
+  | { type: 'CAMPAIGN_REMOVE_POST'; payload: { postUrn: string } }
+  | {
+      type: 'CAMPAIGN_START';
+      payload?: {
+        runMode?: RunMode;
+        maxComments?: number;
+        steps?: Partial<PipelineSteps>;
+        ordering?: CommentOrdering;
+      };
+    }
+  | { type: 'CAMPAIGN_STOP' }
+  | { type: 'CAMPAIGN_CLEAR' }
+  | { type: 'GET_SCHEDULE' }
+  | {
+      type: 'SAVE_TRIGGER_RULE';
+      payload: Omit<TriggerRule, 'id' | 'updatedAt'> & { id?: string };
+    }
+  | { type: 'DELETE_TRIGGER_RULE'; payload: { id: string } }
+  | {
+      type: 'SAVE_PROFILE_RULE';
+      payload: Omit<ProfileRule, 'id' | 'createdAt'> & { id?: string };
+    }
+  | { type: 'DELETE_PROFILE_RULE'; payload: { id: string } }
+  | {
+      type: 'IMPORT_PROFILE_RULES';
+      payload: { csv: string; list: ProfileListType };
+    }
+  | { type: 'GET_CONTACT'; payload: { profileUrl: string } }
+  | { type: 'LIST_CONTACTS' }
+  | {
+      type: 'UPDATE_CONTACT';
+      payload: { profileUrl: string } & Pick<
+        Partial<Contact>,
+        'tags' | 'notes'
+      >;
+    }
+  | { type: 'UPDATE_SCHEDULE'; payload: Partial<ScheduleSettings> }
+  | {
+      type: 'REVIEW_DRAFT';
+      payload: {
+        postUrn: string;
+        commentId: string;
+        draft: DraftKind;
+        action: ReviewAction;
+        text?: string;
+      };
+    }
+  | { type: 'RETRY_FAILED'; payload: { postUrn: string } }
+  | {
+      type: 'COMMENT_ACTION';
+      payload: {
+        postUrn: string;
+        commentId: string;
+        action: CommentAction;
+        step?: CommentStep;
+      };
+    }
   | {
       type: 'PROCESS_CAPTURED_STATE';
       payload: Omit<CapturedPostState, 'postUrn'> & { postUrn: string };
@@ -1,5 +1,11 @@
 import { writable, derived } from 'svelte/store';
-import type { UIState, LogEntry, RunState, Comment } from '../../shared/types';
+import type {
+  UIState,
+  LogEntry,
+  RunState,
+  Comment,
+  PipelineSteps,
+} from '../../shared/types';
 
 // Sample test data to demonstrate timeline functionality
 const sampleComments: Comment[] = [
@@ -117,6 +123,51 @@ export const pipelineStatus = derived(
 export const stats = derived(uiState, ($state) => $state.stats);
 export const comments = derived(uiState, ($state) => $state.comments);
 export const postUrn = derived(uiState, ($state) => $state.postUrn);
+export const runMode = derived(uiState, ($state) => $state.runMode ?? 'auto');
+export const ordering = derived(
+  uiState,
+  ($state) => $state.ordering ?? 'capture'
+);
+// Runs started before steps were selectable performed every step but invites
+const allPipelineSteps: PipelineSteps = {
+  like: true,
+  reply: true,
+  dm: true,
+  connectionCheck: true,
+  invite: false,
+};
+export const pipelineSteps = derived(
+  uiState,
+  ($state) => $state.steps ?? allPipelineSteps
+);
+export const campaign = derived(uiState, ($state) => $state.campaign);
+export const schedule = derived(uiState, ($state) => $state.schedule);
+export const triggerRules = derived(
+  uiState,
+  ($state) => $state.triggerRules ?? []
+);
+export const profileRules = derived(
+  uiState,
+  ($state) => $state.profileRules ?? []
+);
+export const pauseReason = derived(
+  uiState,
+  ($state) => $state.pauseReason ?? null
+);
+export const resumeAt = derived(uiState, ($state) => $state.resumeAt ?? null);
+export const generationPreview = derived(
+  uiState,
+  ($state) => $state.generationPreview ?? null
+);
+export const quotaUsage = derived(uiState, ($state) => $state.quotaUsage ?? []);
+export const runUsage = derived(uiState, ($state) => $state.runUsage ?? null);
+export const postUsage = derived(uiState, ($state) => $state.postUsage ?? null);
+export const reviewQueue = derived(uiState, ($state) =>
+  $state.comments.filter(
+    (c) =>
+      c.pipeline.replyReview === 'PENDING' || c.pipeline.dmReview === 'PENDING'
+  )
+);
 
 // Store actions with proper TypeScript typing
 export const uiStore = {
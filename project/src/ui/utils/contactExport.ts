@@ -0,0 +1,92 @@
+// Builds CSV and vCard exports of the contact registry for the People section.
+
+import type { Contact, ContactAction } from '../../shared/types';
+
+const countActions = (contact: Contact, action: ContactAction): number =>
+  contact.interactions.filter((i) => i.action === action).length;
+
+const countPosts = (contact: Contact): number =>
+  new Set(contact.interactions.map((i) => i.postUrn)).size;
+
+// Quotes every field so commas, quotes and line breaks survive
+const csvField = (value: string | number | undefined): string =>
+  `"${String(value ?? '').replace(/"/g, '""')}"`;
+
+export function contactsToCsv(contacts: Contact[]): string {
+  const header = [
+    'Name',
+    'Profile URL',
+    'Headline',
+    'Company',
+    'Role',
+    'Location',
+    'Tags',
+    'Notes',
+    'Likes',
+    'Replies',
+    'DMs',
+    'Connection requests',
+    'Posts',
+    'First engaged',
+    'Last engaged',
+  ];
+  const rows = contacts.map((contact) => [
+    contact.name,
+    contact.profileUrl,
+    contact.headline ?? contact.profile?.headline,
+    contact.profile?.company,
+    contact.profile?.role,
+    contact.profile?.location,
+    (contact.tags ?? []).join('; '),
+    contact.notes,
+    countActions(contact, 'like'),
+    countActions(contact, 'reply'),
+    countActions(contact, 'dm'),
+    countActions(contact, 'invite'),
+    countPosts(contact),
+    contact.firstSeenAt,
+    contact.lastSeenAt,
+  ]);
+  return [header, ...rows]
+    .map((row) => row.map(csvField).join(','))
+    .join('\r\n');
+}
+
+// vCard 3.0 text values escape backslashes, commas, semicolons and newlines
+const vCardText = (value: string): string =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/,/g, '\\,')
+    .replace(/;/g, '\\;')
+    .replace(/\r?\n/g, '\\n');
+
+export function contactsToVCard(contacts: Contact[]): string {
+  return contacts
+    .map((contact) => {
+      const name = contact.name || contact.profileUrl;
+      const parts = name.trim().split(/\s+/);
+      const lastName = parts.length > 1 ? parts[parts.length - 1] : '';
+      const firstNames = parts.length > 1 ? parts.slice(0, -1).join(' ') : name;
+      const lines = [
+        'BEGIN:VCARD',
+        'VERSION:3.0',
+        `FN:${vCardText(name)}`,
+        `N:${vCardText(lastName)};${vCardText(firstNames)};;;`,
+        `URL:${contact.profileUrl}`,
+      ];
+      if (contact.profile?.company)
+        lines.push(`ORG:${vCardText(contact.profile.company)}`);
+      const title = contact.profile?.role || contact.headline;
+      if (title) lines.push(`TITLE:${vCardText(title)}`);
+      if (contact.profile?.location)
+        lines.push(
+          `ADR;TYPE=WORK:;;;${vCardText(contact.profile.location)};;;`
+        );
+      if (contact.tags?.length)
+        lines.push(`CATEGORIES:${contact.tags.map(vCardText).join(',')}`);
+      if (contact.notes) lines.push(`NOTE:${vCardText(contact.notes)}`);
+      lines.push('END:VCARD');
+      return lines.join('\r\n');
+    })
+    .join('\r\n');
+}
@@ -0,0 +1,74 @@
+import { test, expect } from '@playwright/test';
+import {
+  AIAuthError,
+  AIContentFilterError,
+  AIQuotaError,
+  AIRateLimitError,
+  AIRequestError,
+  AITransientError,
+  createAIError,
+  parseRetryAfter,
+} from '../../src/background/services/aiErrors';
+
+test('createAIError classifies errors by status', () => {
+  expect(createAIError('Unauthorized', 401)).toBeInstanceOf(AIAuthError);
+  expect(createAIError('Forbidden', 403)).toBeInstanceOf(AIAuthError);
+  expect(createAIError('Payment required', 402)).toBeInstanceOf(AIQuotaError);
+  expect(createAIError('Too many requests', 429)).toBeInstanceOf(
+    AIRateLimitError
+  );
+  expect(createAIError('Timeout', 408)).toBeInstanceOf(AITransientError);
+  expect(createAIError('Bad gateway', 502)).toBeInstanceOf(AITransientError);
+
+  const unknownModel = createAIError('No such model', 400);
+  expect(unknownModel.constructor).toBe(AIRequestError);
+  expect(unknownModel.canFallBack).toBe(true);
+  expect(unknownModel.retryable).toBe(false);
+});
+
+test('createAIError classifies errors by provider code', () => {
+  expect(
+    createAIError('Out of quota', 429, 'insufficient_quota')
+  ).toBeInstanceOf(AIQuotaError);
+  expect(
+    createAIError('Slow down', undefined, 'rate_limit_error')
+  ).toBeInstanceOf(AIRateLimitError);
+  expect(
+    createAIError('Invalid key', undefined, 'authentication_error')
+  ).toBeInstanceOf(AIAuthError);
+  expect(
+    createAIError('Overloaded', undefined, 'overloaded_error')
+  ).toBeInstanceOf(AITransientError);
+  expect(
+    createAIError('Your prompt was flagged by moderation', 400)
+  ).toBeInstanceOf(AIContentFilterError);
+});
+
+test('createAIError keeps rate limits mentioning credits retryable', () => {
+  const error = createAIError(
+    'Rate limit exceeded: free-models-per-day. Add 10 credits to unlock more requests.',
+    429,
+    undefined,
+    5000
+  );
+
+  expect(error).toBeInstanceOf(AIRateLimitError);
+  expect(error.retryable).toBe(true);
+  expect(error.canFallBack).toBe(true);
+  expect(error.retryAfterMs).toBe(5000);
+  // Without a status or code, a message alone does not end the run
+  expect(createAIError('Not enough credits')).not.toBeInstanceOf(AIQuotaError);
+});
+
+test('parseRetryAfter reads seconds and HTTP dates', () => {
+  expect(parseRetryAfter('30')).toBe(30000);
+  expect(parseRetryAfter(null)).toBeUndefined();
+  expect(parseRetryAfter('soon')).toBeUndefined();
+
+  const inOneMinute = parseRetryAfter(
+    new Date(Date.now() + 60 * 1000).toUTCString()
+  );
+  expect(inOneMinute).toBeGreaterThan(58 * 1000);
+  expect(inOneMinute).toBeLessThanOrEqual(60 * 1000);
+  expect(parseRetryAfter(new Date(0).toUTCString())).toBe(0);
+});
@@ -0,0 +1,125 @@
+import { test, expect } from '@playwright/test';
+import type { AIConfig } from '../../src/shared/types';
+import { AIQuotaError } from '../../src/background/services/aiErrors';
+import {
+  createAIProvider,
+  providerRequiresApiKey,
+} from '../../src/background/services/aiProvider';
+import { AnthropicClient } from '../../src/background/services/anthropicClient';
+import { MockAIClient } from '../../src/background/services/mockAIClient';
+import { OllamaClient } from '../../src/background/services/ollamaClient';
+import { OpenAICompatibleClient } from '../../src/background/services/openAICompatibleClient';
+import { OpenRouterClient } from '../../src/background/services/openRouterClient';
+
+const config = (overrides: Partial<AIConfig>) =>
+  ({ model: 'test-model', ...overrides }) as AIConfig;
+
+const realFetch = globalThis.fetch;
+let requests: { url: string; init: RequestInit }[] = [];
+
+// Answers every request with the given JSON body
+const respondWith = (body: unknown) => {
+  globalThis.fetch = async (url, init) => {
+    requests.push({ url: String(url), init: init ?? {} });
+    return new Response(JSON.stringify(body), { status: 200 });
+  };
+};
+
+test.afterEach(() => {
+  globalThis.fetch = realFetch;
+  requests = [];
+});
+
+test('providerRequiresApiKey exempts local servers and gateways', () => {
+  expect(providerRequiresApiKey('openrouter')).toBe(true);
+  expect(providerRequiresApiKey('anthropic')).toBe(true);
+  expect(providerRequiresApiKey(undefined)).toBe(true);
+  expect(providerRequiresApiKey('openai-compatible')).toBe(false);
+  expect(providerRequiresApiKey('ollama')).toBe(false);
+  expect(providerRequiresApiKey('mock')).toBe(false);
+});
+
+test('createAIProvider picks the client of the configured provider', () => {
+  expect(createAIProvider(config({ apiKey: 'sk-or' }))).toBeInstanceOf(
+    OpenRouterClient
+  );
+  expect(
+    createAIProvider(config({ provider: 'anthropic', apiKey: 'sk-ant' }))
+  ).toBeInstanceOf(AnthropicClient);
+  expect(
+    createAIProvider(
+      config({
+        provider: 'openai-compatible',
+        baseUrl: 'http://localhost:1234/v1',
+      })
+    )
+  ).toBeInstanceOf(OpenAICompatibleClient);
+  expect(createAIProvider(config({ provider: 'ollama' }))).toBeInstanceOf(
+    OllamaClient
+  );
+  expect(createAIProvider(config({ provider: 'mock' }))).toBeInstanceOf(
+    MockAIClient
+  );
+});
+
+test('createAIProvider refuses a provider that is not set up', () => {
+  expect(() => createAIProvider(config({ provider: 'anthropic' }))).toThrow(
+    'The API key for anthropic is not set.'
+  );
+  expect(() => createAIProvider(config({ apiKey: '' }))).toThrow(
+    'The API key for openrouter is not set.'
+  );
+  expect(() =>
+    createAIProvider(config({ provider: 'openai-compatible' }))
+  ).toThrow('The base URL of the OpenAI-compatible API is not set.');
+});
+
+test('OpenAI-compatible servers get the chat completions request', async () => {
+  respondWith({
+    choices: [{ message: { content: ' Thanks for reading! ' } }],
+    usage: { prompt_tokens: 42, completion_tokens: 5 },
+  });
+  const provider = createAIProvider(
+    config({
+      provider: 'openai-compatible',
+      baseUrl: 'http://localhost:1234/v1/',
+      apiKey: 'local-key',
+    })
+  );
+  const usages: unknown[] = [];
+
+  const reply = await provider.createChatCompletion(
+    { model: 'test-model', messages: [{ role: 'user', content: 'Hi' }] },
+    { onUsage: (usage) => usages.push(usage) }
+  );
+
+  expect(reply).toBe('Thanks for reading!');
+  expect(usages).toEqual([{ promptTokens: 42, completionTokens: 5 }]);
+  expect(requests).toHaveLength(1);
+  const [{ url, init }] = requests;
+  expect(url).toBe('http://localhost:1234/v1/chat/completions');
+  expect(new Headers(init.headers).get('Authorization')).toBe(
+    'Bearer local-key'
+  );
+  expect(JSON.parse(String(init.body))).toMatchObject({
+    model: 'test-model',
+    messages: [{ role: 'user', content: 'Hi' }],
+    stream: false,
+  });
+});
+
+test('errors sent with a successful response are classified', async () => {
+  respondWith({
+    error: { message: 'You exceeded your quota', code: 'insufficient_quota' },
+  });
+  const provider = createAIProvider(
+    config({ provider: 'openai-compatible', baseUrl: 'http://localhost:1234' })
+  );
+
+  await expect(
+    provider.createChatCompletion({
+      model: 'test-model',
+      messages: [{ role: 'user', content: 'Hi' }],
+    })
+  ).rejects.toBeInstanceOf(AIQuotaError);
+});
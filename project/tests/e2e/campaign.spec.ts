@@ -0,0 +1,117 @@
+import { test, expect } from '@playwright/test';
+import {
+  addCampaignPosts,
+  clearCampaign,
+  getCampaign,
+  initCampaignManager,
+  removeCampaignPost,
+  startCampaign,
+} from '../../src/background/services/campaignManager';
+import { stopPipeline } from '../../src/background/services/pipelineManager';
+import { createComments } from './fixtures/comment';
+import {
+  PAGE_STEPS,
+  broadcasts,
+  contentScript,
+  savePost,
+  setUpPipeline,
+} from './fixtures/pipeline';
+
+test.beforeEach(async () => {
+  await setUpPipeline();
+  await initCampaignManager((state) => broadcasts.push(state));
+  await clearCampaign();
+});
+
+test('addCampaignPosts accepts post URLs and URNs once each', async () => {
+  const result = await addCampaignPosts([
+    'https://www.linkedin.com/feed/update/urn:li:activity:7100000000000000001/',
+    'urn:li:activity:7100000000000000001',
+    'https://www.linkedin.com/posts/jane-doe_release-activity-7100000000000000002-AbCd',
+    '   ',
+    'https://www.linkedin.com/in/jane-doe/',
+  ]);
+
+  expect(result).toEqual({
+    added: 2,
+    invalid: ['https://www.linkedin.com/in/jane-doe/'],
+  });
+  expect(getCampaign().items.map((i) => [i.postUrn, i.postUrl])).toEqual([
+    [
+      'urn:li:activity:7100000000000000001',
+      'https://www.linkedin.com/feed/update/urn:li:activity:7100000000000000001',
+    ],
+    [
+      'urn:li:activity:7100000000000000002',
+      'https://www.linkedin.com/feed/update/urn:li:activity:7100000000000000002',
+    ],
+  ]);
+
+  await removeCampaignPost('urn:li:activity:7100000000000000001');
+  expect(getCampaign().items.map((i) => i.postUrn)).toEqual([
+    'urn:li:activity:7100000000000000002',
+  ]);
+});
+
+test('startCampaign refuses an empty queue and runs without action steps', async () => {
+  await expect(startCampaign(1)).rejects.toThrow(
+    'The campaign has no queued posts.'
+  );
+
+  await addCampaignPosts(['urn:li:activity:7100000000000000003']);
+  await expect(
+    startCampaign(1, {
+      steps: { ...PAGE_STEPS, like: false, reply: false },
+    })
+  ).rejects.toThrow(
+    'Select at least one of like, reply, DM or connection request.'
+  );
+  expect(getCampaign().status).toBe('idle');
+});
+
+test('campaigns work through the queued posts in one tab', async () => {
+  const first = await savePost(createComments(1));
+  const second = await savePost(createComments(2));
+  await addCampaignPosts([first.postUrn, second.postUrn]);
+
+  await startCampaign(first.tabId, { steps: { ...PAGE_STEPS } });
+  // The second post is opened in the campaign tab, which takes a few seconds
+  await expect
+    .poll(() => getCampaign().status, { timeout: 20_000 })
+    .toBe('done');
+
+  expect(
+    getCampaign().items.map(({ status, processed, total }) => ({
+      status,
+      processed,
+      total,
+    }))
+  ).toEqual([
+    { status: 'done', processed: 1, total: 1 },
+    { status: 'done', processed: 2, total: 2 },
+  ]);
+  const likes = contentScript.sent.filter((m) => m.type === 'LIKE_COMMENT');
+  expect(likes).toHaveLength(3);
+  expect(likes.every((m) => m.tabId === first.tabId)).toBe(true);
+});
+
+test('stopping the run of a post pauses the campaign and queues the post again', async () => {
+  const { postUrn, tabId } = await savePost(createComments(1));
+  await addCampaignPosts([postUrn]);
+  let releaseLike: (liked: boolean) => void = () => {};
+  contentScript.replies.LIKE_COMMENT = () =>
+    new Promise<boolean>((resolve) => {
+      releaseLike = resolve;
+    });
+
+  await startCampaign(tabId, { steps: { ...PAGE_STEPS } });
+  await expect.poll(() => contentScript.actions().length).toBe(1);
+  await expect(removeCampaignPost(postUrn)).rejects.toThrow(
+    'Cannot remove the post that is currently being processed.'
+  );
+
+  await stopPipeline('user');
+  releaseLike(true);
+  await expect.poll(() => getCampaign().status).toBe('paused');
+  expect(getCampaign().items[0].status).toBe('queued');
+});
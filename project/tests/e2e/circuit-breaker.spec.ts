@@ -0,0 +1,88 @@
+import { test, expect } from '@playwright/test';
+import type { RestrictionSignal } from '../../src/shared/types';
+import {
+  getPipelineStatus,
+  resumePipeline,
+  startPipeline,
+} from '../../src/background/services/pipelineManager';
+import { getPostState } from '../../src/background/services/stateManager';
+import { fakeChrome } from './fixtures/chrome';
+import { createComments } from './fixtures/comment';
+import {
+  PAGE_STEPS,
+  contentScript,
+  savePost,
+  setUpPipeline,
+  waitForRunEnd,
+} from './fixtures/pipeline';
+
+const CAPTCHA: RestrictionSignal = {
+  kind: 'captcha',
+  message: 'Let’s do a quick security check',
+};
+
+test('a restriction signal halts the run before the next comment', async () => {
+  await setUpPipeline();
+  const { postUrn, tabId } = await savePost(createComments(2));
+  contentScript.replies.CHECK_RESTRICTIONS = CAPTCHA;
+
+  const runEnd = waitForRunEnd();
+  await startPipeline(postUrn, tabId, undefined, 'auto', { ...PAGE_STEPS });
+  expect(await runEnd).toMatchObject({ status: 'halted', completed: false });
+
+  expect(contentScript.actions()).toEqual([]);
+  expect(getPostState(postUrn)!._meta).toMatchObject({
+    runState: 'halted',
+    pauseReason: 'restriction:captcha',
+  });
+  // Halted runs are not resumed by an alarm
+  expect(fakeChrome.alarms.has(`pipeline:auto-resume:${postUrn}`)).toBe(false);
+
+  // Only the user resumes it, once the signal is gone
+  contentScript.replies.CHECK_RESTRICTIONS = null;
+  const resumedEnd = waitForRunEnd();
+  await resumePipeline(postUrn, tabId);
+  expect(await resumedEnd).toMatchObject({ status: 'idle', completed: true });
+});
+
+test('a restriction shown after a failed like stops its retries', async () => {
+  await setUpPipeline();
+  const { postUrn, tabId } = await savePost(createComments(1));
+  contentScript.replies.LIKE_COMMENT = false;
+  // The page pushes back as soon as the first like fails
+  contentScript.replies.CHECK_RESTRICTIONS = () =>
+    contentScript.actions().length > 0 ? CAPTCHA : null;
+
+  const runEnd = waitForRunEnd();
+  await startPipeline(postUrn, tabId, undefined, 'auto', {
+    ...PAGE_STEPS,
+    reply: false,
+  });
+  expect(await runEnd).toMatchObject({ status: 'halted' });
+
+  expect(contentScript.actions()).toHaveLength(1);
+  expect(getPostState(postUrn)!.comments[0].likeStatus).toBe('FAILED');
+  expect(getPostState(postUrn)!._meta.pauseReason).toBe('restriction:captcha');
+});
+
+test('too many failed steps in a row halt the run', async () => {
+  await setUpPipeline({ maxConsecutiveFailures: 1 });
+  const { postUrn, tabId } = await savePost(createComments(2));
+  contentScript.replies.LIKE_COMMENT = false;
+
+  const runEnd = waitForRunEnd();
+  await startPipeline(postUrn, tabId, undefined, 'auto', {
+    ...PAGE_STEPS,
+    reply: false,
+  });
+  // A failed like is retried with backoff first, which takes a few seconds
+  expect(await runEnd).toMatchObject({ status: 'halted' });
+
+  expect(getPipelineStatus()).toBe('halted');
+  expect(getPostState(postUrn)!._meta.pauseReason).toBe('consecutive-failures');
+  expect(getPostState(postUrn)!.comments.map((c) => c.likeStatus)).toEqual([
+    'FAILED',
+    '',
+  ]);
+  expect(contentScript.actions()).toHaveLength(3);
+});
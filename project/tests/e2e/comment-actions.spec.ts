@@ -0,0 +1,144 @@
+import { test, expect } from '@playwright/test';
+import {
+  applyCommentAction,
+  retryFailedSteps,
+  startPipeline,
+} from '../../src/background/services/pipelineManager';
+import { getPostState } from '../../src/background/services/stateManager';
+import { createComments } from './fixtures/comment';
+import {
+  PAGE_STEPS,
+  contentScript,
+  savePost,
+  setUpPipeline,
+  waitForRunEnd,
+} from './fixtures/pipeline';
+
+const FIRST = 'urn:li:comment:(activity:1,1)';
+
+const getComment = (postUrn: string, commentId: string) =>
+  getPostState(postUrn)!.comments.find((c) => c.commentId === commentId)!;
+
+test.beforeEach(async () => {
+  await setUpPipeline();
+});
+
+test('retryFailedSteps queues the failed steps again and resumes the post', async () => {
+  const [failed, done] = createComments(2);
+  const { postUrn, tabId } = await savePost(
+    [
+      {
+        ...failed,
+        likeStatus: 'DONE',
+        replyStatus: 'FAILED',
+        attempts: { like: 1, reply: 4, dm: 0 },
+        lastError: 'Content script failed to reply',
+      },
+      { ...done, likeStatus: 'DONE', replyStatus: 'DONE' },
+    ],
+    { steps: { ...PAGE_STEPS } }
+  );
+
+  const runEnd = waitForRunEnd();
+  expect(await retryFailedSteps(postUrn, tabId)).toBe(1);
+  expect(await runEnd).toMatchObject({ postUrn, completed: true });
+
+  expect(contentScript.actions()).toEqual([
+    expect.objectContaining({
+      type: 'REPLY_TO_COMMENT',
+      payload: expect.objectContaining({ commentId: FIRST }),
+    }),
+  ]);
+  expect(getComment(postUrn, FIRST)).toMatchObject({
+    replyStatus: 'DONE',
+    lastError: '',
+    attempts: { reply: 1 },
+  });
+  expect(await retryFailedSteps(postUrn, tabId)).toBe(0);
+});
+
+test('comments of the running post cannot be changed', async () => {
+  const { postUrn, tabId } = await savePost(createComments(1));
+  let releaseLike: (liked: boolean) => void = () => {};
+  contentScript.replies.LIKE_COMMENT = () =>
+    new Promise<boolean>((resolve) => {
+      releaseLike = resolve;
+    });
+
+  const runEnd = waitForRunEnd();
+  await startPipeline(postUrn, tabId, undefined, 'auto', { ...PAGE_STEPS });
+  await expect.poll(() => contentScript.actions().length).toBe(1);
+  await expect(applyCommentAction(postUrn, FIRST, 'skip')).rejects.toThrow(
+    'Pause the pipeline before changing comments.'
+  );
+  await expect(retryFailedSteps(postUrn)).rejects.toThrow(
+    'Pause the pipeline before changing comments.'
+  );
+  releaseLike(true);
+  await runEnd;
+});
+
+test('skipping a comment settles its open steps and rejects its drafts', async () => {
+  const [comment] = createComments(1);
+  const { postUrn } = await savePost([
+    {
+      ...comment,
+      likeStatus: 'DONE',
+      pipeline: {
+        ...comment.pipeline,
+        generatedReply: 'Thanks!',
+        replyReview: 'PENDING',
+      },
+    },
+  ]);
+
+  const skipped = await applyCommentAction(postUrn, FIRST, 'skip');
+
+  expect(skipped).toMatchObject({
+    likeStatus: 'DONE',
+    replyStatus: 'SKIPPED',
+    dmStatus: 'SKIPPED',
+    lastError: 'Skipped manually',
+    pipeline: { replyReview: 'REJECTED' },
+  });
+  await expect(applyCommentAction(postUrn, FIRST, 'retry')).rejects.toThrow(
+    'This comment has no failed steps to retry.'
+  );
+});
+
+test('resetting a step queues it again and drops its draft', async () => {
+  const [comment] = createComments(1);
+  const { postUrn } = await savePost([
+    {
+      ...comment,
+      likeStatus: 'DONE',
+      replyStatus: 'DONE',
+      connected: true,
+      pipeline: {
+        ...comment.pipeline,
+        likedAt: '2025-06-02T12:01:00.000Z',
+        repliedAt: '2025-06-02T12:02:00.000Z',
+        generatedReply: 'Thanks!',
+        replyReview: 'APPROVED',
+      },
+    },
+  ]);
+
+  await expect(
+    applyCommentAction(postUrn, FIRST, 'reset-step')
+  ).rejects.toThrow('A step to reset is required.');
+  const reset = await applyCommentAction(postUrn, FIRST, 'reset-step', 'reply');
+
+  expect(reset).toMatchObject({
+    likeStatus: 'DONE',
+    replyStatus: '',
+    connected: true,
+    pipeline: { likedAt: '2025-06-02T12:01:00.000Z', repliedAt: '' },
+  });
+  expect(reset.pipeline.generatedReply).toBeUndefined();
+  expect(reset.pipeline.replyReview).toBeUndefined();
+  // Resetting the DM checks the connection again
+  expect(
+    (await applyCommentAction(postUrn, FIRST, 'reset-step', 'dm')).connected
+  ).toBeUndefined();
+});
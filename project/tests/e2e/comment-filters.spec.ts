@@ -0,0 +1,274 @@
+import { test, expect } from '@playwright/test';
+import type { CommentFilters } from '../../src/shared/types';
+import { evaluateCommentFilters } from '../../src/background/services/commentFilters';
+import { fakeChrome } from './fixtures/chrome';
+import { QUEUED_AT, createComment } from './fixtures/comment';
+
+const HOUR_MS = 60 * 60 * 1000;
+const NOW = Date.parse(QUEUED_AT) + HOUR_MS;
+
+// Every filter is turned off; each test turns on the ones it checks
+const filters: CommentFilters = {
+  enabled: true,
+  minLength: 0,
+  maxLength: 0,
+  mustContain: [],
+  mustNotContain: [],
+  languages: [],
+  maxAgeHours: 0,
+  media: 'any',
+  firstDegreeOnly: false,
+  skipEmojiOnly: false,
+};
+
+test.beforeEach(() => {
+  fakeChrome.reset();
+});
+
+test('evaluateCommentFilters passes every comment when turned off', async () => {
+  const comment = createComment({ text: '🔥', connectionDegree: '3rd+' });
+
+  expect(
+    await evaluateCommentFilters(
+      comment,
+      { ...filters, enabled: false, minLength: 10, firstDegreeOnly: true },
+      NOW
+    )
+  ).toBeNull();
+});
+
+test('evaluateCommentFilters skips comments that are only emojis', async () => {
+  const emojiOnly = { ...filters, skipEmojiOnly: true };
+
+  expect(
+    await evaluateCommentFilters(
+      createComment({ text: ' 🔥🔥 👏🏽! ❤️ 👨\u200d💻' }),
+      emojiOnly,
+      NOW
+    )
+  ).toEqual({ rule: 'emojiOnly', reason: 'Comment is only emojis' });
+  expect(
+    await evaluateCommentFilters(
+      createComment({ text: '🔥 Great read' }),
+      emojiOnly,
+      NOW
+    )
+  ).toBeNull();
+  // Punctuation alone is not an emoji
+  expect(
+    await evaluateCommentFilters(createComment({ text: '!!!' }), emojiOnly, NOW)
+  ).toBeNull();
+});
+
+test('evaluateCommentFilters checks the trimmed length', async () => {
+  const lengths = { ...filters, minLength: 10, maxLength: 20 };
+
+  expect(
+    await evaluateCommentFilters(
+      createComment({ text: '  Nice!  ' }),
+      lengths,
+      NOW
+    )
+  ).toEqual({
+    rule: 'minLength',
+    reason: 'Too short (5 characters, min 10)',
+  });
+  expect(
+    await evaluateCommentFilters(
+      createComment({ text: 'This was a really helpful post' }),
+      lengths,
+      NOW
+    )
+  ).toEqual({
+    rule: 'maxLength',
+    reason: 'Too long (30 characters, max 20)',
+  });
+  expect(
+    await evaluateCommentFilters(
+      createComment({ text: 'Very helpful post' }),
+      lengths,
+      NOW
+    )
+  ).toBeNull();
+});
+
+test('evaluateCommentFilters matches keywords as whole words in any case', async () => {
+  const keywords = {
+    ...filters,
+    mustContain: ['guide', ' ', 'template'],
+    mustNotContain: ['DM me', 'c++'],
+  };
+
+  expect(
+    await evaluateCommentFilters(
+      createComment({ text: 'Could you send me the GUIDE?' }),
+      keywords,
+      NOW
+    )
+  ).toBeNull();
+  expect(
+    await evaluateCommentFilters(
+      createComment({ text: 'Loved the guidebook' }),
+      keywords,
+      NOW
+    )
+  ).toEqual({
+    rule: 'mustContain',
+    reason: 'Contains none of: "guide", "template"',
+  });
+  expect(
+    await evaluateCommentFilters(
+      createComment({ text: 'Nice template, dm me for C++ help' }),
+      keywords,
+      NOW
+    )
+  ).toEqual({
+    rule: 'mustNotContain',
+    reason: 'Contains "DM me", "c++"',
+  });
+});
+
+test('evaluateCommentFilters checks for images and videos', async () => {
+  const withMedia = createComment({ hasMedia: true });
+  const withoutMedia = createComment();
+
+  expect(
+    await evaluateCommentFilters(
+      withoutMedia,
+      { ...filters, media: 'with' },
+      NOW
+    )
+  ).toEqual({ rule: 'media', reason: 'Comment has no image or video' });
+  expect(
+    await evaluateCommentFilters(withMedia, { ...filters, media: 'with' }, NOW)
+  ).toBeNull();
+  expect(
+    await evaluateCommentFilters(
+      withMedia,
+      { ...filters, media: 'without' },
+      NOW
+    )
+  ).toEqual({ rule: 'media', reason: 'Comment has an image or video' });
+});
+
+test('evaluateCommentFilters ages comments from when they were captured', async () => {
+  const maxAge = { ...filters, maxAgeHours: 24 };
+
+  // Shown as 23 hours old an hour before the check
+  expect(
+    await evaluateCommentFilters(
+      createComment({ timestamp: '23h' }),
+      maxAge,
+      NOW
+    )
+  ).toBeNull();
+  expect(
+    await evaluateCommentFilters(
+      createComment({ timestamp: '23h' }),
+      maxAge,
+      NOW + HOUR_MS
+    )
+  ).toEqual({ rule: 'maxAge', reason: 'Older than 24 hours' });
+  expect(
+    await evaluateCommentFilters(
+      createComment({ timestamp: '2w' }),
+      maxAge,
+      NOW
+    )
+  ).toEqual({ rule: 'maxAge', reason: 'Older than 24 hours' });
+  // Comments without a readable age are kept
+  expect(
+    await evaluateCommentFilters(
+      createComment({ timestamp: 'Edited' }),
+      maxAge,
+      NOW
+    )
+  ).toBeNull();
+});
+
+test('evaluateCommentFilters keeps 1st-degree connections only when asked', async () => {
+  const firstDegree = { ...filters, firstDegreeOnly: true };
+
+  expect(
+    await evaluateCommentFilters(
+      createComment({ connectionDegree: '2nd' }),
+      firstDegree,
+      NOW
+    )
+  ).toEqual({
+    rule: 'firstDegree',
+    reason: 'Commenter is a 2nd degree connection',
+  });
+  expect(
+    await evaluateCommentFilters(
+      createComment({ connected: false }),
+      firstDegree,
+      NOW
+    )
+  ).toEqual({ rule: 'firstDegree', reason: 'Commenter is not a connection' });
+  expect(
+    await evaluateCommentFilters(
+      createComment({ connectionDegree: '1st' }),
+      firstDegree,
+      NOW
+    )
+  ).toBeNull();
+  // Not known before the connection check
+  expect(
+    await evaluateCommentFilters(createComment(), firstDegree, NOW)
+  ).toBeNull();
+});
+
+test('evaluateCommentFilters skips comments reliably detected in another language', async () => {
+  const languages = { ...filters, languages: ['EN', 'fr-FR'] };
+  const comment = createComment({ text: 'Danke für den tollen Beitrag!' });
+
+  // The language filter asks the browser's detector
+  fakeChrome.detectedLanguage = {
+    isReliable: true,
+    languages: [{ language: 'de-DE', percentage: 97 }],
+  };
+  expect(await evaluateCommentFilters(comment, languages, NOW)).toEqual({
+    rule: 'language',
+    reason: 'Written in "de", not "en", "fr"',
+  });
+  expect(
+    await evaluateCommentFilters(
+      comment,
+      { ...filters, languages: ['de'] },
+      NOW
+    )
+  ).toBeNull();
+
+  fakeChrome.detectedLanguage.isReliable = false;
+  expect(await evaluateCommentFilters(comment, languages, NOW)).toBeNull();
+});
+
+test('evaluateCommentFilters reports the first filter a comment fails', async () => {
+  const comment = createComment({
+    text: '👍',
+    connectionDegree: '3rd+',
+    timestamp: '3d',
+  });
+
+  expect(
+    await evaluateCommentFilters(
+      comment,
+      {
+        ...filters,
+        skipEmojiOnly: true,
+        minLength: 10,
+        maxAgeHours: 24,
+        firstDegreeOnly: true,
+      },
+      NOW
+    )
+  ).toMatchObject({ rule: 'emojiOnly' });
+  expect(
+    await evaluateCommentFilters(
+      comment,
+      { ...filters, maxAgeHours: 24, firstDegreeOnly: true },
+      NOW
+    )
+  ).toMatchObject({ rule: 'maxAge' });
+});
@@ -0,0 +1,122 @@
+import { test, expect } from '@playwright/test';
+import type { Comment } from '../../src/shared/types';
+import {
+  parseRelevanceScores,
+  rankComments,
+} from '../../src/background/services/commentOrdering';
+import { QUEUED_AT, createComment } from './fixtures/comment';
+
+const NOW = Date.parse(QUEUED_AT);
+
+const ids = (comments: Comment[]) => comments.map((c) => c.commentId);
+
+const createComments = (...overrides: Partial<Comment>[]) =>
+  overrides.map((override, index) =>
+    createComment({ commentId: `c${index + 1}`, ...override })
+  );
+
+test('rankComments keeps the page order and numbers the ranks', () => {
+  const comments = createComments({}, {}, {});
+
+  const ranked = rankComments(comments, 'capture', NOW);
+  expect(ids(ranked)).toEqual(['c1', 'c2', 'c3']);
+  expect(ranked.map((c) => c.priority)).toEqual([
+    { rank: 1, score: undefined },
+    { rank: 2, score: undefined },
+    { rank: 3, score: undefined },
+  ]);
+});
+
+test('rankComments orders by age, with unknown ages last', () => {
+  const comments = createComments(
+    { timestamp: '3h' },
+    { timestamp: 'Edited' },
+    { timestamp: '5m' },
+    { timestamp: '2d' }
+  );
+
+  expect(ids(rankComments(comments, 'newest', NOW))).toEqual([
+    'c3',
+    'c1',
+    'c4',
+    'c2',
+  ]);
+  expect(ids(rankComments(comments, 'oldest', NOW))).toEqual([
+    'c4',
+    'c1',
+    'c3',
+    'c2',
+  ]);
+  // Ages are scored in whole hours
+  expect(comments.find((c) => c.commentId === 'c4')?.priority).toEqual({
+    rank: 1,
+    score: 48,
+  });
+});
+
+test('rankComments orders by words, reactions and connection degree', () => {
+  const comments = createComments(
+    { text: 'Nice 👍', reactionCount: 3, connected: false },
+    {
+      text: 'How did you measure the results?',
+      connectionDegree: '2nd',
+    },
+    { text: 'Great post, thank you', reactionCount: 12, connected: true },
+    { text: '🔥 🔥 🔥', connectionDegree: '1st' }
+  );
+
+  expect(ids(rankComments(comments, 'longest', NOW))).toEqual([
+    'c2',
+    'c3',
+    'c1',
+    'c4',
+  ]);
+  expect(ids(rankComments(comments, 'reactions', NOW))).toEqual([
+    'c3',
+    'c1',
+    'c2',
+    'c4',
+  ]);
+  // The connection check counts as 1st degree or 3rd+
+  expect(ids(rankComments(comments, 'connections', NOW))).toEqual([
+    'c3',
+    'c4',
+    'c2',
+    'c1',
+  ]);
+});
+
+test('rankComments orders by AI relevance, with unscored comments last', () => {
+  const comments = createComments(
+    { relevance: 40 },
+    {},
+    { relevance: 90 },
+    { relevance: 40 }
+  );
+
+  expect(ids(rankComments(comments, 'ai-relevance', NOW))).toEqual([
+    'c3',
+    'c1',
+    'c4',
+    'c2',
+  ]);
+});
+
+test('parseRelevanceScores reads one score per numbered line', () => {
+  expect(parseRelevanceScores('1: 80\n2. 15\n3) 100\n4 - 35', 4)).toEqual([
+    80, 15, 100, 35,
+  ]);
+});
+
+test('parseRelevanceScores tolerates formatting and ignores stray lines', () => {
+  const answer = [
+    'Here are the scores:',
+    '- 1: 72',
+    '3: 250',
+    '7: 50',
+    '0: 10',
+  ].join('\n');
+
+  expect(parseRelevanceScores(answer, 3)).toEqual([72, undefined, 100]);
+  expect(parseRelevanceScores('', 2)).toEqual([undefined, undefined]);
+});
@@ -0,0 +1,81 @@
+import { test, expect } from '@playwright/test';
+import {
+  findContactCooldown,
+  getContact,
+  recordContactAction,
+} from '../../src/background/services/contactRegistry';
+import { startPipeline } from '../../src/background/services/pipelineManager';
+import { getPostState } from '../../src/background/services/stateManager';
+import { createComments } from './fixtures/comment';
+import {
+  PAGE_STEPS,
+  contentScript,
+  savePost,
+  setUpPipeline,
+  waitForRunEnd,
+} from './fixtures/pipeline';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+test('actions are recorded per person across profile URL spellings', async () => {
+  await setUpPipeline();
+  const [first, second] = createComments(2, {
+    ownerProfileUrl: 'https://www.linkedin.com/in/Jane-Smith/?miniProfile=1',
+  });
+
+  await recordContactAction(first, 'dm', 'urn:li:activity:1');
+  await recordContactAction(second, 'like', 'urn:li:activity:2');
+
+  const contact = getContact('https://linkedin.com/in/jane-smith')!;
+  expect(contact.profileUrl).toBe('https://www.linkedin.com/in/jane-smith/');
+  expect(contact.interactions).toEqual([
+    expect.objectContaining({ action: 'dm', postUrn: 'urn:li:activity:1' }),
+    expect.objectContaining({ action: 'like', postUrn: 'urn:li:activity:2' }),
+  ]);
+});
+
+test('the cool-down of an action only holds back the same action', async () => {
+  await setUpPipeline();
+  const [comment] = createComments(1);
+  await recordContactAction(comment, 'dm', 'urn:li:activity:1');
+  await recordContactAction(comment, 'like', 'urn:li:activity:1');
+  const url = comment.ownerProfileUrl;
+
+  // DMs wait 30 days by default, likes not at all
+  expect(findContactCooldown(url, 'dm')).toMatchObject({ action: 'dm' });
+  expect(findContactCooldown(url, 'dm', Date.now() + 31 * DAY_MS)).toBeNull();
+  expect(findContactCooldown(url, 'like')).toBeNull();
+  expect(findContactCooldown(url, 'invite')).toBeNull();
+});
+
+test('a person answered on another post is not answered again', async () => {
+  await setUpPipeline({ contactCooldowns: { reply: 7 } });
+  const [comment] = createComments(1);
+  const earlier = await savePost([comment]);
+  const later = await savePost([
+    { ...comment, commentId: 'urn:li:comment:(activity:2,1)' },
+  ]);
+
+  let runEnd = waitForRunEnd();
+  await startPipeline(earlier.postUrn, earlier.tabId, undefined, 'auto', {
+    ...PAGE_STEPS,
+  });
+  await runEnd;
+  runEnd = waitForRunEnd();
+  await startPipeline(later.postUrn, later.tabId, undefined, 'auto', {
+    ...PAGE_STEPS,
+  });
+  await runEnd;
+
+  expect(contentScript.actions().map((message) => message.type)).toEqual([
+    'LIKE_COMMENT',
+    'REPLY_TO_COMMENT',
+    'LIKE_COMMENT',
+  ]);
+  const today = new Date().toISOString().slice(0, 10);
+  expect(getPostState(later.postUrn)!.comments[0]).toMatchObject({
+    likeStatus: 'DONE',
+    replyStatus: 'SKIPPED',
+    lastError: `Reply skipped: replied to this person on ${today}, within the cool-down.`,
+  });
+});
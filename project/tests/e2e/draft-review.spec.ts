@@ -0,0 +1,137 @@
+import { test, expect } from '@playwright/test';
+import {
+  reviewDraft,
+  startPipeline,
+} from '../../src/background/services/pipelineManager';
+import { getPostState } from '../../src/background/services/stateManager';
+import { createComments } from './fixtures/comment';
+import {
+  PAGE_STEPS,
+  contentScript,
+  savePost,
+  setUpPipeline,
+  waitForRunEnd,
+} from './fixtures/pipeline';
+
+const FIRST = 'urn:li:comment:(activity:1,1)';
+const SECOND = 'urn:li:comment:(activity:1,2)';
+
+const getComment = (postUrn: string, commentId: string) =>
+  getPostState(postUrn)!.comments.find((c) => c.commentId === commentId)!;
+
+// Runs a post in approval mode until every reply draft is parked
+const parkReplies = async () => {
+  const post = await savePost(createComments(2));
+  const runEnd = waitForRunEnd();
+  await startPipeline(post.postUrn, post.tabId, undefined, 'approval', {
+    ...PAGE_STEPS,
+  });
+  expect(await runEnd).toMatchObject({ status: 'idle', completed: true });
+  return post;
+};
+
+test.beforeEach(async () => {
+  await setUpPipeline();
+});
+
+test('approval runs like comments but park the reply drafts', async () => {
+  const { postUrn } = await parkReplies();
+
+  expect(contentScript.actions().map((m) => m.type)).toEqual([
+    'LIKE_COMMENT',
+    'LIKE_COMMENT',
+  ]);
+  [FIRST, SECOND].forEach((commentId) => {
+    const comment = getComment(postUrn, commentId);
+    expect(comment.likeStatus).toBe('DONE');
+    expect(comment.replyStatus).toBe('');
+    expect(comment.pipeline.replyReview).toBe('PENDING');
+    expect(comment.pipeline.generatedReply).toBeTruthy();
+  });
+});
+
+test('approving a draft resumes the run and posts the approved text', async () => {
+  const { postUrn, tabId } = await parkReplies();
+  contentScript.sent = [];
+
+  await reviewDraft(postUrn, SECOND, 'reply', 'reject');
+  expect(getComment(postUrn, SECOND)).toMatchObject({
+    replyStatus: 'SKIPPED',
+    lastError: 'Reply draft rejected during review',
+  });
+
+  const runEnd = waitForRunEnd();
+  await reviewDraft(
+    postUrn,
+    FIRST,
+    'reply',
+    'approve',
+    ' Thanks, Jane! ',
+    tabId
+  );
+  expect(await runEnd).toMatchObject({ status: 'idle', completed: true });
+
+  expect(contentScript.actions()).toEqual([
+    {
+      tabId,
+      type: 'REPLY_TO_COMMENT',
+      payload: { commentId: FIRST, replyText: 'Thanks, Jane!' },
+    },
+  ]);
+  expect(getComment(postUrn, FIRST)).toMatchObject({
+    replyStatus: 'DONE',
+    pipeline: { replyReview: 'APPROVED', generatedReply: 'Thanks, Jane!' },
+  });
+});
+
+test('edited drafts stay parked and empty drafts cannot be approved', async () => {
+  const { postUrn } = await parkReplies();
+
+  await reviewDraft(postUrn, FIRST, 'reply', 'edit', 'Glad it helped!');
+  expect(getComment(postUrn, FIRST).pipeline).toMatchObject({
+    replyReview: 'PENDING',
+    generatedReply: 'Glad it helped!',
+  });
+  await expect(
+    reviewDraft(postUrn, FIRST, 'reply', 'edit', '   ')
+  ).rejects.toThrow('Edited draft text is empty.');
+
+  getComment(postUrn, SECOND).pipeline.generatedReply = undefined;
+  await expect(
+    reviewDraft(postUrn, SECOND, 'reply', 'approve')
+  ).rejects.toThrow('Cannot approve an empty draft.');
+});
+
+test('drafts can be regenerated for any post but the running one', async () => {
+  const parked = await parkReplies();
+  const running = await savePost(createComments(1));
+  contentScript.sent = [];
+  let releaseLike: (liked: boolean) => void = () => {};
+  contentScript.replies.LIKE_COMMENT = () =>
+    new Promise<boolean>((resolve) => {
+      releaseLike = resolve;
+    });
+
+  const runEnd = waitForRunEnd();
+  await startPipeline(running.postUrn, running.tabId, undefined, 'approval', {
+    ...PAGE_STEPS,
+  });
+  await expect.poll(() => contentScript.actions().length).toBe(1);
+
+  await expect(
+    reviewDraft(running.postUrn, FIRST, 'reply', 'regenerate')
+  ).rejects.toThrow('Pause the pipeline before regenerating a draft.');
+
+  getComment(parked.postUrn, FIRST).pipeline.generatedReply = 'Old draft';
+  await reviewDraft(parked.postUrn, FIRST, 'reply', 'regenerate');
+  const regenerated = getComment(parked.postUrn, FIRST).pipeline;
+  expect(regenerated.replyReview).toBe('PENDING');
+  expect(regenerated.generatedReply).not.toBe('Old draft');
+
+  // The run goes on undisturbed
+  releaseLike(true);
+  expect(await runEnd).toMatchObject({ status: 'idle', completed: true });
+  expect(getComment(running.postUrn, FIRST).pipeline.replyReview).toBe(
+    'PENDING'
+  );
+});
@@ -0,0 +1,100 @@
+import { test, expect } from '@playwright/test';
+import { listContacts } from '../../src/background/services/contactRegistry';
+import { startPipeline } from '../../src/background/services/pipelineManager';
+import { getQuotaUsage } from '../../src/background/services/quotaManager';
+import { getPostState } from '../../src/background/services/stateManager';
+import { createComments } from './fixtures/comment';
+import {
+  PAGE_STEPS,
+  contentScript,
+  savePost,
+  setUpPipeline,
+  waitForRunEnd,
+} from './fixtures/pipeline';
+
+const FIRST = 'urn:li:comment:(activity:1,1)';
+const SECOND = 'urn:li:comment:(activity:1,2)';
+
+test('dry runs simulate every action without touching the page or the post', async () => {
+  await setUpPipeline({ minDelay: 5, maxDelay: 5 });
+  const { postUrn, tabId } = await savePost(createComments(2));
+
+  const runEnd = waitForRunEnd();
+  await startPipeline(postUrn, tabId, undefined, 'dry-run', {
+    ...PAGE_STEPS,
+  });
+  expect(await runEnd).toMatchObject({ status: 'idle', completed: true });
+
+  expect(contentScript.actions()).toEqual([]);
+  const postState = getPostState(postUrn)!;
+  expect(postState.comments.map((c) => [c.likeStatus, c.replyStatus])).toEqual([
+    ['', ''],
+    ['', ''],
+  ]);
+
+  const simulation = postState.simulation!;
+  expect(simulation.finishedAt).toBeTruthy();
+  expect(simulation.settings).toMatchObject({ minDelay: 5, maxDelay: 5 });
+  expect(simulation.comments.map((c) => [c.likeStatus, c.replyStatus])).toEqual(
+    [
+      ['DONE', 'DONE'],
+      ['DONE', 'DONE'],
+    ]
+  );
+  expect(
+    simulation.actions.map(({ type, commentId, delayMs }) => ({
+      type,
+      commentId,
+      delayMs,
+    }))
+  ).toEqual([
+    { type: 'like', commentId: FIRST, delayMs: undefined },
+    { type: 'reply', commentId: FIRST, delayMs: undefined },
+    { type: 'wait', commentId: undefined, delayMs: 5 },
+    { type: 'like', commentId: SECOND, delayMs: undefined },
+    { type: 'reply', commentId: SECOND, delayMs: undefined },
+    { type: 'wait', commentId: undefined, delayMs: 5 },
+  ]);
+  const reply = simulation.actions.find((a) => a.type === 'reply')!;
+  expect(reply.text).toBe(simulation.comments[0].pipeline.generatedReply);
+});
+
+test('dry runs leave the quotas and the contact registry alone', async () => {
+  await setUpPipeline();
+  const { postUrn, tabId } = await savePost(createComments(2));
+
+  const runEnd = waitForRunEnd();
+  await startPipeline(postUrn, tabId, undefined, 'dry-run', {
+    ...PAGE_STEPS,
+  });
+  await runEnd;
+
+  expect(getQuotaUsage().every((usage) => usage.used === 0)).toBe(true);
+  expect(listContacts()).toEqual([]);
+});
+
+test('a real run after a dry run starts from the untouched comments', async () => {
+  await setUpPipeline();
+  const { postUrn, tabId } = await savePost(createComments(1));
+
+  let runEnd = waitForRunEnd();
+  await startPipeline(postUrn, tabId, undefined, 'dry-run', {
+    ...PAGE_STEPS,
+  });
+  await runEnd;
+  runEnd = waitForRunEnd();
+  await startPipeline(postUrn, tabId, undefined, 'auto', { ...PAGE_STEPS });
+  expect(await runEnd).toMatchObject({ status: 'idle', completed: true });
+
+  expect(contentScript.actions().map((m) => m.type)).toEqual([
+    'LIKE_COMMENT',
+    'REPLY_TO_COMMENT',
+  ]);
+  expect(getPostState(postUrn)!.comments[0]).toMatchObject({
+    likeStatus: 'DONE',
+    replyStatus: 'DONE',
+  });
+  expect(getQuotaUsage()).toContainEqual(
+    expect.objectContaining({ action: 'like', window: 'hour', used: 1 })
+  );
+});
@@ -0,0 +1,174 @@
+type Listener<T extends unknown[]> = (...args: T) => void;
+type TabUpdatedListener = Listener<[number, chrome.tabs.TabChangeInfo]>;
+
+/**
+ * An in-memory stand-in for the extension APIs the background services use,
+ * so they can be tested without a browser. Storage values are copied like
+ * Chrome serialises them, alarms are recorded rather than scheduled and tabs
+ * only remember their URL.
+ */
+class FakeChrome {
+  readonly storageData = {
+    local: {} as Record<string, unknown>,
+    sync: {} as Record<string, unknown>,
+  };
+  // Alarm names with the epoch ms they are due at
+  readonly alarms = new Map<string, number>();
+  readonly tabs = new Map<number, string>();
+  detectedLanguage: chrome.i18n.LanguageDetectionResult = {
+    isReliable: false,
+    languages: [],
+  };
+  // Answers `chrome.scripting.executeScript` in place of the page, or a
+  // function computing the answer from the injected script's arguments
+  injectionResult: unknown | ((args: unknown[]) => unknown) = undefined;
+
+  private alarmListeners: Listener<[chrome.alarms.Alarm]>[] = [];
+  private tabListeners: TabUpdatedListener[] = [];
+  private nextTabId = 1;
+
+  /**
+   * Forgets all stored data, alarms, tabs and listeners. The services keep
+   * their in-memory state; each test initialises the ones it uses again.
+   */
+  reset() {
+    this.storageData.local = {};
+    this.storageData.sync = {};
+    this.alarms.clear();
+    this.tabs.clear();
+    this.removeListeners();
+    this.detectedLanguage = { isReliable: false, languages: [] };
+    this.injectionResult = undefined;
+  }
+
+  /** Drops the event listeners, as a restarted service worker has none. */
+  removeListeners() {
+    this.alarmListeners = [];
+    this.tabListeners = [];
+  }
+
+  openTab(url: string): number {
+    const tabId = this.nextTabId++;
+    this.tabs.set(tabId, url);
+    return tabId;
+  }
+
+  /** Calls the alarm listeners as Chrome does when an alarm is due. */
+  fireAlarm(name: string) {
+    const scheduledTime = this.alarms.get(name) ?? Date.now();
+    this.alarms.delete(name);
+    this.alarmListeners.forEach((listener) =>
+      listener({ name, scheduledTime })
+    );
+  }
+
+  // LinkedIn finishes loading after the tab call resolves
+  private finishLoading(tabId: number) {
+    setTimeout(() =>
+      this.tabListeners.forEach((listener) =>
+        listener(tabId, { status: 'complete' })
+      )
+    );
+  }
+
+  private createStorageArea(area: 'local' | 'sync') {
+    const data = () => this.storageData[area];
+    return {
+      get: async (keys?: string | string[] | null) => {
+        const names =
+          keys === null || keys === undefined
+            ? Object.keys(data())
+            : Array.isArray(keys)
+              ? keys
+              : [keys];
+        return Object.fromEntries(
+          names
+            .filter((name) => data()[name] !== undefined)
+            .map((name) => [name, structuredClone(data()[name])])
+        );
+      },
+      set: async (items: Record<string, unknown>) => {
+        Object.entries(items).forEach(([name, value]) => {
+          data()[name] = structuredClone(value);
+        });
+      },
+      remove: async (keys: string | string[]) => {
+        (Array.isArray(keys) ? keys : [keys]).forEach(
+          (name) => delete data()[name]
+        );
+      },
+    };
+  }
+
+  /** The `chrome` global handed to the code under test. */
+  readonly api = {
+    storage: {
+      local: this.createStorageArea('local'),
+      sync: this.createStorageArea('sync'),
+    },
+    alarms: {
+      create: (name: string, info: { when?: number }) => {
+        this.alarms.set(name, info.when ?? Date.now());
+      },
+      clear: async (name: string) => this.alarms.delete(name),
+      onAlarm: {
+        addListener: (listener: Listener<[chrome.alarms.Alarm]>) => {
+          this.alarmListeners.push(listener);
+        },
+      },
+    },
+    tabs: {
+      get: async (tabId: number) => {
+        const url = this.tabs.get(tabId);
+        if (url === undefined) throw new Error(`No tab with id: ${tabId}.`);
+        return { id: tabId, url };
+      },
+      query: async () => Array.from(this.tabs, ([id, url]) => ({ id, url })),
+      create: async ({ url = 'about:blank' }: { url?: string }) => {
+        const id = this.openTab(url);
+        this.finishLoading(id);
+        return { id, url };
+      },
+      update: async (tabId: number, { url }: { url?: string }) => {
+        // Focusing a tab leaves its page as it is
+        if (url === undefined) return { id: tabId, url: this.tabs.get(tabId) };
+        this.tabs.set(tabId, url);
+        this.finishLoading(tabId);
+        return { id: tabId, url };
+      },
+      remove: async (tabId: number) => {
+        this.tabs.delete(tabId);
+      },
+      onUpdated: {
+        addListener: (listener: TabUpdatedListener) => {
+          this.tabListeners.push(listener);
+        },
+        removeListener: (listener: TabUpdatedListener) => {
+          this.tabListeners = this.tabListeners.filter((l) => l !== listener);
+        },
+      },
+    },
+    scripting: {
+      executeScript: async ({ args = [] }: { args?: unknown[] }) => [
+        {
+          result:
+            typeof this.injectionResult === 'function'
+              ? this.injectionResult(args)
+              : this.injectionResult,
+        },
+      ],
+    },
+    i18n: {
+      detectLanguage: async () => this.detectedLanguage,
+    },
+  };
+}
+
+// Spec files share one worker and so one global; install the fake only once
+const globals = globalThis as typeof globalThis & { fakeChrome?: FakeChrome };
+if (!globals.fakeChrome) {
+  globals.fakeChrome = new FakeChrome();
+  Object.assign(globalThis, { chrome: globals.fakeChrome.api });
+}
+
+export const fakeChrome = globals.fakeChrome;
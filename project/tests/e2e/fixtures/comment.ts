@@ -0,0 +1,43 @@
+import type { Comment } from '../../../src/shared/types';
+
+// When the fixture comments were captured from the page
+export const QUEUED_AT = '2025-06-02T12:00:00.000Z';
+
+/**
+ * A top-level comment as the pipeline queues it, with no step done yet.
+ */
+export const createComment = (overrides: Partial<Comment> = {}): Comment => ({
+  commentId: 'urn:li:comment:(activity:1,1)',
+  text: 'Great post, thanks for sharing!',
+  ownerProfileUrl: 'https://www.linkedin.com/in/jane-doe/',
+  ownerName: 'Jane Doe',
+  timestamp: '1h',
+  type: 'top-level',
+  threadId: 'urn:li:comment:(activity:1,1)',
+  likeStatus: '',
+  replyStatus: '',
+  dmStatus: '',
+  attempts: { like: 0, reply: 0, dm: 0 },
+  lastError: '',
+  pipeline: { queuedAt: QUEUED_AT, likedAt: '', repliedAt: '', dmAt: '' },
+  ...overrides,
+});
+
+/**
+ * Comments by as many different people, so contact cool-downs do not apply.
+ * Their ids end in their number, starting at 1.
+ */
+export const createComments = (
+  count: number,
+  overrides: Partial<Comment> = {}
+): Comment[] =>
+  Array.from({ length: count }, (_, index) => {
+    const commentId = `urn:li:comment:(activity:1,${index + 1})`;
+    return createComment({
+      commentId,
+      threadId: commentId,
+      ownerProfileUrl: `https://www.linkedin.com/in/commenter-${index + 1}/`,
+      ownerName: `Commenter ${index + 1}`,
+      ...overrides,
+    });
+  });
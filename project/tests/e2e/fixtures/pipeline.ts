@@ -0,0 +1,182 @@
+import type {
+  AIConfig,
+  Comment,
+  PipelineSteps,
+  Post,
+  PostState,
+  RunState,
+  UIState,
+} from '../../../src/shared/types';
+import { buildPostUrl } from '../../../src/shared/linkedin';
+import {
+  getConfig,
+  initializeConfig,
+  updateConfig,
+} from '../../../src/background/services/configManager';
+import { initContactRegistry } from '../../../src/background/services/contactRegistry';
+import {
+  initPipelineManager,
+  resetPipeline,
+  setRunEndListener,
+  setRunGuard,
+  waitForSessionRestore,
+} from '../../../src/background/services/pipelineManager';
+import { initProfileLists } from '../../../src/background/services/profileLists';
+import { initQuotaManager } from '../../../src/background/services/quotaManager';
+import { savePostState } from '../../../src/background/services/stateManager';
+import { initTriggerRules } from '../../../src/background/services/triggerRules';
+import { fakeChrome } from './chrome';
+
+// The steps that stay on the post page, so no profile tab is opened
+export const PAGE_STEPS: PipelineSteps = {
+  like: true,
+  reply: true,
+  dm: false,
+  connectionCheck: false,
+  invite: false,
+};
+
+export interface SentMessage {
+  tabId: number;
+  type: string;
+  payload?: unknown;
+}
+
+// An answer of the content script, or a function computing it from the payload
+type ContentScriptReply = unknown | ((payload: unknown) => unknown);
+
+// What the post page answers when nothing else is set up: no restriction
+// signal, and every like and reply goes through
+const DEFAULT_REPLIES: Record<string, ContentScriptReply> = {
+  CAPTURE_POST_CONTENT: null,
+  CHECK_RESTRICTIONS: null,
+  LIKE_COMMENT: true,
+  REPLY_TO_COMMENT: true,
+};
+
+/**
+ * Stands in for the content script of the post tab. It records every message
+ * and answers by message type.
+ */
+export const contentScript = {
+  sent: [] as SentMessage[],
+  replies: { ...DEFAULT_REPLIES },
+  // The messages that act on the page, leaving out the checks and reads
+  actions(): SentMessage[] {
+    return this.sent.filter(
+      (message) =>
+        message.type === 'LIKE_COMMENT' || message.type === 'REPLY_TO_COMMENT'
+    );
+  },
+};
+
+// Handed to the services as their way of messaging the post tab
+export const sendMessageToTab = async <T>(
+  tabId: number,
+  message: { type: string; payload?: unknown }
+): Promise<T> => {
+  contentScript.sent.push({ tabId, ...message });
+  const reply = contentScript.replies[message.type];
+  return (typeof reply === 'function' ? reply(message.payload) : reply) as T;
+};
+
+// Every state update the services sent to the UI since the last setup
+export const broadcasts: Partial<UIState>[] = [];
+
+const broadcast = (state: Partial<UIState>) => {
+  broadcasts.push(state);
+};
+
+/**
+ * Starts the pipeline and the services it depends on from empty storage, as
+ * on a fresh install. The AI is the offline mock without delays or reply
+ * guardrails, since its canned replies repeat.
+ */
+export const setUpPipeline = async (
+  config: Partial<AIConfig> = {}
+): Promise<void> => {
+  await resetPipeline();
+  fakeChrome.reset();
+  contentScript.sent = [];
+  contentScript.replies = { ...DEFAULT_REPLIES };
+  broadcasts.length = 0;
+  // The rules and contacts of an earlier test are only replaced by stored ones
+  fakeChrome.storageData.local = {
+    triggerRules: [],
+    profileRules: [],
+    contactRegistry: {},
+  };
+
+  await initializeConfig();
+  await updateConfig({
+    provider: 'mock',
+    minDelay: 0,
+    maxDelay: 0,
+    replyGuardrails: { ...getConfig().replyGuardrails!, enabled: false },
+    ...config,
+  });
+  await initQuotaManager(broadcast);
+  await initTriggerRules(broadcast);
+  await initProfileLists(broadcast);
+  await initContactRegistry();
+  initPipelineManager(broadcast, sendMessageToTab);
+  await waitForSessionRestore();
+  setRunEndListener(null);
+  setRunGuard(() => null);
+};
+
+/**
+ * Starts the pipeline manager again like a restarted service worker, which
+ * picks up the run its stored session describes.
+ */
+export const restartPipelineManager = async (): Promise<void> => {
+  fakeChrome.removeListeners();
+  initPipelineManager(broadcast, sendMessageToTab);
+  await waitForSessionRestore();
+};
+
+let postCount = 0;
+
+/**
+ * Saves a captured post with the given comments and opens a tab showing it.
+ * Each post gets its own URN, as the saved states outlive a test.
+ */
+export const savePost = async (
+  comments: Comment[],
+  meta: Partial<Post> = {}
+): Promise<{ postUrn: string; tabId: number }> => {
+  postCount++;
+  const postUrn = `urn:li:activity:${7300000000 + postCount}`;
+  const postState: PostState = {
+    _meta: {
+      postId: postUrn,
+      postUrl: buildPostUrl(postUrn),
+      postText: 'We cut our release cycle from a month to a week.',
+      lastUpdated: new Date().toISOString(),
+      runState: 'idle',
+      userProfileUrl: 'https://www.linkedin.com/in/post-author/',
+      ...meta,
+    },
+    comments,
+  };
+  await savePostState(postUrn, postState);
+  return { postUrn, tabId: fakeChrome.openTab(postState._meta.postUrl) };
+};
+
+export interface RunEnd {
+  postUrn: string;
+  status: RunState;
+  completed: boolean;
+  resumeAt?: string;
+}
+
+/**
+ * Resolves when the next processing loop ends. Call it before starting the run.
+ */
+export const waitForRunEnd = (): Promise<RunEnd> =>
+  new Promise((resolve) => {
+    setRunEndListener((postUrn, status, completed, resumeAt) => {
+      setRunEndListener(null);
+      resolve({ postUrn, status, completed, resumeAt });
+    });
+  });
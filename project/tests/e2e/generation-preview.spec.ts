@@ -0,0 +1,50 @@
+import { test, expect } from '@playwright/test';
+import { startPipeline } from '../../src/background/services/pipelineManager';
+import { getPostState } from '../../src/background/services/stateManager';
+import { createComments } from './fixtures/comment';
+import {
+  PAGE_STEPS,
+  broadcasts,
+  savePost,
+  setUpPipeline,
+  waitForRunEnd,
+} from './fixtures/pipeline';
+
+const REPLY_ONLY = { ...PAGE_STEPS, like: false };
+
+const getPreviews = () =>
+  broadcasts
+    .filter((state) => state.generationPreview !== undefined)
+    .map((state) => state.generationPreview);
+
+test('reply drafts are previewed while they are generated', async () => {
+  await setUpPipeline();
+  const { postUrn, tabId } = await savePost(createComments(1));
+
+  const runEnd = waitForRunEnd();
+  await startPipeline(postUrn, tabId, undefined, 'auto', REPLY_ONLY);
+  await runEnd;
+
+  const reply = getPostState(postUrn)!.comments[0].pipeline.generatedReply!;
+  const previews = getPreviews();
+  expect(previews[0]).toEqual({
+    commentId: 'urn:li:comment:(activity:1,1)',
+    kind: 'reply',
+    text: expect.any(String),
+  });
+  expect(reply.startsWith(previews[0]!.text)).toBe(true);
+  // The preview is cleared once the draft is complete
+  expect(previews[previews.length - 1]).toBeNull();
+});
+
+test('nothing is previewed when streaming is turned off', async () => {
+  await setUpPipeline({ stream: false });
+  const { postUrn, tabId } = await savePost(createComments(1));
+
+  const runEnd = waitForRunEnd();
+  await startPipeline(postUrn, tabId, undefined, 'auto', REPLY_ONLY);
+  await runEnd;
+
+  expect(getPostState(postUrn)!.comments[0].replyStatus).toBe('DONE');
+  expect(getPreviews().every((preview) => preview === null)).toBe(true);
+});
@@ -0,0 +1,127 @@
+import { test, expect } from '@playwright/test';
+import type { PipelineSteps } from '../../src/shared/types';
+import {
+  getConfig,
+  updateConfig,
+} from '../../src/background/services/configManager';
+import {
+  hasActionStep,
+  resolvePipelineSteps,
+  startPipeline,
+} from '../../src/background/services/pipelineManager';
+import { getPostState } from '../../src/background/services/stateManager';
+import { saveTriggerRule } from '../../src/background/services/triggerRules';
+import { fakeChrome } from './fixtures/chrome';
+import { createComments } from './fixtures/comment';
+import { savePost, setUpPipeline, waitForRunEnd } from './fixtures/pipeline';
+
+const INVITE_ONLY: PipelineSteps = {
+  like: false,
+  reply: false,
+  dm: false,
+  connectionCheck: false,
+  invite: true,
+};
+
+// Notes the page was asked to send; the profile read has no arguments
+let invites: unknown[] = [];
+
+// The commenter is not connected, and Connect ends as `outcome`
+const answerProfilePage = (outcome: string) => {
+  invites = [];
+  fakeChrome.injectionResult = (args: unknown[]) => {
+    if (args.length === 0) return { connected: false, profile: {} };
+    invites.push(args[0]);
+    return outcome;
+  };
+};
+
+test('the invite step needs the profile visit and acts on its own', () => {
+  expect(resolvePipelineSteps({ invite: true })).toMatchObject({
+    invite: true,
+    connectionCheck: true,
+  });
+  expect(hasActionStep({ ...INVITE_ONLY, invite: false })).toBe(false);
+  expect(hasActionStep(INVITE_ONLY)).toBe(true);
+});
+
+test('commenters outside the network get a request with a note', async () => {
+  await setUpPipeline({ aiEnabled: false });
+  await updateConfig({
+    invite: { note: true },
+    manual: {
+      ...getConfig().manual!,
+      inviteNote: 'Hi {{commenter.firstName}}, thanks for commenting!',
+    },
+  });
+  const { postUrn, tabId } = await savePost(createComments(1));
+  answerProfilePage('sent');
+
+  const runEnd = waitForRunEnd();
+  await startPipeline(postUrn, tabId, undefined, 'auto', INVITE_ONLY);
+  await runEnd;
+
+  expect(invites).toEqual(['Hi Commenter, thanks for commenting!']);
+  expect(getPostState(postUrn)!.comments[0]).toMatchObject({
+    connected: false,
+    inviteStatus: 'DONE',
+    attempts: { invite: 1 },
+    pipeline: {
+      inviteNote: 'Hi Commenter, thanks for commenting!',
+      invitedAt: expect.any(String),
+    },
+  });
+});
+
+test('a pending request is not sent again', async () => {
+  await setUpPipeline();
+  const { postUrn, tabId } = await savePost(createComments(1));
+  answerProfilePage('pending');
+
+  const runEnd = waitForRunEnd();
+  await startPipeline(postUrn, tabId, undefined, 'auto', INVITE_ONLY);
+  await runEnd;
+
+  // With AI on, the note is written by the model
+  expect(invites).toEqual([
+    getPostState(postUrn)!.comments[0].pipeline.inviteNote,
+  ]);
+  expect(getPostState(postUrn)!.comments[0]).toMatchObject({
+    inviteStatus: 'SKIPPED',
+    lastError: 'Connection request already pending.',
+  });
+});
+
+test('a trigger rule asking to connect invites without the invite step', async () => {
+  await setUpPipeline();
+  await saveTriggerRule({
+    name: 'Guide',
+    enabled: true,
+    matchType: 'keyword',
+    pattern: 'guide',
+    postUrns: [],
+    resource: '',
+    replyTemplate: '',
+    nonConnectedReplyTemplate: '',
+    dmTemplate: '',
+    connect: true,
+  });
+  const [keyword, other] = createComments(2);
+  const { postUrn, tabId } = await savePost([
+    { ...keyword, text: 'Guide please' },
+    other,
+  ]);
+  answerProfilePage('sent');
+
+  const runEnd = waitForRunEnd();
+  await startPipeline(postUrn, tabId, undefined, 'auto', {
+    ...INVITE_ONLY,
+    invite: false,
+    connectionCheck: true,
+  });
+  await runEnd;
+
+  expect(
+    getPostState(postUrn)!.comments.map((comment) => comment.inviteStatus)
+  ).toEqual(['DONE', undefined]);
+});
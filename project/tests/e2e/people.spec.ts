@@ -0,0 +1,158 @@
+import { test, expect } from '@playwright/test';
+import type { Contact } from '../../src/shared/types';
+import {
+  getContact,
+  importPostHistory,
+  listContacts,
+  recordContactAction,
+  updateContact,
+} from '../../src/background/services/contactRegistry';
+import { getPostState } from '../../src/background/services/stateManager';
+import {
+  contactsToCsv,
+  contactsToVCard,
+} from '../../src/ui/utils/contactExport';
+import { fakeChrome } from './fixtures/chrome';
+import { createComments } from './fixtures/comment';
+import { savePost, setUpPipeline } from './fixtures/pipeline';
+
+const CONTACT: Contact = {
+  profileUrl: 'https://www.linkedin.com/in/jane-smith/',
+  name: 'Jane van Smith',
+  profile: {
+    company: 'Acme, Inc.',
+    role: 'Engineering Manager',
+    location: 'Berlin',
+    capturedAt: '2025-06-02T12:00:00.000Z',
+  },
+  tags: ['lead', 'partner'],
+  notes: 'Met at "DevConf";\nfollow up',
+  firstSeenAt: '2025-06-01T09:00:00.000Z',
+  lastSeenAt: '2025-06-02T12:00:00.000Z',
+  interactions: [
+    {
+      action: 'reply',
+      at: '2025-06-01T09:00:00.000Z',
+      postUrn: 'urn:li:activity:1',
+      commentId: 'urn:li:comment:(activity:1,1)',
+    },
+    {
+      action: 'dm',
+      at: '2025-06-02T12:00:00.000Z',
+      postUrn: 'urn:li:activity:2',
+      commentId: 'urn:li:comment:(activity:2,1)',
+    },
+  ],
+};
+
+test.beforeEach(async () => {
+  await setUpPipeline();
+});
+
+test('contacts are listed most recently engaged first', async () => {
+  const [first, second] = createComments(2);
+  await recordContactAction(first, 'like', 'urn:li:activity:1');
+  await new Promise((resolve) => setTimeout(resolve, 5));
+  await recordContactAction(second, 'like', 'urn:li:activity:1');
+
+  expect(listContacts().map((contact) => contact.name)).toEqual([
+    'Commenter 2',
+    'Commenter 1',
+  ]);
+});
+
+test('tags and notes of a contact can be changed', async () => {
+  const [comment] = createComments(1);
+  await recordContactAction(comment, 'reply', 'urn:li:activity:1');
+
+  await updateContact(comment.ownerProfileUrl, {
+    tags: ['lead', 'hiring', 'lead'],
+  });
+  const updated = await updateContact(comment.ownerProfileUrl, {
+    notes: 'Wants a demo',
+  });
+
+  expect(updated).toMatchObject({
+    tags: ['lead', 'hiring'],
+    notes: 'Wants a demo',
+  });
+  expect(
+    (fakeChrome.storageData.local.contactRegistry as Record<string, Contact>)[
+      updated.profileUrl
+    ]
+  ).toEqual(updated);
+  await expect(
+    updateContact('https://www.linkedin.com/in/nobody/', { notes: '' })
+  ).rejects.toThrow('No contact found for https://www.linkedin.com/in/nobody/');
+});
+
+test('earlier posts are imported into the registry once', async () => {
+  const [liked, untouched] = createComments(2);
+  const { postUrn } = await savePost([
+    {
+      ...liked,
+      likeStatus: 'DONE',
+      replyStatus: 'DONE',
+      pipeline: {
+        ...liked.pipeline,
+        likedAt: '2025-06-01T09:00:00.000Z',
+        repliedAt: '2025-06-01T09:05:00.000Z',
+      },
+    },
+    untouched,
+  ]);
+
+  await importPostHistory([getPostState(postUrn)!]);
+  await importPostHistory([getPostState(postUrn)!]);
+
+  expect(listContacts()).toHaveLength(1);
+  expect(getContact(liked.ownerProfileUrl)).toMatchObject({
+    name: 'Commenter 1',
+    firstSeenAt: '2025-06-01T09:00:00.000Z',
+    lastSeenAt: '2025-06-01T09:05:00.000Z',
+    interactions: [
+      { action: 'like', postUrn, commentId: liked.commentId },
+      { action: 'reply', postUrn, commentId: liked.commentId },
+    ],
+  });
+});
+
+test('contacts are exported as CSV and vCard', () => {
+  const [header, row] = contactsToCsv([CONTACT]).split('\r\n');
+
+  expect(header).toMatch(/^"Name","Profile URL",/);
+  expect(row).toBe(
+    [
+      'Jane van Smith',
+      'https://www.linkedin.com/in/jane-smith/',
+      '',
+      'Acme, Inc.',
+      'Engineering Manager',
+      'Berlin',
+      'lead; partner',
+      'Met at ""DevConf"";\nfollow up',
+      0,
+      1,
+      1,
+      0,
+      2,
+      '2025-06-01T09:00:00.000Z',
+      '2025-06-02T12:00:00.000Z',
+    ]
+      .map((field) => `"${field}"`)
+      .join(',')
+  );
+  expect(contactsToVCard([CONTACT]).split('\r\n')).toEqual([
+    'BEGIN:VCARD',
+    'VERSION:3.0',
+    'FN:Jane van Smith',
+    'N:Smith;Jane van;;;',
+    'URL:https://www.linkedin.com/in/jane-smith/',
+    'ORG:Acme\\, Inc.',
+    'TITLE:Engineering Manager',
+    'ADR;TYPE=WORK:;;;Berlin;;;',
+    'CATEGORIES:lead,partner',
+    'NOTE:Met at "DevConf"\\;\\nfollow up',
+    'END:VCARD',
+  ]);
+});
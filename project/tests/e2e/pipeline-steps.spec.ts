@@ -0,0 +1,85 @@
+import { test, expect } from '@playwright/test';
+import {
+  hasActionStep,
+  resolvePipelineSteps,
+  startPipeline,
+} from '../../src/background/services/pipelineManager';
+import { getPostState } from '../../src/background/services/stateManager';
+import { createComments } from './fixtures/comment';
+import {
+  PAGE_STEPS,
+  contentScript,
+  savePost,
+  setUpPipeline,
+  waitForRunEnd,
+} from './fixtures/pipeline';
+
+test('resolvePipelineSteps fills in the defaults and the profile visit', () => {
+  expect(resolvePipelineSteps()).toEqual({
+    like: true,
+    reply: true,
+    dm: true,
+    connectionCheck: true,
+    invite: false,
+  });
+  expect(
+    resolvePipelineSteps({ dm: true, connectionCheck: false })
+  ).toMatchObject({ connectionCheck: true });
+  expect(resolvePipelineSteps({ ...PAGE_STEPS, invite: true })).toMatchObject({
+    connectionCheck: true,
+  });
+  expect(resolvePipelineSteps({ ...PAGE_STEPS })).toMatchObject({
+    connectionCheck: false,
+  });
+});
+
+test('hasActionStep does not count the connection check alone', () => {
+  const none = { like: false, reply: false, dm: false, invite: false };
+
+  expect(hasActionStep({ ...none, connectionCheck: true })).toBe(false);
+  expect(hasActionStep({ ...none, invite: true })).toBe(true);
+  expect(hasActionStep({ ...none, reply: true })).toBe(true);
+  expect(hasActionStep()).toBe(true);
+});
+
+test('runs perform only the selected steps and leave the others open', async () => {
+  await setUpPipeline();
+  const { postUrn, tabId } = await savePost(createComments(2));
+
+  let runEnd = waitForRunEnd();
+  await startPipeline(postUrn, tabId, undefined, 'auto', {
+    ...PAGE_STEPS,
+    reply: false,
+  });
+  expect(await runEnd).toMatchObject({ status: 'idle', completed: true });
+  expect(contentScript.actions().map((m) => m.type)).toEqual([
+    'LIKE_COMMENT',
+    'LIKE_COMMENT',
+  ]);
+  expect(getPostState(postUrn)!._meta.steps).toMatchObject({
+    like: true,
+    reply: false,
+  });
+  expect(
+    getPostState(postUrn)!.comments.map((c) => [c.likeStatus, c.replyStatus])
+  ).toEqual([
+    ['DONE', ''],
+    ['DONE', ''],
+  ]);
+
+  // A later run picks up the step that was left out
+  contentScript.sent = [];
+  runEnd = waitForRunEnd();
+  await startPipeline(postUrn, tabId, undefined, 'auto', {
+    ...PAGE_STEPS,
+    like: false,
+  });
+  expect(await runEnd).toMatchObject({ status: 'idle', completed: true });
+  expect(contentScript.actions().map((m) => m.type)).toEqual([
+    'REPLY_TO_COMMENT',
+    'REPLY_TO_COMMENT',
+  ]);
+  expect(
+    getPostState(postUrn)!.comments.every((c) => c.replyStatus === 'DONE')
+  ).toBe(true);
+});
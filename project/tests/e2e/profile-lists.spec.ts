@@ -0,0 +1,141 @@
+import { test, expect } from '@playwright/test';
+import type { ProfileRule } from '../../src/shared/types';
+import { startPipeline } from '../../src/background/services/pipelineManager';
+import {
+  findProfileRule,
+  getProfileRules,
+  importProfileRules,
+  saveProfileRule,
+} from '../../src/background/services/profileLists';
+import { getPostState } from '../../src/background/services/stateManager';
+import { createComment, createComments } from './fixtures/comment';
+import {
+  PAGE_STEPS,
+  contentScript,
+  savePost,
+  setUpPipeline,
+  waitForRunEnd,
+} from './fixtures/pipeline';
+
+const entry = (
+  overrides: Partial<ProfileRule>
+): Omit<ProfileRule, 'id' | 'createdAt'> => ({
+  list: 'block',
+  field: 'name',
+  pattern: '',
+  ...overrides,
+});
+
+test.beforeEach(async () => {
+  await setUpPipeline();
+});
+
+test('commenters are matched by profile URL, name or headline', async () => {
+  await saveProfileRule(
+    entry({ field: 'url', pattern: 'linkedin.com/in/Jane-Smith?trk=feed' })
+  );
+  await saveProfileRule(entry({ list: 'allow', pattern: 'Omar *' }));
+  await saveProfileRule(entry({ field: 'headline', pattern: 'recruiter' }));
+
+  const jane = createComment({
+    ownerProfileUrl: 'https://www.linkedin.com/in/jane-smith/',
+  });
+  const omar = createComment({ ownerName: 'omar khan' });
+  expect(findProfileRule(jane)).toMatchObject({ list: 'block', field: 'url' });
+  expect(findProfileRule(omar)).toMatchObject({ list: 'allow' });
+  expect(findProfileRule(createComment({ ownerName: 'Omari' }))).toBeNull();
+
+  // Headlines are only known once the profile was read; block entries win
+  const recruiter = {
+    ...omar,
+    profile: { headline: 'Tech Recruiter', capturedAt: '' },
+  };
+  expect(findProfileRule(recruiter)).toMatchObject({
+    list: 'block',
+    field: 'headline',
+  });
+});
+
+test('list entries are validated', async () => {
+  await expect(saveProfileRule(entry({ pattern: ' * ' }))).rejects.toThrow(
+    'The list entry needs a profile URL, name or keyword.'
+  );
+  await expect(
+    saveProfileRule(
+      entry({ field: 'url', pattern: 'https://example.org/jane' })
+    )
+  ).rejects.toThrow('Not a LinkedIn profile URL: https://example.org/jane');
+  await saveProfileRule(entry({ pattern: 'Jane Smith' }));
+  await expect(
+    saveProfileRule(entry({ pattern: 'jane smith' }))
+  ).rejects.toThrow('"jane smith" is already on the block list.');
+  // The same name may still go on the other list
+  await saveProfileRule(entry({ list: 'allow', pattern: 'jane smith' }));
+});
+
+test('list entries are imported from CSV', async () => {
+  const result = await importProfileRules(
+    [
+      'list,field,pattern,note',
+      'allow,url,https://www.linkedin.com/in/jane-smith/,"Customer, since 2021"',
+      'headline,recruiter',
+      'https://www.linkedin.com/in/omar-khan/',
+      'Li *',
+      'headline,recruiter',
+    ].join('\n'),
+    'block'
+  );
+
+  expect(result).toEqual({ added: 4, skipped: 1 });
+  expect(
+    getProfileRules().map(({ list, field, pattern, note }) => ({
+      list,
+      field,
+      pattern,
+      note,
+    }))
+  ).toEqual([
+    {
+      list: 'allow',
+      field: 'url',
+      pattern: 'https://www.linkedin.com/in/jane-smith/',
+      note: 'Customer, since 2021',
+    },
+    { list: 'block', field: 'headline', pattern: 'recruiter', note: undefined },
+    {
+      list: 'block',
+      field: 'url',
+      pattern: 'https://www.linkedin.com/in/omar-khan/',
+      note: undefined,
+    },
+    { list: 'block', field: 'name', pattern: 'Li *', note: undefined },
+  ]);
+});
+
+test('blocked commenters are skipped and allowed ones go first', async () => {
+  const [plain, blocked, allowed] = createComments(3);
+  await saveProfileRule(entry({ pattern: 'Commenter 2' }));
+  await saveProfileRule(
+    entry({ list: 'allow', field: 'url', pattern: allowed.ownerProfileUrl })
+  );
+  const { postUrn, tabId } = await savePost([plain, blocked, allowed]);
+
+  const runEnd = waitForRunEnd();
+  await startPipeline(postUrn, tabId, undefined, 'auto', {
+    ...PAGE_STEPS,
+    reply: false,
+  });
+  await runEnd;
+
+  expect(
+    contentScript
+      .actions()
+      .map((message) => (message.payload as { commentId: string }).commentId)
+  ).toEqual([allowed.commentId, plain.commentId]);
+  expect(getPostState(postUrn)!.comments[1]).toMatchObject({
+    likeStatus: 'SKIPPED',
+    replyStatus: 'SKIPPED',
+    lastError: 'Blocked by the name "Commenter 2" on the block list.',
+    profileRule: { list: 'block' },
+  });
+});
@@ -0,0 +1,81 @@
+import { test, expect } from '@playwright/test';
+import { startPipeline } from '../../src/background/services/pipelineManager';
+import { getPostState } from '../../src/background/services/stateManager';
+import { buildTemplateContext } from '../../src/shared/promptTemplates';
+import { fakeChrome } from './fixtures/chrome';
+import { createComment, createComments } from './fixtures/comment';
+import {
+  PAGE_STEPS,
+  savePost,
+  setUpPipeline,
+  waitForRunEnd,
+} from './fixtures/pipeline';
+
+const PROFILE = {
+  name: 'Jane Smith',
+  headline: 'Platform lead at Acme',
+  company: 'Acme',
+  role: 'Engineering Manager',
+  location: 'Berlin, Germany',
+  mutualConnections: 12,
+};
+
+test('the connection check stores a snapshot of the profile', async () => {
+  await setUpPipeline();
+  const { postUrn, tabId } = await savePost(createComments(1));
+  fakeChrome.injectionResult = { connected: false, profile: PROFILE };
+
+  const runEnd = waitForRunEnd();
+  await startPipeline(postUrn, tabId, undefined, 'auto', {
+    ...PAGE_STEPS,
+    like: false,
+    reply: false,
+    connectionCheck: true,
+  });
+  await runEnd;
+
+  expect(getPostState(postUrn)!.comments[0]).toMatchObject({
+    connected: false,
+    profile: { ...PROFILE, capturedAt: expect.any(String) },
+  });
+  // The profile tab is closed again
+  expect([...fakeChrome.tabs.keys()]).toEqual([tabId]);
+});
+
+test('the profile snapshot is available to the prompts', async () => {
+  const comment = createComment({
+    ownerName: '',
+    profile: { ...PROFILE, capturedAt: '2025-06-02T12:00:00.000Z' },
+  });
+  const { postUrn } = await savePost([comment]);
+
+  expect(
+    buildTemplateContext(comment, getPostState(postUrn)!, '')
+  ).toMatchObject({
+    'commenter.name': 'Jane Smith',
+    'commenter.headline': 'Platform lead at Acme',
+    'commenter.role': 'Engineering Manager',
+    'commenter.company': 'Acme',
+    'commenter.location': 'Berlin, Germany',
+    'commenter.mutualConnections': '12',
+    'commenter.profile': [
+      'Headline: Platform lead at Acme',
+      'Works as Engineering Manager at Acme',
+      'Location: Berlin, Germany',
+      'Mutual connections: 12',
+    ].join('\n'),
+  });
+});
+
+test('a missing profile leaves the profile variables empty', async () => {
+  const comment = createComment();
+  const { postUrn } = await savePost([comment]);
+
+  expect(
+    buildTemplateContext(comment, getPostState(postUrn)!, '')
+  ).toMatchObject({
+    'commenter.headline': '',
+    'commenter.mutualConnections': '',
+    'commenter.profile': '',
+  });
+});
@@ -0,0 +1,125 @@
+import { test, expect } from '@playwright/test';
+import {
+  buildTemplateContext,
+  findUnknownVariables,
+  renderTemplate,
+  validateConfigTemplates,
+} from '../../src/shared/promptTemplates';
+import {
+  getConfig,
+  updateConfig,
+} from '../../src/background/services/configManager';
+import { startPipeline } from '../../src/background/services/pipelineManager';
+import { getPostState } from '../../src/background/services/stateManager';
+import { createComment, createComments } from './fixtures/comment';
+import {
+  PAGE_STEPS,
+  contentScript,
+  savePost,
+  setUpPipeline,
+  waitForRunEnd,
+} from './fixtures/pipeline';
+
+test('renderTemplate fills in known variables and drops unknown ones', () => {
+  expect(
+    renderTemplate('Hi {{ commenter.firstName }}, see {{post.url}}{{nope}}!', {
+      'commenter.firstName': 'Jane',
+      'post.url': 'https://example.org',
+    })
+  ).toBe('Hi Jane, see https://example.org!');
+  expect(renderTemplate('No placeholders {here}', {})).toBe(
+    'No placeholders {here}'
+  );
+});
+
+test('validateConfigTemplates reports unknown variables per template', () => {
+  expect(
+    findUnknownVariables('{{commenter.name}} {{commenter.age}} {{foo}} {{foo}}')
+  ).toEqual(['commenter.age', 'foo']);
+  expect(
+    validateConfigTemplates({
+      reply: { template: 'Reply to {{comment.text}}' },
+      dm: { template: 'Hello {{commenter.nickname}}' },
+      manual: { inviteNote: '{{post.title}} {{persona}}' },
+    } as never)
+  ).toEqual([
+    'DM message template uses unknown variables: commenter.nickname',
+    'Manual invite note uses unknown variables: post.title',
+  ]);
+});
+
+test('updateConfig refuses templates with unknown variables', async () => {
+  await setUpPipeline();
+
+  await expect(
+    updateConfig({
+      dm: { ...getConfig().dm!, template: 'Hello {{commenter.nickname}}' },
+    })
+  ).rejects.toThrow(
+    'DM message template uses unknown variables: commenter.nickname'
+  );
+  expect(getConfig().dm?.template).not.toContain('nickname');
+});
+
+test('buildTemplateContext describes the comment, the post and the persona', async () => {
+  const comment = createComment({
+    ownerName: '',
+    ownerProfileUrl: 'https://www.linkedin.com/in/jane-van-dyke-4a7b2c/',
+    threadReplies: ['Omar: Same here', 'Li: +1'],
+  });
+  const { postUrn } = await savePost([comment], {
+    author: 'Alex Morgan',
+    timestamp: '2d',
+    attachmentTitles: ['Release checklist'],
+  });
+
+  const context = buildTemplateContext(
+    comment,
+    getPostState(postUrn)!,
+    'Thank {{commenter.firstName}} warmly'
+  );
+
+  expect(context).toMatchObject({
+    'commenter.name': 'Jane Van Dyke',
+    'commenter.firstName': 'Jane',
+    'comment.text': 'Great post, thanks for sharing!',
+    'post.url': `https://www.linkedin.com/feed/update/${postUrn}`,
+    'thread.replies': 'Omar: Same here\nLi: +1',
+    persona: 'Thank Jane warmly',
+  });
+  expect(context['post.context']).toBe(
+    [
+      'Author: Alex Morgan',
+      'Published: 2d',
+      "Text: 'We cut our release cycle from a month to a week.'",
+      'Attachments:\nRelease checklist',
+    ].join('\n')
+  );
+});
+
+test('manual replies are rendered from their template', async () => {
+  await setUpPipeline({ aiEnabled: false });
+  await updateConfig({
+    manual: {
+      ...getConfig().manual!,
+      nonConnectedText: 'Thanks {{commenter.firstName}}, glad it helped!',
+    },
+  });
+  const { postUrn, tabId } = await savePost(createComments(1));
+
+  const runEnd = waitForRunEnd();
+  await startPipeline(postUrn, tabId, undefined, 'auto', {
+    ...PAGE_STEPS,
+    like: false,
+  });
+  await runEnd;
+
+  expect(contentScript.actions()).toEqual([
+    expect.objectContaining({
+      payload: {
+        commentId: 'urn:li:comment:(activity:1,1)',
+        replyText: 'Thanks Commenter, glad it helped!',
+      },
+    }),
+  ]);
+});
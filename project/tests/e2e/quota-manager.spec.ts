@@ -0,0 +1,107 @@
+import { test, expect } from '@playwright/test';
+import type { QuotaLimits } from '../../src/shared/types';
+import {
+  initializeConfig,
+  updateConfig,
+} from '../../src/background/services/configManager';
+import {
+  findQuotaBlock,
+  initQuotaManager,
+} from '../../src/background/services/quotaManager';
+import { fakeChrome } from './fixtures/chrome';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+// Starts from the default config with the given like limits and likes
+async function useLikeQuota(
+  like: QuotaLimits['like'],
+  likedMsAgo: number[],
+  now: number
+) {
+  fakeChrome.reset();
+  fakeChrome.storageData.local.quotaLedger = {
+    like: likedMsAgo.map((ago) => now - ago),
+  };
+  await initializeConfig();
+  await updateConfig({
+    quotas: { like: { hour: 0, day: 0, week: 0, ...like } },
+  });
+  await initQuotaManager(() => {});
+}
+
+test('findQuotaBlock allows actions under their limits', async () => {
+  const now = Date.now();
+  await useLikeQuota({ hour: 3 }, [50 * MINUTE_MS, 10 * MINUTE_MS], now);
+
+  expect(findQuotaBlock(['like'], now)).toBeNull();
+  // Every action counts against its own limits only
+  expect(findQuotaBlock(['profileVisit', 'reply'], now)).toBeNull();
+});
+
+test('findQuotaBlock resumes when the oldest counted entry leaves the window', async () => {
+  const now = Date.now();
+  await useLikeQuota(
+    { hour: 3 },
+    [50 * MINUTE_MS, 40 * MINUTE_MS, 10 * MINUTE_MS],
+    now
+  );
+
+  expect(findQuotaBlock(['like'], now)).toEqual({
+    action: 'like',
+    window: 'hour',
+    limit: 3,
+    used: 3,
+    resumeAt: now + 10 * MINUTE_MS,
+  });
+});
+
+test('findQuotaBlock waits for enough entries to leave an overfull window', async () => {
+  const now = Date.now();
+  // The limit was lowered after these likes were sent
+  await useLikeQuota(
+    { hour: 2 },
+    [50 * MINUTE_MS, 40 * MINUTE_MS, 30 * MINUTE_MS, 10 * MINUTE_MS],
+    now
+  );
+
+  const block = findQuotaBlock(['like'], now);
+  expect(block?.used).toBe(4);
+  // Three likes must age out, so the one sent 30 minutes ago decides
+  expect(block?.resumeAt).toBe(now + 30 * MINUTE_MS);
+});
+
+test('findQuotaBlock reports the window that frees up last', async () => {
+  const now = Date.now();
+  await useLikeQuota(
+    { hour: 3, day: 4 },
+    [5 * HOUR_MS, 50 * MINUTE_MS, 40 * MINUTE_MS, 10 * MINUTE_MS],
+    now
+  );
+
+  const block = findQuotaBlock(['like'], now);
+  expect(block?.window).toBe('day');
+  expect(block?.resumeAt).toBe(now + 19 * HOUR_MS);
+});
+
+test('findQuotaBlock needs room for every planned repeat of an action', async () => {
+  const now = Date.now();
+  await useLikeQuota({ hour: 3 }, [50 * MINUTE_MS, 10 * MINUTE_MS], now);
+
+  expect(findQuotaBlock(['like'], now)).toBeNull();
+  // One free slot; the like sent 50 minutes ago has to age out for the second
+  expect(findQuotaBlock(['like', 'like'], now)).toEqual({
+    action: 'like',
+    window: 'hour',
+    limit: 3,
+    used: 2,
+    resumeAt: now + 10 * MINUTE_MS,
+  });
+});
+
+test('findQuotaBlock lets more repeats than the limit through an empty window', async () => {
+  const now = Date.now();
+  await useLikeQuota({ hour: 1 }, [], now);
+
+  expect(findQuotaBlock(['like', 'like'], now)).toBeNull();
+});
@@ -0,0 +1,129 @@
+import { test, expect } from '@playwright/test';
+import type { ReplyGuardrails } from '../../src/shared/types';
+import {
+  checkReplyGuardrails,
+  getTextSimilarity,
+} from '../../src/background/services/replyGuardrails';
+
+const guardrails: ReplyGuardrails = {
+  enabled: true,
+  minLength: 0,
+  maxLength: 0,
+  bannedPhrases: [],
+  blockLinks: true,
+  blockEmails: true,
+  blockPhoneNumbers: true,
+  maxEmojis: -1,
+  maxSimilarity: 0,
+  maxRegenerations: 2,
+  onFailure: 'review',
+};
+
+test('checkReplyGuardrails passes a plain reply', () => {
+  expect(
+    checkReplyGuardrails(
+      'Thanks Jane! In 2024 we grew the team to 12 people.',
+      guardrails,
+      []
+    )
+  ).toEqual([]);
+});
+
+test('checkReplyGuardrails detects links with and without a scheme', () => {
+  [
+    'Details here: https://example.org/guide',
+    'Have a look at www.example.org',
+    'It is all on example.io/pricing',
+  ].forEach((reply) => {
+    expect(checkReplyGuardrails(reply, guardrails, [])).toEqual([
+      'Contains a link',
+    ]);
+  });
+  expect(
+    checkReplyGuardrails(
+      'Details here: https://example.org',
+      { ...guardrails, blockLinks: false },
+      []
+    )
+  ).toEqual([]);
+});
+
+test('checkReplyGuardrails detects email addresses without counting their domain as a link', () => {
+  expect(
+    checkReplyGuardrails('Write to jane.doe@example.com', guardrails, [])
+  ).toEqual(['Contains an email address']);
+  expect(
+    checkReplyGuardrails(
+      'Write to jane.doe@example.com',
+      { ...guardrails, blockEmails: false },
+      []
+    )
+  ).toEqual([]);
+});
+
+test('checkReplyGuardrails detects phone numbers', () => {
+  [
+    'Call me on +1 415 555 0134',
+    'Call me on (415) 555-0134',
+    'Call me on 030.1234.5678',
+  ].forEach((reply) => {
+    expect(checkReplyGuardrails(reply, guardrails, [])).toEqual([
+      'Contains a phone number',
+    ]);
+  });
+});
+
+test('checkReplyGuardrails reports every rule a reply breaks', () => {
+  const strict: ReplyGuardrails = {
+    ...guardrails,
+    maxLength: 40,
+    bannedPhrases: ['  Game changer ', ''],
+    maxEmojis: 1,
+  };
+
+  expect(
+    checkReplyGuardrails(
+      'A real game changer 🚀🔥, see example.com or call 415 555 0134',
+      strict,
+      []
+    )
+  ).toEqual([
+    'Too long (62 characters, max 40)',
+    'Contains banned phrases: "Game changer"',
+    'Contains a link',
+    'Contains a phone number',
+    'Uses 2 emojis (max 1)',
+  ]);
+});
+
+test('checkReplyGuardrails rejects replies too similar to ones already posted', () => {
+  const similar = { ...guardrails, maxSimilarity: 0.8 };
+  const posted = [
+    'Thanks so much for the kind words, Jane! Glad the guide helped.',
+  ];
+
+  expect(
+    checkReplyGuardrails(
+      'Thanks so much for the kind words, Omar! Glad the guide helped.',
+      similar,
+      posted
+    )
+  ).toEqual([
+    expect.stringMatching(
+      /^Too similar to a reply already posted \(\d+% alike\)$/
+    ),
+  ]);
+  expect(
+    checkReplyGuardrails(
+      'Good question. The pricing page lists every plan.',
+      similar,
+      posted
+    )
+  ).toEqual([]);
+});
+
+test('getTextSimilarity ignores case, punctuation and spacing', () => {
+  expect(getTextSimilarity('Great post!', 'great,   POST?')).toBe(1);
+  expect(getTextSimilarity('abc', 'xyz')).toBe(0);
+  expect(getTextSimilarity('', '')).toBe(0);
+});
@@ -0,0 +1,199 @@
+import { test, expect } from '@playwright/test';
+import type { QuietHours } from '../../src/shared/types';
+import {
+  getPipelineStatus,
+  startPipeline,
+  stopPipeline,
+} from '../../src/background/services/pipelineManager';
+import {
+  QUIET_HOURS_PAUSE_REASON,
+  initScheduler,
+  isWithinQuietHours,
+  updateSchedule,
+} from '../../src/background/services/scheduler';
+import { getPostState } from '../../src/background/services/stateManager';
+import { createComments } from './fixtures/comment';
+import { fakeChrome } from './fixtures/chrome';
+import {
+  PAGE_STEPS,
+  broadcasts,
+  contentScript,
+  savePost,
+  sendMessageToTab,
+  setUpPipeline,
+  waitForRunEnd,
+} from './fixtures/pipeline';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const QUIET_HOURS_OFF: QuietHours = {
+  enabled: false,
+  start: '22:00',
+  end: '07:00',
+};
+
+const toClock = (date: Date) =>
+  [date.getHours(), date.getMinutes()]
+    .map((part) => String(part).padStart(2, '0'))
+    .join(':');
+
+// Quiet hours from an hour ago until an hour from now
+const quietHoursNow = (): QuietHours => ({
+  enabled: true,
+  start: toClock(new Date(Date.now() - HOUR_MS)),
+  end: toClock(new Date(Date.now() + HOUR_MS)),
+});
+
+test.beforeEach(async () => {
+  await setUpPipeline();
+  await initScheduler((state) => broadcasts.push(state), sendMessageToTab);
+  // The schedule of an earlier test is only replaced by a stored one
+  await updateSchedule({
+    enabled: false,
+    postUrn: undefined,
+    steps: undefined,
+    quietHours: QUIET_HOURS_OFF,
+  });
+});
+
+test('isWithinQuietHours handles windows that wrap past midnight', () => {
+  const at = (time: string) => new Date(`2025-06-02T${time}:00`);
+  const overnight = { enabled: true, start: '22:00', end: '07:00' };
+
+  expect(isWithinQuietHours(overnight, at('23:30'))).toBe(true);
+  expect(isWithinQuietHours(overnight, at('06:59'))).toBe(true);
+  expect(isWithinQuietHours(overnight, at('07:00'))).toBe(false);
+  expect(isWithinQuietHours(overnight, at('12:00'))).toBe(false);
+
+  const lunch = { enabled: true, start: '12:00', end: '13:30' };
+  expect(isWithinQuietHours(lunch, at('12:45'))).toBe(true);
+  expect(isWithinQuietHours(lunch, at('13:30'))).toBe(false);
+  expect(isWithinQuietHours({ ...lunch, enabled: false }, at('12:45'))).toBe(
+    false
+  );
+  expect(
+    isWithinQuietHours({ enabled: true, start: '09:00', end: '09:00' })
+  ).toBe(false);
+});
+
+test('updateSchedule validates the times, the post and the steps', async () => {
+  await expect(
+    updateSchedule({ slots: [{ days: [1], time: '25:00' }] })
+  ).rejects.toThrow('Invalid schedule time: 25:00');
+  await expect(
+    updateSchedule({
+      quietHours: { enabled: true, start: '22h', end: '07:00' },
+    })
+  ).rejects.toThrow('Invalid quiet hours window.');
+  await expect(
+    updateSchedule({ enabled: true, target: 'post' })
+  ).rejects.toThrow('Choose a post for the scheduled run.');
+  await expect(
+    updateSchedule({ steps: { ...PAGE_STEPS, like: false, reply: false } })
+  ).rejects.toThrow(
+    'Select at least one of like, reply, DM or connection request.'
+  );
+
+  const settings = await updateSchedule({ steps: { ...PAGE_STEPS, dm: true } });
+  expect(settings.steps).toMatchObject({ dm: true, connectionCheck: true });
+});
+
+test('updateSchedule arms alarms for the next run and the quiet hours', async () => {
+  const settings = await updateSchedule({
+    enabled: true,
+    target: 'campaign',
+    slots: [{ days: [], time: '09:15' }],
+    quietHours: { enabled: true, start: '22:00', end: '07:00' },
+  });
+
+  const nextRun = new Date(fakeChrome.alarms.get('scheduler:run')!);
+  expect(settings.nextRunAt).toBe(nextRun.toISOString());
+  expect(toClock(nextRun)).toBe('09:15');
+  expect(nextRun.getTime() - Date.now()).toBeLessThanOrEqual(24 * HOUR_MS);
+  expect(
+    toClock(new Date(fakeChrome.alarms.get('scheduler:quiet-start')!))
+  ).toBe('22:00');
+  expect(toClock(new Date(fakeChrome.alarms.get('scheduler:quiet-end')!))).toBe(
+    '07:00'
+  );
+
+  await updateSchedule({ enabled: false, quietHours: QUIET_HOURS_OFF });
+  expect([...fakeChrome.alarms.keys()]).toEqual([]);
+});
+
+test('runs started by hand during quiet hours are parked until they end', async () => {
+  await updateSchedule({ quietHours: quietHoursNow() });
+  const { postUrn, tabId } = await savePost(createComments(1));
+
+  await startPipeline(postUrn, tabId, undefined, 'auto', { ...PAGE_STEPS });
+
+  expect(getPipelineStatus()).toBe('paused');
+  expect(contentScript.actions()).toEqual([]);
+  const { _meta } = getPostState(postUrn)!;
+  expect(_meta.pauseReason).toBe(QUIET_HOURS_PAUSE_REASON);
+  expect(Date.parse(_meta.resumeAt!)).toBe(
+    fakeChrome.alarms.get(`pipeline:auto-resume:${postUrn}`)
+  );
+
+  await updateSchedule({ quietHours: QUIET_HOURS_OFF });
+  const runEnd = waitForRunEnd();
+  fakeChrome.fireAlarm(`pipeline:auto-resume:${postUrn}`);
+  expect(await runEnd).toMatchObject({ status: 'idle', completed: true });
+  expect(contentScript.actions().map((m) => m.type)).toEqual([
+    'LIKE_COMMENT',
+    'REPLY_TO_COMMENT',
+  ]);
+});
+
+test('scheduled runs pick up new comments of the post before starting', async () => {
+  const { postUrn } = await savePost(createComments(1));
+  const [, newComment] = createComments(2);
+  contentScript.replies.CAPTURE_POST_STATE = { comments: [newComment] };
+  await updateSchedule({
+    enabled: true,
+    target: 'post',
+    postUrn,
+    steps: { ...PAGE_STEPS, reply: false },
+  });
+
+  const runEnd = waitForRunEnd();
+  fakeChrome.fireAlarm('scheduler:run');
+  expect(await runEnd).toMatchObject({ postUrn, completed: true });
+
+  expect(
+    contentScript.actions().map((m) => m.payload as { commentId: string })
+  ).toEqual([
+    expect.objectContaining({ commentId: 'urn:li:comment:(activity:1,1)' }),
+    expect.objectContaining({ commentId: 'urn:li:comment:(activity:1,2)' }),
+  ]);
+});
+
+test('scheduled runs resume a paused run of the same post', async () => {
+  const { postUrn, tabId } = await savePost(createComments(2));
+  let releaseLike: (liked: boolean) => void = () => {};
+  contentScript.replies.LIKE_COMMENT = () =>
+    new Promise<boolean>((resolve) => {
+      releaseLike = resolve;
+    });
+  let runEnd = waitForRunEnd();
+  await startPipeline(postUrn, tabId, undefined, 'auto', {
+    ...PAGE_STEPS,
+    reply: false,
+  });
+  await expect.poll(() => contentScript.actions().length).toBe(1);
+  await stopPipeline();
+  releaseLike(true);
+  expect(await runEnd).toMatchObject({ status: 'paused' });
+
+  contentScript.replies.LIKE_COMMENT = true;
+  await updateSchedule({ enabled: true, target: 'post', postUrn });
+  runEnd = waitForRunEnd();
+  fakeChrome.fireAlarm('scheduler:run');
+  expect(await runEnd).toMatchObject({ postUrn, completed: true });
+
+  // The resumed run keeps its steps rather than the schedule's defaults
+  expect(contentScript.actions().map((m) => m.type)).toEqual([
+    'LIKE_COMMENT',
+    'LIKE_COMMENT',
+  ]);
+});
@@ -0,0 +1,127 @@
+import { test, expect } from '@playwright/test';
+import type { Comment } from '../../src/shared/types';
+import { getPipelineStatus } from '../../src/background/services/pipelineManager';
+import { getPostState } from '../../src/background/services/stateManager';
+import { fakeChrome } from './fixtures/chrome';
+import { createComments } from './fixtures/comment';
+import {
+  PAGE_STEPS,
+  broadcasts,
+  contentScript,
+  restartPipelineManager,
+  savePost,
+  setUpPipeline,
+  waitForRunEnd,
+} from './fixtures/pipeline';
+
+const SECOND = 'urn:li:comment:(activity:1,2)';
+
+// Two comments, of which the run already handled the first
+const createHalfDoneComments = (): Comment[] => {
+  const [done, open] = createComments(2);
+  return [{ ...done, likeStatus: 'DONE', replyStatus: 'DONE' }, open];
+};
+
+test.beforeEach(async () => {
+  await setUpPipeline();
+});
+
+test('an interrupted run continues after a worker restart', async () => {
+  const { postUrn, tabId } = await savePost(createHalfDoneComments(), {
+    runState: 'running',
+    steps: { ...PAGE_STEPS },
+  });
+  fakeChrome.storageData.local.pipelineSession = {
+    postUrn,
+    tabId,
+    runMode: 'auto',
+    steps: { ...PAGE_STEPS },
+    delayUntil: Date.now() + 50,
+  };
+
+  const runEnd = waitForRunEnd();
+  await restartPipelineManager();
+  expect(await runEnd).toMatchObject({ postUrn, completed: true });
+
+  // The rest of the delay is waited out first
+  expect(broadcasts.some((state) => state.delayCountdownMs! > 0)).toBe(true);
+  expect(
+    contentScript
+      .actions()
+      .map((m) => [m.type, (m.payload as { commentId: string }).commentId])
+  ).toEqual([
+    ['LIKE_COMMENT', SECOND],
+    ['REPLY_TO_COMMENT', SECOND],
+  ]);
+  expect(contentScript.actions().every((m) => m.tabId === tabId)).toBe(true);
+  expect(fakeChrome.storageData.local.pipelineSession).toBeUndefined();
+});
+
+test('a restored run finds the post tab again when its tab is gone', async () => {
+  const { postUrn, tabId } = await savePost(createHalfDoneComments(), {
+    runState: 'running',
+  });
+  fakeChrome.storageData.local.pipelineSession = {
+    postUrn,
+    tabId: tabId + 100,
+    runMode: 'auto',
+    steps: { ...PAGE_STEPS, reply: false },
+  };
+
+  const runEnd = waitForRunEnd();
+  await restartPipelineManager();
+  expect(await runEnd).toMatchObject({ postUrn, completed: true });
+  expect(contentScript.actions()).toEqual([
+    expect.objectContaining({ tabId, type: 'LIKE_COMMENT' }),
+  ]);
+});
+
+test('a session of a run that is no longer running is discarded', async () => {
+  const { postUrn, tabId } = await savePost(createHalfDoneComments(), {
+    runState: 'paused',
+  });
+  fakeChrome.storageData.local.pipelineSession = {
+    postUrn,
+    tabId,
+    runMode: 'auto',
+    steps: { ...PAGE_STEPS },
+  };
+
+  await restartPipelineManager();
+
+  expect(getPipelineStatus()).toBe('idle');
+  expect(fakeChrome.storageData.local.pipelineSession).toBeUndefined();
+  expect(contentScript.actions()).toEqual([]);
+});
+
+test('a paused run resumes by its alarm in the post tab', async () => {
+  const { postUrn, tabId } = await savePost(createHalfDoneComments(), {
+    runState: 'paused',
+    pauseReason: 'quota:like:hour',
+    resumeAt: new Date().toISOString(),
+    steps: { ...PAGE_STEPS },
+  });
+
+  const runEnd = waitForRunEnd();
+  fakeChrome.fireAlarm(`pipeline:auto-resume:${postUrn}`);
+  expect(await runEnd).toMatchObject({ postUrn, completed: true });
+  expect(contentScript.actions().map((m) => [m.tabId, m.type])).toEqual([
+    [tabId, 'LIKE_COMMENT'],
+    [tabId, 'REPLY_TO_COMMENT'],
+  ]);
+  expect(getPostState(postUrn)!._meta.pauseReason).toBeUndefined();
+});
+
+test('the resume alarm leaves a post alone that was resumed or reset since', async () => {
+  const { postUrn } = await savePost(createHalfDoneComments(), {
+    runState: 'idle',
+    steps: { ...PAGE_STEPS },
+  });
+
+  fakeChrome.fireAlarm(`pipeline:auto-resume:${postUrn}`);
+  // Lets the alarm handler run
+  await new Promise((resolve) => setTimeout(resolve, 50));
+
+  expect(getPipelineStatus()).toBe('idle');
+  expect(contentScript.actions()).toEqual([]);
+});
@@ -0,0 +1,83 @@
+import { test, expect } from '@playwright/test';
+import { parseStructuredDraft } from '../../src/background/services/structuredOutput';
+
+const draft = {
+  reply: 'Thanks Jane, glad it helped!',
+  dm: 'Hi Jane, thanks for the kind words on my post.',
+  reaction: 'insightful',
+  skip: false,
+  skipReason: '',
+  sentiment: 'positive',
+  language: 'en',
+};
+
+test('parseStructuredDraft reads a well-formed answer', () => {
+  expect(parseStructuredDraft(JSON.stringify(draft))).toEqual(draft);
+});
+
+test('parseStructuredDraft repairs code fences, surrounding text and trailing commas', () => {
+  const raw = `Here is the JSON:
+\`\`\`json
+{
+  "reply": " Thanks Jane, glad it helped! ",
+  "dm": "Hi Jane, thanks for the kind words on my post.",
+  "reaction": "Insightful",
+  "skip": false,
+  "skipReason": "",
+  "sentiment": "POSITIVE",
+  "language": "EN",
+}
+\`\`\`
+Let me know if you need anything else.`;
+
+  expect(parseStructuredDraft(raw)).toEqual(draft);
+});
+
+test('parseStructuredDraft rejects answers without a JSON object', () => {
+  expect(() => parseStructuredDraft('I cannot answer that.')).toThrow(
+    'Invalid JSON: The response does not contain a JSON object.'
+  );
+  expect(() => parseStructuredDraft('{"reply": "Thanks" "dm": ""}')).toThrow(
+    /^Invalid JSON: /
+  );
+});
+
+test('parseStructuredDraft lists every schema problem for the repair prompt', () => {
+  const raw = JSON.stringify({
+    ...draft,
+    reply: '',
+    reaction: 'wow',
+    skip: 'no',
+    sentiment: undefined,
+  });
+
+  expect(() => parseStructuredDraft(raw)).toThrow(
+    'Invalid draft: "sentiment" must be a string; "skip" must be true or false; "reaction" must be one of like, celebrate, support, love, insightful, funny, none; "sentiment" must be one of positive, neutral, negative; "reply" must not be empty unless "skip" is true'
+  );
+});
+
+test('parseStructuredDraft requires a DM only when one will be sent', () => {
+  const raw = JSON.stringify({ ...draft, dm: '  ' });
+
+  expect(parseStructuredDraft(raw).dm).toBe('');
+  expect(() => parseStructuredDraft(raw, { requireDm: true })).toThrow(
+    'Invalid draft: "dm" must not be empty unless "skip" is true'
+  );
+});
+
+test('parseStructuredDraft accepts empty texts on skipped comments', () => {
+  const raw = JSON.stringify({
+    ...draft,
+    reply: '',
+    dm: '',
+    reaction: 'none',
+    skip: true,
+    skipReason: 'Spam',
+  });
+
+  expect(parseStructuredDraft(raw, { requireDm: true })).toMatchObject({
+    skip: true,
+    skipReason: 'Spam',
+    reaction: 'none',
+  });
+});
@@ -0,0 +1,121 @@
+import { test, expect } from '@playwright/test';
+import type { TriggerRule } from '../../src/shared/types';
+import { startPipeline } from '../../src/background/services/pipelineManager';
+import { getPostState } from '../../src/background/services/stateManager';
+import {
+  getActiveTriggerRules,
+  matchesTriggerPattern,
+  saveTriggerRule,
+} from '../../src/background/services/triggerRules';
+import { fakeChrome } from './fixtures/chrome';
+import { createComments } from './fixtures/comment';
+import {
+  PAGE_STEPS,
+  contentScript,
+  savePost,
+  setUpPipeline,
+  waitForRunEnd,
+} from './fixtures/pipeline';
+
+const rule = (
+  overrides: Partial<TriggerRule> = {}
+): Omit<TriggerRule, 'id' | 'updatedAt'> => ({
+  name: 'Guide',
+  enabled: true,
+  matchType: 'keyword',
+  pattern: 'guide, checklist',
+  postUrns: [],
+  resource: 'https://example.org/guide.pdf',
+  replyTemplate: '',
+  nonConnectedReplyTemplate: '',
+  dmTemplate: '',
+  connect: false,
+  ...overrides,
+});
+
+test('keyword rules match whole words and regex rules match anywhere', () => {
+  const keywords = { ...rule(), id: '1', updatedAt: '' };
+  expect(matchesTriggerPattern(keywords, 'GUIDE please!')).toBe(true);
+  expect(matchesTriggerPattern(keywords, 'Send the checklist')).toBe(true);
+  expect(matchesTriggerPattern(keywords, 'Great guidelines')).toBe(false);
+
+  const regex = {
+    ...keywords,
+    matchType: 'regex' as const,
+    pattern: 'pdf|deck',
+  };
+  expect(matchesTriggerPattern(regex, 'Is there a PDF?')).toBe(true);
+  expect(
+    matchesTriggerPattern({ ...regex, pattern: '(' }, 'Is there a PDF?')
+  ).toBe(false);
+  // Intents are left to the AI
+  expect(
+    matchesTriggerPattern(
+      { ...keywords, matchType: 'intent', pattern: 'guide' },
+      'guide'
+    )
+  ).toBe(false);
+});
+
+test('saveTriggerRule validates and stores the rule', async () => {
+  await setUpPipeline();
+
+  await expect(saveTriggerRule(rule({ pattern: ' , ' }))).rejects.toThrow(
+    'The trigger rule needs at least one keyword.'
+  );
+  await expect(
+    saveTriggerRule(rule({ matchType: 'regex', pattern: '(' }))
+  ).rejects.toThrow('Invalid regular expression');
+  await expect(
+    saveTriggerRule(rule({ dmTemplate: 'Here: {{trigger.link}}' }))
+  ).rejects.toThrow('DM template uses unknown variables: trigger.link');
+
+  const global = await saveTriggerRule(rule({ name: ' ' }));
+  const scoped = await saveTriggerRule(
+    rule({ postUrns: ['urn:li:activity:1', 'urn:li:activity:1'] })
+  );
+  await saveTriggerRule(rule({ enabled: false }));
+
+  expect(global.name).toBe('guide, checklist');
+  expect(scoped.postUrns).toEqual(['urn:li:activity:1']);
+  expect(getActiveTriggerRules('urn:li:activity:1')).toEqual([global, scoped]);
+  expect(getActiveTriggerRules('urn:li:activity:2')).toEqual([global]);
+  expect(fakeChrome.storageData.local.triggerRules).toHaveLength(3);
+});
+
+test('a matching comment gets the reply template of the rule', async () => {
+  await setUpPipeline();
+  const saved = await saveTriggerRule(
+    rule({
+      replyTemplate:
+        'Here you go {{commenter.firstName}}: {{trigger.resource}}',
+    })
+  );
+  const [keyword, other] = createComments(2);
+  const { postUrn, tabId } = await savePost([
+    { ...keyword, text: 'Guide please!' },
+    other,
+  ]);
+
+  const runEnd = waitForRunEnd();
+  await startPipeline(postUrn, tabId, undefined, 'auto', {
+    ...PAGE_STEPS,
+    like: false,
+  });
+  await runEnd;
+
+  const [matched, unmatched] = getPostState(postUrn)!.comments;
+  expect(matched.trigger).toMatchObject({
+    ruleId: saved.id,
+    resource: 'https://example.org/guide.pdf',
+  });
+  expect(unmatched.trigger).toBeNull();
+  const replies = contentScript
+    .actions()
+    .map((message) => (message.payload as { replyText: string }).replyText);
+  expect(replies[0]).toBe(
+    'Here you go Commenter: https://example.org/guide.pdf'
+  );
+  // Other comments get the usual AI reply
+  expect(replies[1]).toBe(unmatched.pipeline.generatedReply);
+});
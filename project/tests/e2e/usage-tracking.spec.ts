@@ -0,0 +1,108 @@
+import { test, expect } from '@playwright/test';
+import type { GenerationUsage } from '../../src/shared/types';
+import { startPipeline } from '../../src/background/services/pipelineManager';
+import { getPostState } from '../../src/background/services/stateManager';
+import {
+  addToUsageTotals,
+  computeCost,
+  createUsageTotals,
+} from '../../src/background/services/usageTracker';
+import { createComments } from './fixtures/comment';
+import {
+  PAGE_STEPS,
+  broadcasts,
+  contentScript,
+  savePost,
+  setUpPipeline,
+  waitForRunEnd,
+} from './fixtures/pipeline';
+
+const REPLY_ONLY = { ...PAGE_STEPS, like: false };
+
+const generation = (
+  overrides: Partial<GenerationUsage> = {}
+): GenerationUsage => ({
+  kind: 'reply',
+  model: 'test-model',
+  promptTokens: 1000,
+  completionTokens: 50,
+  latencyMs: 800,
+  costUsd: 0.002,
+  at: '2025-06-02T12:00:00.000Z',
+  ...overrides,
+});
+
+test('costs are computed from the per-token price', () => {
+  const tokens = { promptTokens: 1000, completionTokens: 50 };
+  expect(
+    computeCost(tokens, { prompt: 0.000001, completion: 0.00002 })
+  ).toBeCloseTo(0.002);
+  expect(computeCost(tokens, null)).toBeNull();
+});
+
+test('usage totals count generations without a price apart', () => {
+  const totals = addToUsageTotals(
+    addToUsageTotals(undefined, generation()),
+    generation({ promptTokens: 200, completionTokens: 30, costUsd: null })
+  );
+
+  expect(totals).toEqual({
+    generations: 2,
+    promptTokens: 1200,
+    completionTokens: 80,
+    costUsd: 0.002,
+    unpricedGenerations: 1,
+  });
+  expect(createUsageTotals()).toEqual({
+    generations: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    costUsd: 0,
+    unpricedGenerations: 0,
+  });
+});
+
+test('each generation is recorded on its comment, the run and the post', async () => {
+  await setUpPipeline();
+  const { postUrn, tabId } = await savePost(createComments(2));
+
+  const runEnd = waitForRunEnd();
+  await startPipeline(postUrn, tabId, undefined, 'auto', REPLY_ONLY);
+  await runEnd;
+
+  const { comments, _meta } = getPostState(postUrn)!;
+  comments.forEach((comment) =>
+    expect(comment.usage).toEqual([
+      expect.objectContaining({
+        kind: 'reply',
+        promptTokens: expect.any(Number),
+        completionTokens: expect.any(Number),
+      }),
+    ])
+  );
+  const promptTokens = comments[0].usage![0].promptTokens;
+  expect(promptTokens).toBeGreaterThan(0);
+  expect(_meta.usage).toMatchObject({
+    generations: 2,
+    promptTokens: promptTokens + comments[1].usage![0].promptTokens,
+  });
+  const runUsages = broadcasts.filter((state) => state.runUsage);
+  expect(runUsages[runUsages.length - 1]).toMatchObject({
+    runUsage: _meta.usage,
+    postUsage: _meta.usage,
+  });
+});
+
+test('the cost budget pauses the run before the next comment', async () => {
+  await setUpPipeline({ costBudgetUsd: 0.5 });
+  const { postUrn, tabId } = await savePost(createComments(1), {
+    usage: addToUsageTotals(undefined, generation({ costUsd: 0.5 })),
+  });
+
+  const runEnd = waitForRunEnd();
+  await startPipeline(postUrn, tabId, undefined, 'auto', REPLY_ONLY);
+  expect(await runEnd).toMatchObject({ status: 'paused', completed: false });
+
+  expect(contentScript.actions()).toEqual([]);
+  expect(getPostState(postUrn)!._meta.pauseReason).toBe('cost-budget');
+});